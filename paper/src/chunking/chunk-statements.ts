@@ -0,0 +1,92 @@
+import type { RecursiveCharacterSplitter } from "./recursive-character-splitter.ts";
+import type { EmbeddingProvider } from "#/embeddings/embedding-provider.ts";
+import { EmbeddingMismatchError } from "#/embeddings/embedding-settings.ts";
+
+const XSD_STRING = "http://www.w3.org/2001/XMLSchema#string";
+const RDF_LANG_STRING = "http://www.w3.org/1999/02/22-rdf-syntax-ns#langString";
+
+/**
+ * ChunkSource is a statement to be inserted whose object may be chunked.
+ * index is the position of the statement among the insertions of a patch.
+ */
+export interface ChunkSource {
+  index: number;
+  object: string;
+  termType: string;
+  objectDatatype: string;
+}
+
+/**
+ * NewChunk is a chunk ready to be inserted into kb_chunks along with the
+ * statement at index.
+ */
+export interface NewChunk {
+  index: number;
+  content: string;
+  embedding: number[] | null;
+}
+
+/**
+ * isTextLiteral reports whether a statement object is a plain or
+ * language-tagged string literal, as opposed to a number, date, or IRI.
+ */
+export function isTextLiteral(
+  termType: string,
+  datatype: string,
+): boolean {
+  return termType === "Literal" &&
+    (datatype === "" || datatype === XSD_STRING ||
+      datatype === RDF_LANG_STRING);
+}
+
+/**
+ * chunkStatements splits the text literals of statements into chunks and
+ * computes their embeddings in one batch, if an embedding provider is given.
+ */
+export async function chunkStatements(
+  statements: ChunkSource[],
+  splitter: RecursiveCharacterSplitter,
+  embeddings?: EmbeddingProvider,
+): Promise<NewChunk[]> {
+  const chunks: Omit<NewChunk, "embedding">[] = [];
+  for (const statement of statements) {
+    if (!isTextLiteral(statement.termType, statement.objectDatatype)) {
+      continue;
+    }
+
+    for (const content of splitter.split(statement.object)) {
+      chunks.push({ index: statement.index, content });
+    }
+  }
+
+  if (embeddings === undefined || chunks.length === 0) {
+    return chunks.map((chunk) => ({ ...chunk, embedding: null }));
+  }
+
+  const vectors = await embedAll(
+    embeddings,
+    chunks.map((chunk) => chunk.content),
+  );
+  return chunks.map((chunk, i) => ({ ...chunk, embedding: vectors[i] }));
+}
+
+/**
+ * embedAll embeds texts and checks that the provider returned one vector of
+ * the expected size per text.
+ */
+export async function embedAll(
+  embeddings: EmbeddingProvider,
+  texts: string[],
+): Promise<number[][]> {
+  const vectors = await embeddings.embed(texts);
+  if (
+    vectors.length !== texts.length ||
+    vectors.some((vector) => vector.length !== embeddings.dimensions)
+  ) {
+    throw new EmbeddingMismatchError(
+      `Embedding model ${embeddings.modelId} returned vectors of the wrong size`,
+    );
+  }
+
+  return vectors;
+}
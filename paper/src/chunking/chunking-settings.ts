@@ -0,0 +1,120 @@
+import type { Client } from "@libsql/client";
+import {
+  RecursiveCharacterSplitter,
+  type RecursiveCharacterSplitterOptions,
+} from "./recursive-character-splitter.ts";
+
+const CHUNKING_KEY = "chunking";
+
+/**
+ * InvalidChunkingSettingsError is thrown when chunking settings are not
+ * options of a RecursiveCharacterSplitter or false.
+ */
+export class InvalidChunkingSettingsError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = "InvalidChunkingSettingsError";
+  }
+}
+
+/**
+ * parseChunkingSettings checks that a value configures how text literals are
+ * split into chunks: splitter options, or false to store statements without
+ * chunks.
+ */
+export function parseChunkingSettings(
+  value: unknown,
+): RecursiveCharacterSplitterOptions | false {
+  if (value === false) {
+    return false;
+  }
+
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new InvalidChunkingSettingsError(
+      "Chunking settings must be an object or false",
+    );
+  }
+
+  const { chunkSize, chunkOverlap, separators, ...rest } = value as Record<
+    string,
+    unknown
+  >;
+  const [unknownKey] = Object.keys(rest);
+  if (unknownKey !== undefined) {
+    throw new InvalidChunkingSettingsError(
+      `Unknown chunking setting: ${unknownKey}`,
+    );
+  }
+
+  const options: RecursiveCharacterSplitterOptions = {};
+  if (chunkSize !== undefined) {
+    options.chunkSize = integer("chunkSize", chunkSize);
+  }
+
+  if (chunkOverlap !== undefined) {
+    options.chunkOverlap = integer("chunkOverlap", chunkOverlap);
+  }
+
+  if (separators !== undefined) {
+    if (
+      !Array.isArray(separators) ||
+      !separators.every((separator) => typeof separator === "string")
+    ) {
+      throw new InvalidChunkingSettingsError(
+        "separators must be an array of strings",
+      );
+    }
+
+    options.separators = separators;
+  }
+
+  try {
+    new RecursiveCharacterSplitter(options);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new InvalidChunkingSettingsError(error.message);
+    }
+
+    throw error;
+  }
+
+  return options;
+}
+
+/**
+ * chunkingSettings reads how the text literals of a world are split into
+ * chunks. Worlds without settings use the splitter defaults.
+ */
+export async function chunkingSettings(
+  client: Client,
+): Promise<RecursiveCharacterSplitterOptions | false> {
+  const result = await client.execute({
+    sql: "SELECT value FROM kb_settings WHERE key = ?",
+    args: [CHUNKING_KEY],
+  });
+  return result.rows.length > 0
+    ? parseChunkingSettings(JSON.parse(String(result.rows[0].value)))
+    : {};
+}
+
+/**
+ * setChunkingSettings records how the text literals of a world are split into
+ * chunks from now on. Chunks that are already stored are kept.
+ */
+export async function setChunkingSettings(
+  client: Client,
+  settings: RecursiveCharacterSplitterOptions | false,
+): Promise<void> {
+  await client.execute({
+    sql: "INSERT OR REPLACE INTO kb_settings (key, value) VALUES (?, ?)",
+    args: [CHUNKING_KEY, JSON.stringify(parseChunkingSettings(settings))],
+  });
+}
+
+function integer(name: string, value: unknown): number {
+  if (!Number.isInteger(value)) {
+    throw new InvalidChunkingSettingsError(`${name} must be an integer`);
+  }
+
+  return value as number;
+}
@@ -0,0 +1,58 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { RecursiveCharacterSplitter } from "./recursive-character-splitter.ts";
+
+Deno.test("RecursiveCharacterSplitter", async (t) => {
+  await t.step("keeps short text in one chunk", () => {
+    const splitter = new RecursiveCharacterSplitter();
+    assertEquals(splitter.split("  Hello, world!  "), ["Hello, world!"]);
+    assertEquals(splitter.split("   "), []);
+  });
+
+  await t.step("prefers paragraph boundaries", () => {
+    const splitter = new RecursiveCharacterSplitter({
+      chunkSize: 30,
+      chunkOverlap: 0,
+    });
+    assertEquals(
+      splitter.split("First paragraph here.\n\nSecond paragraph here."),
+      ["First paragraph here.", "Second paragraph here."],
+    );
+  });
+
+  await t.step("falls back to words and overlaps chunks", () => {
+    const splitter = new RecursiveCharacterSplitter({
+      chunkSize: 10,
+      chunkOverlap: 4,
+    });
+    const chunks = splitter.split("aaa bbb ccc ddd eee");
+    assertEquals(chunks, ["aaa bbb", "bbb ccc", "ccc ddd", "ddd eee"]);
+  });
+
+  await t.step("splits unbroken text by character", () => {
+    const splitter = new RecursiveCharacterSplitter({
+      chunkSize: 4,
+      chunkOverlap: 0,
+    });
+    assertEquals(splitter.split("abcdefghij"), ["abcd", "efgh", "ij"]);
+  });
+
+  await t.step("custom separators", () => {
+    const splitter = new RecursiveCharacterSplitter({
+      chunkSize: 12,
+      chunkOverlap: 0,
+      separators: ["; "],
+    });
+    const chunks = splitter.split("one; two; three; four; five");
+    assertEquals(chunks, ["one; two", "three; four", "five"]);
+    for (const chunk of chunks) {
+      assert(chunk.length <= 12);
+    }
+  });
+
+  await t.step("rejects invalid sizes", () => {
+    assertThrows(() => new RecursiveCharacterSplitter({ chunkSize: 0 }));
+    assertThrows(
+      () => new RecursiveCharacterSplitter({ chunkSize: 10, chunkOverlap: 10 }),
+    );
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * RecursiveCharacterSplitterOptions configures a RecursiveCharacterSplitter.
+ */
+export interface RecursiveCharacterSplitterOptions {
+  /**
+   * chunkSize is the maximum number of characters in a chunk. Defaults to
+   * 1000.
+   */
+  chunkSize?: number;
+
+  /**
+   * chunkOverlap is the number of characters shared by consecutive chunks.
+   * Defaults to 200.
+   */
+  chunkOverlap?: number;
+
+  /**
+   * separators are tried in order, falling back to the next separator for
+   * pieces that are still too large. Defaults to paragraphs, lines, words,
+   * and characters.
+   */
+  separators?: string[];
+}
+
+export const defaultChunkSize = 1_000;
+export const defaultChunkOverlap = 200;
+export const defaultSeparators = ["\n\n", "\n", " ", ""];
+
+/**
+ * RecursiveCharacterSplitter splits text into chunks by the coarsest
+ * separator that yields small enough pieces, then merges neighbouring pieces
+ * back together up to the chunk size.
+ *
+ * @see https://docs.langchain.com/oss/javascript/integrations/splitters/recursive_text_splitter
+ */
+export class RecursiveCharacterSplitter {
+  private readonly chunkSize: number;
+  private readonly chunkOverlap: number;
+  private readonly separators: string[];
+
+  public constructor(options: RecursiveCharacterSplitterOptions = {}) {
+    this.chunkSize = options.chunkSize ?? defaultChunkSize;
+    this.chunkOverlap = options.chunkOverlap ?? defaultChunkOverlap;
+    this.separators = options.separators ?? defaultSeparators;
+    if (this.chunkSize <= 0) {
+      throw new RangeError("chunkSize must be positive");
+    }
+
+    if (this.chunkOverlap < 0 || this.chunkOverlap >= this.chunkSize) {
+      throw new RangeError(
+        "chunkOverlap must be non-negative and smaller than chunkSize",
+      );
+    }
+  }
+
+  /**
+   * split splits text into chunks of at most chunkSize characters, unless no
+   * separator can split a piece further.
+   */
+  public split(text: string): string[] {
+    return this.splitWith(text, this.separators);
+  }
+
+  private splitWith(text: string, separators: string[]): string[] {
+    const index = separators.findIndex((separator) =>
+      separator === "" || text.includes(separator)
+    );
+    const separator = index === -1 ? "" : separators[index];
+    const remaining = index === -1 ? [] : separators.slice(index + 1);
+    const pieces = separator === "" ? [...text] : text.split(separator);
+
+    const chunks: string[] = [];
+    let small: string[] = [];
+    for (const piece of pieces) {
+      if (piece.length <= this.chunkSize) {
+        small.push(piece);
+        continue;
+      }
+
+      chunks.push(...this.merge(small, separator));
+      small = [];
+      if (remaining.length === 0) {
+        chunks.push(piece);
+      } else {
+        chunks.push(...this.splitWith(piece, remaining));
+      }
+    }
+
+    chunks.push(...this.merge(small, separator));
+    return chunks;
+  }
+
+  /**
+   * merge joins pieces into chunks of at most chunkSize characters, carrying
+   * up to chunkOverlap characters over into the next chunk.
+   */
+  private merge(pieces: string[], separator: string): string[] {
+    const chunks: string[] = [];
+    const current: string[] = [];
+    let total = 0;
+    const joined = (length: number) =>
+      total + length + (current.length > 0 ? separator.length : 0);
+    const flush = () => {
+      const chunk = current.join(separator).trim();
+      if (chunk !== "") {
+        chunks.push(chunk);
+      }
+    };
+
+    for (const piece of pieces) {
+      if (current.length > 0 && joined(piece.length) > this.chunkSize) {
+        flush();
+        while (
+          total > this.chunkOverlap ||
+          (total > 0 && joined(piece.length) > this.chunkSize)
+        ) {
+          total -= current[0].length +
+            (current.length > 1 ? separator.length : 0);
+          current.shift();
+        }
+      }
+
+      total = joined(piece.length);
+      current.push(piece);
+    }
+
+    flush();
+    return chunks;
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * EmbeddingProvider computes vector embeddings of text, e.g. with the
+ * Universal Sentence Encoder, OpenAI, or Ollama.
+ */
+export interface EmbeddingProvider {
+  /**
+   * modelId identifies the model that produces the embeddings. Vectors from
+   * different models are not comparable, so a world only accepts the model
+   * it was created with.
+   */
+  readonly modelId: string;
+
+  /**
+   * dimensions is the length of every embedding.
+   */
+  readonly dimensions: number;
+
+  /**
+   * embed computes the embeddings of a batch of texts, in order.
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * defaultEmbeddingDimensions is the embedding size of the statements schema,
+ * matching the Universal Sentence Encoder.
+ */
+export const defaultEmbeddingDimensions = 512;
@@ -0,0 +1,88 @@
+import type { Client } from "@libsql/client";
+import type { EmbeddingProvider } from "./embedding-provider.ts";
+
+const MODEL_ID_KEY = "embedding_model_id";
+const DIMENSIONS_KEY = "embedding_dimensions";
+
+/**
+ * EmbeddingMismatchError is thrown when an embedding provider does not match
+ * the embeddings already stored in a world.
+ */
+export class EmbeddingMismatchError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = "EmbeddingMismatchError";
+  }
+}
+
+/**
+ * embeddingColumnDimensions reads the size of the kb_chunks embedding column,
+ * or null if the column has no declared size.
+ */
+export async function embeddingColumnDimensions(
+  client: Client,
+): Promise<number | null> {
+  const result = await client.execute("PRAGMA table_info(kb_chunks)");
+  const column = result.rows.find((row) => row.name === "embedding");
+  const match = String(column?.type ?? "").match(
+    /^(?:FLOAT32|F32_BLOB)\((\d+)\)$/i,
+  );
+  return match === null ? null : Number(match[1]);
+}
+
+/**
+ * assertEmbeddingProvider checks that a provider produces vectors that fit the
+ * embedding column and match the model recorded for the world. The first
+ * provider used with a world is recorded as its model.
+ */
+export async function assertEmbeddingProvider(
+  client: Client,
+  provider: EmbeddingProvider,
+): Promise<void> {
+  const columnDimensions = await embeddingColumnDimensions(client);
+  if (columnDimensions !== null && columnDimensions !== provider.dimensions) {
+    throw new EmbeddingMismatchError(
+      `Embedding model ${provider.modelId} has ${provider.dimensions} dimensions, but the world stores ${columnDimensions}`,
+    );
+  }
+
+  const result = await client.execute({
+    sql: "SELECT key, value FROM kb_settings WHERE key IN (?, ?)",
+    args: [MODEL_ID_KEY, DIMENSIONS_KEY],
+  });
+  const settings = new Map(
+    result.rows.map((row) => [String(row.key), String(row.value)]),
+  );
+  const modelId = settings.get(MODEL_ID_KEY);
+  if (modelId === undefined) {
+    await client.batch([
+      {
+        sql: "INSERT OR IGNORE INTO kb_settings (key, value) VALUES (?, ?)",
+        args: [MODEL_ID_KEY, provider.modelId],
+      },
+      {
+        sql: "INSERT OR IGNORE INTO kb_settings (key, value) VALUES (?, ?)",
+        args: [DIMENSIONS_KEY, String(provider.dimensions)],
+      },
+    ], "write");
+    return;
+  }
+
+  if (modelId !== provider.modelId) {
+    throw new EmbeddingMismatchError(
+      `World embeddings were produced by ${modelId}, not ${provider.modelId}`,
+    );
+  }
+}
+
+/**
+ * embeddingModelId reads the embedding model recorded for a world, or null if
+ * none has been used yet.
+ */
+export async function embeddingModelId(client: Client): Promise<string | null> {
+  const result = await client.execute({
+    sql: "SELECT value FROM kb_settings WHERE key = ?",
+    args: [MODEL_ID_KEY],
+  });
+  return result.rows.length > 0 ? String(result.rows[0].value) : null;
+}
@@ -0,0 +1,137 @@
+import {
+  assert,
+  assertAlmostEquals,
+  assertEquals,
+  assertRejects,
+} from "@std/assert";
+import { createClient } from "@libsql/client";
+import { DataFactory } from "rdf-data-factory";
+import { applySchema } from "#/utils/schema.ts";
+import { SqliteSearchStore } from "#/search-store/sqlite-search-store.ts";
+import { HashingEmbeddingProvider } from "./hashing-embedding-provider.ts";
+import {
+  assertEmbeddingProvider,
+  embeddingColumnDimensions,
+  EmbeddingMismatchError,
+  embeddingModelId,
+} from "./embedding-settings.ts";
+
+const factory = new DataFactory();
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+Deno.test("HashingEmbeddingProvider", async (t) => {
+  const provider = new HashingEmbeddingProvider({ dimensions: 64 });
+
+  await t.step("is deterministic and normalized", async () => {
+    const [a, b] = await provider.embed(["The cat sat", "the CAT sat"]);
+    assertEquals(a.length, 64);
+    assertEquals(a, b);
+    assertAlmostEquals(Math.hypot(...a), 1);
+    assertEquals(provider.modelId, "hashing-64");
+  });
+
+  await t.step("places texts with shared words closer", async () => {
+    const [cat, kitten, stock] = await provider.embed([
+      "the cat sat on the mat",
+      "a cat on a mat",
+      "quarterly stock prices",
+    ]);
+    assert(cosine(cat, kitten) > cosine(cat, stock));
+  });
+
+  await t.step("embeds text without words", async () => {
+    const [empty] = await provider.embed(["!!!"]);
+    assertEquals(empty[0], 1);
+  });
+});
+
+Deno.test("assertEmbeddingProvider", async (t) => {
+  const dir = await Deno.makeTempDir();
+  const client = createClient({ url: `file:${dir}/statements.db` });
+  try {
+    await applySchema(client, "statements", { embeddingDimensions: 64 });
+
+    await t.step("reads the column dimensions", async () => {
+      assertEquals(await embeddingColumnDimensions(client), 64);
+    });
+
+    await t.step("records the first model", async () => {
+      assertEquals(await embeddingModelId(client), null);
+      await assertEmbeddingProvider(
+        client,
+        new HashingEmbeddingProvider({ dimensions: 64 }),
+      );
+      assertEquals(await embeddingModelId(client), "hashing-64");
+    });
+
+    await t.step("rejects mismatched models", async () => {
+      await assertRejects(
+        () =>
+          assertEmbeddingProvider(client, {
+            modelId: "other",
+            dimensions: 64,
+            embed: () => Promise.resolve([]),
+          }),
+        EmbeddingMismatchError,
+      );
+    });
+
+    await t.step("rejects mismatched dimensions", async () => {
+      await assertRejects(
+        () =>
+          assertEmbeddingProvider(
+            client,
+            new HashingEmbeddingProvider({ dimensions: 32 }),
+          ),
+        EmbeddingMismatchError,
+      );
+    });
+  } finally {
+    client.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("SqliteSearchStore with HashingEmbeddingProvider", async (t) => {
+  const dir = await Deno.makeTempDir();
+  const client = createClient({ url: `file:${dir}/statements.db` });
+  try {
+    await applySchema(client, "statements");
+    const store = new SqliteSearchStore(client, factory, {
+      embeddings: new HashingEmbeddingProvider(),
+    });
+
+    await t.step("embeds chunks on ingest and searches by vector", async () => {
+      await store.addStatement(factory.quad(
+        factory.namedNode("http://example.org/cat"),
+        factory.namedNode("http://schema.org/description"),
+        factory.literal("A small domesticated carnivorous mammal"),
+      ));
+
+      const results = await store.searchChunks("mammal", 1);
+      assertEquals(results.length, 1);
+      assertEquals(results[0].rank, { fts: 1, vector: 1 });
+      assertEquals(await embeddingModelId(client), "hashing-512");
+    });
+
+    await t.step("rejects providers of another model", async () => {
+      const other = new SqliteSearchStore(client, factory, {
+        embeddings: {
+          modelId: "other",
+          dimensions: 512,
+          embed: (texts) => Promise.resolve(texts.map(() => [])),
+        },
+      });
+      await assertRejects(
+        () => other.searchChunks("mammal"),
+        EmbeddingMismatchError,
+      );
+    });
+  } finally {
+    client.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
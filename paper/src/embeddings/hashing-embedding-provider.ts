@@ -0,0 +1,70 @@
+import {
+  defaultEmbeddingDimensions,
+  type EmbeddingProvider,
+} from "./embedding-provider.ts";
+
+/**
+ * HashingEmbeddingProviderOptions configures a HashingEmbeddingProvider.
+ */
+export interface HashingEmbeddingProviderOptions {
+  /**
+   * dimensions is the length of every embedding. Defaults to 512.
+   */
+  dimensions?: number;
+}
+
+/**
+ * HashingEmbeddingProvider is a deterministic, offline EmbeddingProvider for
+ * tests and local development. It hashes the words of a text into a signed
+ * bag-of-words vector, so texts that share words are close but synonyms are
+ * not.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  public readonly modelId: string;
+  public readonly dimensions: number;
+
+  public constructor(options: HashingEmbeddingProviderOptions = {}) {
+    this.dimensions = options.dimensions ?? defaultEmbeddingDimensions;
+    if (!Number.isInteger(this.dimensions) || this.dimensions <= 0) {
+      throw new RangeError("dimensions must be a positive integer");
+    }
+
+    this.modelId = `hashing-${this.dimensions}`;
+  }
+
+  public embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => this.embedOne(text)));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    for (const word of words) {
+      const hash = fnv1a(word);
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.hypot(...vector);
+    if (norm === 0) {
+      // Texts without words embed to the first basis vector so that cosine
+      // distances stay defined.
+      vector[0] = 1;
+      return vector;
+    }
+
+    return vector.map((value) => value / norm);
+  }
+}
+
+/**
+ * fnv1a is the 32-bit FNV-1a hash of the UTF-16 code units of a string.
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
@@ -0,0 +1,126 @@
+import type { Client } from "@libsql/client";
+import type { RrfOptions } from "./rrf.ts";
+import type { EmbeddingProvider } from "#/embeddings/embedding-provider.ts";
+import { embedAll } from "#/chunking/chunk-statements.ts";
+
+/**
+ * ChunkSearchOptions configures the search of the chunks table.
+ */
+export interface ChunkSearchOptions {
+  /**
+   * embeddings embeds chunks and search queries. Vector search is skipped and
+   * chunks are stored without embeddings when unset.
+   */
+  embeddings?: EmbeddingProvider;
+
+  /**
+   * rrf configures the fusion of the full-text and vector rankings.
+   */
+  rrf?: RrfOptions;
+}
+
+/**
+ * defaultSearchLimit is the number of results returned by a search when k is
+ * not given.
+ */
+export const defaultSearchLimit = 10;
+
+/**
+ * candidatesPerStatement is how many chunks are retrieved per requested
+ * statement, since a statement may have several matching chunks.
+ */
+const candidatesPerStatement = 4;
+
+/**
+ * rankChunks retrieves the IDs of the top chunks for each search signal, best
+ * first.
+ */
+export async function rankChunks(
+  client: Client,
+  query: string,
+  limit: number,
+  options: ChunkSearchOptions = {},
+): Promise<Record<string, number[]>> {
+  const rankings: Record<string, number[]> = {};
+  const match = ftsQuery(query);
+  if (match !== null) {
+    const result = await client.execute({
+      sql: `SELECT rowid AS chunk_id FROM kb_chunks_fts
+        WHERE kb_chunks_fts MATCH ?
+        ORDER BY rank
+        LIMIT ?`,
+      args: [match, limit],
+    });
+    rankings.fts = result.rows.map((row) => Number(row.chunk_id));
+  }
+
+  if (options.embeddings !== undefined && query.trim() !== "") {
+    const [vector] = await embedAll(options.embeddings, [query]);
+    const embedding = JSON.stringify(vector);
+    const result = await client.execute({
+      sql: `SELECT kb_chunks.chunk_id AS chunk_id
+        FROM vector_top_k('kb_chunks_vector_idx', vector32(?), ?) AS top
+        JOIN kb_chunks ON kb_chunks.chunk_id = top.id
+        ORDER BY vector_distance_cos(kb_chunks.embedding, vector32(?))`,
+      args: [embedding, limit, embedding],
+    });
+    rankings.vector = result.rows.map((row) => Number(row.chunk_id));
+  }
+
+  return rankings;
+}
+
+/**
+ * rankStatements retrieves the IDs of the top statements for each search
+ * signal, best first. A statement ranks by its best matching chunk.
+ */
+export async function rankStatements(
+  client: Client,
+  query: string,
+  limit: number,
+  options: ChunkSearchOptions = {},
+): Promise<Record<string, number[]>> {
+  const chunkRankings = await rankChunks(
+    client,
+    query,
+    limit * candidatesPerStatement,
+    options,
+  );
+  const chunkIds = [...new Set(Object.values(chunkRankings).flat())];
+  if (chunkIds.length === 0) {
+    return {};
+  }
+
+  const result = await client.execute({
+    sql: `SELECT chunk_id, statement_id FROM kb_chunks
+      WHERE statement_id IS NOT NULL
+      AND chunk_id IN (${chunkIds.map(() => "?").join(", ")})`,
+    args: chunkIds,
+  });
+  const statementOf = new Map(
+    result.rows.map((row) => [Number(row.chunk_id), Number(row.statement_id)]),
+  );
+
+  const rankings: Record<string, number[]> = {};
+  for (const [signal, ids] of Object.entries(chunkRankings)) {
+    rankings[signal] = ids
+      .map((id) => statementOf.get(id))
+      .filter((id) => id !== undefined);
+  }
+
+  return rankings;
+}
+
+/**
+ * ftsQuery converts free text into an FTS5 query that matches any of its
+ * words, quoting each word so that FTS5 operators in the input are treated as
+ * text. Text without words resolves to null.
+ */
+export function ftsQuery(text: string): string | null {
+  const words = text.match(/[\p{L}\p{N}_]+/gu);
+  if (words === null) {
+    return null;
+  }
+
+  return words.map((word) => `"${word}"`).join(" OR ");
+}
@@ -0,0 +1,39 @@
+import { assertAlmostEquals, assertEquals } from "@std/assert";
+import { defaultRrfK, fuseRankings } from "./rrf.ts";
+
+Deno.test("fuseRankings", async (t) => {
+  await t.step("sums reciprocal ranks across signals", () => {
+    const results = fuseRankings(
+      { fts: ["a", "b"], vector: ["b", "c"] },
+      (id) => id,
+    );
+
+    assertEquals(results.map((result) => result.item), ["b", "a", "c"]);
+    assertEquals(results[0].rank, { fts: 2, vector: 1 });
+    assertAlmostEquals(
+      results[0].score,
+      1 / (defaultRrfK + 2) + 1 / (defaultRrfK + 1),
+    );
+  });
+
+  await t.step("ranks duplicates by their first occurrence", () => {
+    const results = fuseRankings({ fts: ["a", "a", "b"] }, (id) => id);
+    assertEquals(results.map((result) => result.rank), [
+      { fts: 1 },
+      { fts: 2 },
+    ]);
+  });
+
+  await t.step("applies k and weights", () => {
+    const results = fuseRankings(
+      { fts: ["a"], vector: ["b"] },
+      (id) => id,
+      { k: 0, weights: { fts: 0.5 } },
+    );
+
+    assertEquals(results.map((result) => [result.item, result.score]), [
+      ["b", 1],
+      ["a", 0.5],
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import type { RankedResult } from "../../../sqlite/statements.ts";
+
+/**
+ * defaultRrfK is the RRF constant recommended by Cormack et al.
+ */
+export const defaultRrfK = 60;
+
+/**
+ * RrfOptions configures reciprocal rank fusion.
+ */
+export interface RrfOptions {
+  /**
+   * k is the constant added to each rank. Larger values flatten the
+   * contribution of top-ranked items. Defaults to 60.
+   */
+  k?: number;
+
+  /**
+   * weights scales the contribution of each signal, e.g.
+   * `{ fts: 1, vector: 0.5 }`. Signals without a weight count as 1.
+   */
+  weights?: Record<string, number>;
+}
+
+/**
+ * fuseRankings combines ranked lists from multiple signals with reciprocal
+ * rank fusion. Each ranking is ordered best first; ranks are 1-based. Items
+ * are identified across rankings by key, and the first occurrence of an item
+ * in a ranking determines its rank.
+ */
+export function fuseRankings<T>(
+  rankings: Record<string, T[]>,
+  key: (item: T) => string | number,
+  options: RrfOptions = {},
+): RankedResult<T>[] {
+  const k = options.k ?? defaultRrfK;
+  const results = new Map<string | number, RankedResult<T>>();
+  for (const [signal, items] of Object.entries(rankings)) {
+    const weight = options.weights?.[signal] ?? 1;
+    let rank = 0;
+    for (const item of items) {
+      const id = key(item);
+      let result = results.get(id);
+      if (result === undefined) {
+        result = { item, score: 0, rank: {} };
+        results.set(id, result);
+      }
+
+      if (signal in result.rank) {
+        continue;
+      }
+
+      result.rank[signal] = ++rank;
+      result.score += weight / (k + rank);
+    }
+  }
+
+  return [...results.values()].sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,98 @@
+import { assertEquals } from "@std/assert";
+import { createClient } from "@libsql/client";
+import { DataFactory } from "rdf-data-factory";
+import { Readable } from "node:stream";
+import { applySchema } from "#/utils/schema.ts";
+import { SqliteSearchStore } from "./sqlite-search-store.ts";
+import { readAll, SearchStoreAdapter } from "./search-store-adapter.ts";
+
+const factory = new DataFactory();
+
+function ended(
+  emitter: { on(event: string, fn: (e?: unknown) => void): void },
+) {
+  return new Promise<void>((resolve, reject) => {
+    emitter.on("end", () => resolve());
+    emitter.on("error", reject);
+  });
+}
+
+Deno.test("SearchStoreAdapter", async (t) => {
+  const dir = await Deno.makeTempDir();
+  const client = createClient({ url: `file:${dir}/statements.db` });
+  try {
+    await applySchema(client, "statements");
+
+    const adapter = new SearchStoreAdapter(
+      new SqliteSearchStore(client, factory),
+    );
+
+    const g1 = factory.namedNode("http://example.org/g1");
+    const g2 = factory.namedNode("http://example.org/g2");
+    const alice = factory.namedNode("http://example.org/alice");
+    const name = factory.namedNode("http://schema.org/name");
+    const knows = factory.namedNode("http://schema.org/knows");
+    const bob = factory.namedNode("http://example.org/bob");
+
+    await t.step("import", async () => {
+      await ended(adapter.import(Readable.from([
+        factory.quad(alice, name, factory.literal("Alice", "en"), g1),
+        factory.quad(alice, knows, bob, g1),
+        factory.quad(bob, name, factory.literal("Bob"), g2),
+      ])));
+
+      const quads = await readAll(adapter.match());
+      assertEquals(quads.length, 3);
+    });
+
+    await t.step("match by pattern", async () => {
+      const byName = await readAll(adapter.match(null, name));
+      assertEquals(byName.length, 2);
+
+      const aliceInG1 = await readAll(adapter.match(alice, null, null, g1));
+      assertEquals(aliceInG1.length, 2);
+
+      const byLiteral = await readAll(
+        adapter.match(null, null, factory.literal("Alice", "en")),
+      );
+      assertEquals(byLiteral.length, 1);
+      assertEquals(byLiteral[0].subject.value, alice.value);
+
+      const wrongLanguage = await readAll(
+        adapter.match(null, null, factory.literal("Alice", "fr")),
+      );
+      assertEquals(wrongLanguage.length, 0);
+
+      const variables = await readAll(
+        adapter.match(factory.variable("s"), knows, factory.variable("o")),
+      );
+      assertEquals(variables.length, 1);
+    });
+
+    await t.step("remove", async () => {
+      await ended(adapter.remove(Readable.from([
+        factory.quad(alice, knows, bob, g1),
+      ])));
+
+      const quads = await readAll(adapter.match(alice));
+      assertEquals(quads.length, 1);
+    });
+
+    await t.step("removeMatches", async () => {
+      await ended(adapter.removeMatches(null, name, null, g1));
+
+      const quads = await readAll(adapter.match(null, null, null, g1));
+      assertEquals(quads.length, 0);
+    });
+
+    await t.step("deleteGraph", async () => {
+      await ended(adapter.deleteGraph(g2));
+
+      const quads = await readAll(adapter.match());
+      assertEquals(quads.length, 0);
+    });
+  } finally {
+    client.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,91 @@
+import type * as rdfjs from "@rdfjs/types";
+import { EventEmitter } from "node:events";
+import { Readable } from "node:stream";
+import type { SearchStore } from "./search-store.ts";
+
+/**
+ * SearchStoreAdapter exposes a SearchStore as an RDF/JS Store so that it can
+ * be consumed by Comunica, N3.js tooling, and SHACL validators.
+ */
+export class SearchStoreAdapter implements rdfjs.Store {
+  public constructor(private readonly store: SearchStore) {}
+
+  public match(
+    subject?: rdfjs.Term | null,
+    predicate?: rdfjs.Term | null,
+    object?: rdfjs.Term | null,
+    graph?: rdfjs.Term | null,
+  ): rdfjs.Stream<rdfjs.Quad> {
+    const store = this.store;
+    return Readable.from(
+      (async function* () {
+        yield* await store.matchStatements({
+          subject,
+          predicate,
+          object,
+          graph,
+        });
+      })(),
+      { objectMode: true },
+    );
+  }
+
+  public import(stream: rdfjs.Stream<rdfjs.Quad>): EventEmitter {
+    return settle(
+      readAll(stream).then((quads) => this.store.addStatements(quads)),
+    );
+  }
+
+  public remove(stream: rdfjs.Stream<rdfjs.Quad>): EventEmitter {
+    return settle(
+      readAll(stream).then((quads) => this.store.deleteStatements(quads)),
+    );
+  }
+
+  public removeMatches(
+    subject?: rdfjs.Term | null,
+    predicate?: rdfjs.Term | null,
+    object?: rdfjs.Term | null,
+    graph?: rdfjs.Term | null,
+  ): EventEmitter {
+    return settle(
+      this.store.matchStatements({ subject, predicate, object, graph })
+        .then((quads) => this.store.deleteStatements(quads)),
+    );
+  }
+
+  public deleteGraph(graph: rdfjs.Quad_Graph | string): EventEmitter {
+    return settle(
+      this.store.removeStatements(
+        typeof graph === "string" ? graph : graph.value,
+      ),
+    );
+  }
+}
+
+/**
+ * readAll collects the quads of an RDF/JS stream.
+ */
+export function readAll(
+  stream: rdfjs.Stream<rdfjs.Quad>,
+): Promise<rdfjs.Quad[]> {
+  return new Promise((resolve, reject) => {
+    const quads: rdfjs.Quad[] = [];
+    stream.on("data", (quad: rdfjs.Quad) => quads.push(quad));
+    stream.on("error", reject);
+    stream.on("end", () => resolve(quads));
+  });
+}
+
+/**
+ * settle returns an event emitter that emits "end" when the promise resolves
+ * and "error" when it rejects.
+ */
+function settle(promise: Promise<unknown>): EventEmitter {
+  const emitter = new EventEmitter();
+  promise.then(
+    () => emitter.emit("end"),
+    (error) => emitter.emit("error", error),
+  );
+  return emitter;
+}
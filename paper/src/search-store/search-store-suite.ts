@@ -0,0 +1,378 @@
+import { assert, assertEquals } from "@std/assert";
+import { createClient } from "@libsql/client";
+import type { Client } from "@libsql/client";
+import { DataFactory } from "rdf-data-factory";
+import { applySchema } from "#/utils/schema.ts";
+import type { SearchStore } from "./search-store.ts";
+
+const factory = new DataFactory();
+
+/**
+ * testSearchStore registers the tests that every SearchStore implementation
+ * must pass. create builds a store over a temporary database file with the
+ * statements schema.
+ */
+export function testSearchStore(
+  name: string,
+  create: (client: Client, df: DataFactory) => SearchStore,
+): void {
+  Deno.test(`${name} implements SearchStore`, async (t) => {
+    const dir = await Deno.makeTempDir();
+    const client = createClient({ url: `file:${dir}/statements.db` });
+    try {
+      await applySchema(client, "statements");
+      const store = create(client, factory);
+
+      const g = factory.namedNode("http://example.org/g");
+      const alice = factory.namedNode("http://example.org/alice");
+      const bob = factory.namedNode("http://example.org/bob");
+      const name = factory.namedNode("http://schema.org/name");
+      const knows = factory.namedNode("http://schema.org/knows");
+      const age = factory.namedNode("http://schema.org/age");
+      const integer = factory.namedNode(
+        "http://www.w3.org/2001/XMLSchema#integer",
+      );
+
+      await t.step(
+        "addStatements / getStatements round-trips terms",
+        async () => {
+          const quads = [
+            factory.quad(alice, name, factory.literal("Alice", "en"), g),
+            factory.quad(alice, knows, bob, g),
+            factory.quad(alice, age, factory.literal("42", integer), g),
+          ];
+          await store.addStatements(quads);
+          await store.addStatements(quads);
+
+          const retrieved = await store.getStatements(g.value);
+          assertEquals(retrieved.length, 3);
+          for (const quad of quads) {
+            assert(retrieved.some((other) => other.equals(quad)));
+          }
+        },
+      );
+
+      await t.step("default graph", async () => {
+        const quad = factory.quad(bob, name, factory.literal("Bob", "en"));
+        await store.addStatement(quad);
+
+        const retrieved = await store.matchStatements({
+          graph: factory.defaultGraph(),
+        });
+        assertEquals(retrieved.length, 1);
+        assert(retrieved[0].equals(quad));
+      });
+
+      await t.step("matchStatements", async () => {
+        assertEquals((await store.matchStatements({})).length, 4);
+        assertEquals(
+          (await store.matchStatements({ subject: alice })).length,
+          3,
+        );
+        assertEquals(
+          (await store.matchStatements({ predicate: name })).length,
+          2,
+        );
+        assertEquals(
+          (await store.matchStatements({
+            object: factory.literal("Alice", "en"),
+          })).length,
+          1,
+        );
+        assertEquals(
+          (await store.matchStatements({ object: factory.literal("Alice") }))
+            .length,
+          0,
+        );
+      });
+
+      await t.step("getStatement / removeStatement", async () => {
+        const result = await client.execute(
+          "SELECT statement_id FROM kb_statements WHERE predicate = 'http://schema.org/age'",
+        );
+        const id = String(result.rows[0].statement_id);
+
+        const quad = await store.getStatement(id);
+        assert(quad !== null);
+        assertEquals(quad.predicate.value, age.value);
+
+        await store.removeStatement(id);
+        assertEquals(await store.getStatement(id), null);
+        assertEquals(await store.getStatement("not-an-id"), null);
+      });
+
+      await t.step("deleteStatements", async () => {
+        await store.deleteStatements([factory.quad(alice, knows, bob, g)]);
+        assertEquals(
+          (await store.matchStatements({ predicate: knows })).length,
+          0,
+        );
+      });
+
+      await t.step("addStatements chunks text literals", async () => {
+        const result = await client.execute(
+          "SELECT content FROM kb_chunks ORDER BY chunk_id",
+        );
+        assertEquals(result.rows.map((row) => row.content), ["Alice", "Bob"]);
+      });
+
+      await t.step("searchStatements / searchChunks", async () => {
+        const statements = await store.searchStatements("alice", 5);
+        assertEquals(statements.length, 1);
+        assertEquals(statements[0].item.subject.value, alice.value);
+        assertEquals(Object.keys(statements[0].rank), ["fts"]);
+
+        const chunks = await store.searchChunks("bob alice", 5);
+        assertEquals(chunks.length, 2);
+        assert(chunks[0].score >= chunks[1].score);
+        assertEquals((await store.searchChunks("nobody")).length, 0);
+      });
+
+      await t.step("removeStatements", async () => {
+        await store.removeStatements(g.value);
+        assertEquals(await store.getStatements(g.value), []);
+        assertEquals((await store.matchStatements({})).length, 1);
+      });
+
+      await t.step("long literals are split into chunks", async () => {
+        const words = Array.from({ length: 400 }, (_, i) => `word${i}`);
+        const quad = factory.quad(
+          alice,
+          factory.namedNode("http://schema.org/description"),
+          factory.literal(words.join(" ")),
+          g,
+        );
+        await store.addStatement(quad);
+
+        const result = await client.execute(
+          "SELECT content FROM kb_chunks WHERE content LIKE 'word%'",
+        );
+        assert(result.rows.length > 1);
+        for (const row of result.rows) {
+          assert(String(row.content).length <= 1_000);
+        }
+
+        const [hit] = await store.searchStatements("word399", 1);
+        assert(hit.item.equals(quad));
+
+        await store.deleteStatements([quad]);
+        const remaining = await client.execute(
+          "SELECT COUNT(*) AS count FROM kb_chunks WHERE content LIKE 'word%'",
+        );
+        assertEquals(remaining.rows[0].count, 0);
+      });
+
+      await t.step("blank nodes round-trip in every position", async () => {
+        await store.addStatements([
+          factory.quad(
+            factory.blankNode("b1"),
+            knows,
+            factory.blankNode("b2"),
+            factory.blankNode("g"),
+          ),
+          factory.quad(
+            factory.blankNode("b2"),
+            name,
+            factory.literal("Carol"),
+            factory.blankNode("g"),
+          ),
+        ]);
+
+        const [quad] = await store.matchStatements({ predicate: knows });
+        assertEquals(quad.subject.termType, "BlankNode");
+        assertEquals(quad.object.termType, "BlankNode");
+        assertEquals(quad.graph.termType, "BlankNode");
+
+        // Labels are shared within a batch and stored as skolem IRIs.
+        const [carol] = await store.matchStatements({ subject: quad.object });
+        assertEquals(carol.object.value, "Carol");
+        assert(carol.graph.equals(quad.graph));
+        const result = await client.execute(
+          "SELECT subject, graph FROM kb_statements WHERE subject_term_type = 'BlankNode'",
+        );
+        for (const row of result.rows) {
+          assert(String(row.subject).startsWith("urn:uuid:"));
+          assert(String(row.graph).startsWith("urn:uuid:"));
+        }
+
+        const id = await client.execute(
+          "SELECT statement_id FROM kb_statements WHERE predicate = 'http://schema.org/knows'",
+        );
+        const byId = await store.getStatement(String(id.rows[0].statement_id));
+        assert(byId !== null && byId.equals(quad));
+
+        // Blank nodes that were read keep their identity when written back,
+        // while unknown labels are fresh.
+        await store.addStatements([
+          factory.quad(quad.subject, name, factory.literal("Dave"), quad.graph),
+          factory.quad(factory.blankNode("b1"), name, factory.literal("Eve")),
+        ]);
+        assertEquals(
+          (await store.matchStatements({ subject: quad.subject })).length,
+          2,
+        );
+
+        // Deleting a statement leaves the description of its blank object,
+        // which forgetResource removes instead.
+        await store.deleteStatements([quad]);
+        assertEquals(
+          (await store.matchStatements({ object: factory.literal("Carol") }))
+            .length,
+          1,
+        );
+      });
+
+      await t.step("forgetResource removes blank node closures", async () => {
+        const carol = factory.namedNode("http://example.org/carol");
+        const address = factory.blankNode("address");
+        const geo = factory.blankNode("geo");
+        const schema = (name: string) =>
+          factory.namedNode(`http://schema.org/${name}`);
+        await store.addStatements([
+          factory.quad(carol, name, factory.literal("Carol")),
+          factory.quad(carol, schema("address"), address),
+          factory.quad(
+            address,
+            schema("streetAddress"),
+            factory.literal("1 Main St"),
+          ),
+          factory.quad(address, schema("geo"), geo),
+          factory.quad(
+            geo,
+            schema("latitude"),
+            factory.literal("1.5", integer),
+          ),
+          factory.quad(bob, knows, carol),
+        ]);
+
+        const preview = await store.forgetResource(carol.value, {
+          dryRun: true,
+        });
+        assertEquals(preview, { statements: 5, chunks: 2, dryRun: true });
+        assertEquals(
+          (await store.matchStatements({ subject: carol })).length,
+          2,
+        );
+
+        const result = await store.forgetResource(carol.value);
+        assertEquals(result, { statements: 5, chunks: 2, dryRun: false });
+        assertEquals(
+          (await store.matchStatements({ subject: carol })).length,
+          0,
+        );
+        assertEquals(
+          (await store.matchStatements({ predicate: schema("latitude") }))
+            .length,
+          0,
+        );
+
+        // Statements that merely reference the resource are kept.
+        assertEquals(
+          (await store.matchStatements({ object: carol })).length,
+          1,
+        );
+        assertEquals(await store.forgetResource(carol.value), {
+          statements: 0,
+          chunks: 0,
+          dryRun: false,
+        });
+      });
+
+      await t.step("forgetResource keeps shared blank nodes", async () => {
+        const dave = factory.namedNode("http://example.org/dave");
+        const erin = factory.namedNode("http://example.org/erin");
+        const home = factory.blankNode("home");
+        const geo = factory.blankNode("geo");
+        const schema = (name: string) =>
+          factory.namedNode(`http://schema.org/${name}`);
+        await store.addStatements([
+          factory.quad(dave, schema("address"), home),
+          factory.quad(erin, schema("address"), home),
+          factory.quad(home, schema("geo"), geo),
+          factory.quad(geo, schema("latitude"), factory.literal("2.5")),
+        ]);
+
+        assertEquals(await store.forgetResource(dave.value), {
+          statements: 1,
+          chunks: 0,
+          dryRun: false,
+        });
+        assertEquals(
+          (await store.matchStatements({ predicate: schema("latitude") }))
+            .length,
+          1,
+        );
+
+        // Once erin is forgotten too, nothing references the address.
+        assertEquals(await store.forgetResource(erin.value), {
+          statements: 3,
+          chunks: 1,
+          dryRun: false,
+        });
+        assertEquals(
+          (await store.matchStatements({ predicate: schema("geo") })).length,
+          0,
+        );
+      });
+
+      await t.step(
+        "patchStatements replaces statements and chunks",
+        async () => {
+          const erin = factory.namedNode("http://example.org/erin");
+          await store.addStatements([
+            factory.quad(erin, name, factory.literal("Erin")),
+          ]);
+          await store.patchStatements({
+            deletions: [factory.quad(erin, name, factory.literal("Erin"))],
+            insertions: [factory.quad(erin, name, factory.literal("Erinna"))],
+          });
+
+          const names = await store.matchStatements({ subject: erin });
+          assertEquals(names.map((quad) => quad.object.value), ["Erinna"]);
+          assertEquals((await store.searchChunks("erin")).length, 0);
+          assertEquals((await store.searchChunks("erinna")).length, 1);
+        },
+      );
+
+      await t.step("getPatch squashes changes since a version", async () => {
+        const frank = factory.namedNode("http://example.org/frank");
+        const version = await store.getVersion();
+        assert(version > 0);
+        assertEquals(await store.getPatch(version), {
+          from: version,
+          to: version,
+          deletions: [],
+          insertions: [],
+        });
+
+        await store.addStatements([
+          factory.quad(frank, name, factory.literal("Frank")),
+          factory.quad(frank, knows, factory.blankNode("friend")),
+        ]);
+        await store.patchStatements({
+          deletions: [factory.quad(frank, name, factory.literal("Frank"))],
+          insertions: [factory.quad(frank, name, factory.literal("Franklin"))],
+        });
+
+        const patch = await store.getPatch(version);
+        assertEquals(patch.from, version);
+        assertEquals(patch.to, await store.getVersion());
+        assertEquals(patch.deletions, []);
+
+        // Inserted blank nodes match the labels they are read back under.
+        const stored = await store.matchStatements({ subject: frank });
+        assertEquals(patch.insertions.length, 2);
+        for (const quad of patch.insertions) {
+          assert(stored.some((other) => other.equals(quad)));
+        }
+
+        const deleted = await store.getVersion();
+        await store.deleteStatements(stored);
+        assertEquals((await store.getPatch(deleted)).deletions.length, 2);
+      });
+    } finally {
+      client.close();
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+}
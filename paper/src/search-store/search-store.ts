@@ -1,4 +1,46 @@
 import type * as rdfjs from "@rdfjs/types";
+import type {
+  ChunkRow,
+  ForgetOptions,
+  ForgetResult,
+  RankedResult,
+} from "../../../sqlite/statements.ts";
+
+/**
+ * StatementPattern is a quad pattern. Terms that are unset or variables match
+ * any term.
+ */
+export interface StatementPattern {
+  subject?: rdfjs.Term | null;
+  predicate?: rdfjs.Term | null;
+  object?: rdfjs.Term | null;
+  graph?: rdfjs.Term | null;
+}
+
+/**
+ * StatementsPatch is a set of quad changes applied in one transaction.
+ * Deletions are applied before insertions.
+ */
+export interface StatementsPatch {
+  deletions: rdfjs.Quad[];
+  insertions: rdfjs.Quad[];
+}
+
+/**
+ * VersionedPatch is the net change of a store between two versions. The
+ * version of a store is the ID of the last change in its change log.
+ */
+export interface VersionedPatch extends StatementsPatch {
+  /**
+   * from is the version the patch applies to.
+   */
+  from: number;
+
+  /**
+   * to is the version after the patch.
+   */
+  to: number;
+}
 
 /**
  * SearchStore is an RDF store with RRF search capabilities.
@@ -24,6 +66,22 @@ export interface SearchStore {
    */
   getStatement(statementId: string): Promise<rdfjs.Quad | null>;
 
+  /**
+   * matchStatements retrieves the statements matching a quad pattern.
+   */
+  matchStatements(pattern: StatementPattern): Promise<rdfjs.Quad[]>;
+
+  /**
+   * deleteStatements removes a set of statements by value.
+   */
+  deleteStatements(statements: rdfjs.Quad[]): Promise<void>;
+
+  /**
+   * patchStatements deletes and inserts statements, with their chunks, in one
+   * transaction so that readers never observe half of the change.
+   */
+  patchStatements(patch: StatementsPatch): Promise<void>;
+
   /**
    * removeStatements removes a set of statements by graph ID.
    */
@@ -33,4 +91,36 @@ export interface SearchStore {
    * removeStatement removes a statement by ID.
    */
   removeStatement(statementId: string): Promise<void>;
+
+  /**
+   * getVersion gets the version of the store, or 0 if it was never written.
+   */
+  getVersion(): Promise<number>;
+
+  /**
+   * getPatch gets the net change of the store since a version, up to its
+   * current version.
+   */
+  getPatch(since: number): Promise<VersionedPatch>;
+
+  /**
+   * forgetResource removes all statements about a resource, including its
+   * skolemized blank node substructures, in one transaction.
+   */
+  forgetResource(iri: string, options?: ForgetOptions): Promise<ForgetResult>;
+
+  /**
+   * searchStatements searches for the top k statements whose chunks match the
+   * query, fusing full-text and vector rankings with RRF.
+   */
+  searchStatements(
+    query: string,
+    k?: number,
+  ): Promise<RankedResult<rdfjs.Quad>[]>;
+
+  /**
+   * searchChunks searches for the top k chunks matching the query, fusing
+   * full-text and vector rankings with RRF.
+   */
+  searchChunks(query: string, k?: number): Promise<RankedResult<ChunkRow>[]>;
 }
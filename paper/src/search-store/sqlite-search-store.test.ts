@@ -1,33 +1,19 @@
-import { assertEquals } from "@std/assert";
+import { assert, assertEquals } from "@std/assert";
 import { createClient } from "@libsql/client";
 import { SqliteSearchStore } from "./sqlite-search-store.ts";
 import { DataFactory } from "rdf-data-factory";
 import { drizzle } from "drizzle-orm/libsql";
 import { sql } from "drizzle-orm";
+import { applySchema } from "#/utils/schema.ts";
+import type { EmbeddingProvider } from "#/embeddings/embedding-provider.ts";
+import { testSearchStore } from "./search-store-suite.ts";
 
 const factory = new DataFactory();
 
-// Helper to create tables matching the new schema
-const createTablesSql = sql`
-CREATE TABLE IF NOT EXISTS kb_statements (
-    statement_id INTEGER PRIMARY KEY AUTOINCREMENT,
-    subject TEXT NOT NULL,
-    predicate TEXT NOT NULL,
-    object TEXT NOT NULL,
-    graph TEXT NOT NULL,
-    term_type TEXT NOT NULL DEFAULT 'NamedNode',
-    object_language TEXT NOT NULL DEFAULT '',
-    object_datatype TEXT NOT NULL DEFAULT ''
-);
-CREATE UNIQUE INDEX IF NOT EXISTS kb_statement_unique ON kb_statements (subject, predicate, object, graph, term_type, object_language, object_datatype);
-CREATE INDEX IF NOT EXISTS kb_s_index ON kb_statements (subject);
-CREATE INDEX IF NOT EXISTS kb_g_index ON kb_statements (graph);
-`;
-
 Deno.test("SqliteSearchStore", async (t) => {
   const client = createClient({ url: ":memory:" });
   const db = drizzle(client);
-  await db.run(createTablesSql);
+  await applySchema(client, "statements");
 
   const store = new SqliteSearchStore(client);
 
@@ -101,3 +87,179 @@ Deno.test("SqliteSearchStore", async (t) => {
 
   client.close();
 });
+
+// oneHot returns a unit vector along the given axis.
+function oneHot(axis: number): number[] {
+  const vector = new Array(512).fill(0);
+  vector[axis] = 1;
+  return vector;
+}
+
+Deno.test("SqliteSearchStore search", async (t) => {
+  const client = createClient({ url: ":memory:" });
+  await applySchema(client, "statements");
+  const db = drizzle(client);
+
+  // Queries about felines embed close to the first axis, anything else close
+  // to the second.
+  const embeddings: EmbeddingProvider = {
+    modelId: "one-hot",
+    dimensions: 512,
+    embed: (texts) =>
+      Promise.resolve(
+        texts.map((text) => oneHot(/feline/i.test(text) ? 0 : 1)),
+      ),
+  };
+  const store = new SqliteSearchStore(client, factory, {
+    embeddings,
+    chunking: false,
+  });
+
+  const description = factory.namedNode("http://schema.org/description");
+  await store.addStatements([
+    factory.quad(
+      factory.namedNode("http://example.org/cat"),
+      description,
+      factory.literal("The cat sat on the mat"),
+      factory.namedNode("http://example.org/g"),
+    ),
+    factory.quad(
+      factory.namedNode("http://example.org/dog"),
+      description,
+      factory.literal("The dog chased the cat"),
+      factory.namedNode("http://example.org/g"),
+    ),
+    factory.quad(
+      factory.namedNode("http://example.org/fish"),
+      description,
+      factory.literal("A fish swims"),
+      factory.namedNode("http://example.org/g"),
+    ),
+  ]);
+
+  const chunks: Array<[string, string, number]> = [
+    ["http://example.org/cat", "The cat sat on the mat", 0],
+    ["http://example.org/dog", "The dog chased the cat", 1],
+    ["http://example.org/fish", "A fish swims", 2],
+  ];
+  for (const [subject, content, axis] of chunks) {
+    await db.run(sql`
+      INSERT INTO kb_chunks (statement_id, content, embedding)
+      SELECT statement_id, ${content}, vector32(${JSON.stringify(oneHot(axis))})
+      FROM kb_statements WHERE subject = ${subject}
+    `);
+  }
+
+  await t.step("searchChunks fuses FTS and vector ranks", async () => {
+    const results = await store.searchChunks("cat", 3);
+    assertEquals(results.length, 3);
+
+    // "dog chased the cat" matches both signals: FTS and the second axis.
+    assertEquals(results[0].item.content, "The dog chased the cat");
+    assertEquals(Object.keys(results[0].rank).sort(), ["fts", "vector"]);
+    assertEquals(results[0].item.embedding.length, 512);
+    for (let i = 1; i < results.length; i++) {
+      assert(results[i - 1].score >= results[i].score);
+    }
+  });
+
+  await t.step("searchStatements ranks statements by chunks", async () => {
+    const results = await store.searchStatements("feline", 1);
+    assertEquals(results.length, 1);
+    assertEquals(results[0].item.subject.value, "http://example.org/cat");
+    assertEquals(results[0].rank, { vector: 1 });
+  });
+
+  await t.step("FTS operators in queries are treated as text", async () => {
+    const results = await new SqliteSearchStore(client, factory, {
+      chunking: false,
+    }).searchChunks(
+      'cat" OR NEAR(',
+    );
+    assertEquals(results.length, 2);
+    assertEquals(Object.keys(results[0].rank), ["fts"]);
+  });
+
+  await t.step("RRF weights change the fused order", async () => {
+    const weighted = new SqliteSearchStore(client, factory, {
+      embeddings,
+      chunking: false,
+      rrf: { k: 1, weights: { fts: 0, vector: 1 } },
+    });
+    const results = await weighted.searchChunks("fish", 3);
+    assertEquals(results[0].item.content, "The dog chased the cat");
+    assertEquals(results[0].score, 1 / 2);
+  });
+
+  client.close();
+});
+
+testSearchStore(
+  "SqliteSearchStore",
+  (client, df) => new SqliteSearchStore(client, df),
+);
+
+Deno.test("SqliteSearchStore genidBase", async () => {
+  const client = createClient({ url: ":memory:" });
+  await applySchema(client, "statements");
+  const genidBase = "https://example.org/.well-known/genid/";
+  const store = new SqliteSearchStore(client, factory, { genidBase });
+
+  await store.addStatement(factory.quad(
+    factory.blankNode(),
+    factory.namedNode("http://example.org/p"),
+    factory.blankNode(),
+  ));
+
+  const result = await client.execute(
+    "SELECT subject, object, term_type FROM kb_statements",
+  );
+  assert(String(result.rows[0].subject).startsWith(genidBase));
+  assert(String(result.rows[0].object).startsWith(genidBase));
+  assertEquals(result.rows[0].term_type, "BlankNode");
+
+  const [quad] = await store.matchStatements({});
+  assertEquals(quad.subject.termType, "BlankNode");
+  assertEquals(
+    (await store.matchStatements({ object: quad.object })).length,
+    1,
+  );
+
+  client.close();
+});
+
+Deno.test("SqliteSearchStore origin", async () => {
+  const dir = await Deno.makeTempDir();
+  const client = createClient({ url: `file:${dir}/statements.db` });
+  try {
+    await applySchema(client, "statements");
+    let origin = { operationId: "op-1", keyPrefix: "abcd1234" };
+    const store = new SqliteSearchStore(client, factory, {
+      chunking: false,
+      origin: () => origin,
+    });
+    const alice = factory.namedNode("http://example.org/alice");
+    await store.addStatement(factory.quad(
+      alice,
+      factory.namedNode("http://schema.org/name"),
+      factory.literal("Alice"),
+    ));
+    origin = { operationId: "op-2", keyPrefix: "efgh5678" };
+    await store.forgetResource(alice.value);
+
+    const result = await client.execute(
+      "SELECT change_type, operation_id, key_prefix FROM kb_changes ORDER BY change_id",
+    );
+    assertEquals(
+      result.rows.map((row) => [
+        row.change_type,
+        row.operation_id,
+        row.key_prefix,
+      ]),
+      [["insert", "op-1", "abcd1234"], ["delete", "op-2", "efgh5678"]],
+    );
+  } finally {
+    client.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -8,11 +8,51 @@ import {
   text,
   unique,
 } from "drizzle-orm/sqlite-core";
-import { eq } from "drizzle-orm";
+import { and, eq, gt, inArray, isNotNull, max, SQL } from "drizzle-orm";
 import type * as rdfjs from "@rdfjs/types";
 import * as oxigraph from "oxigraph";
 import { float32Array } from "#/utils/drizzle.ts";
-import type { SearchStore } from "./search-store.ts";
+import type {
+  ChangeRow,
+  ChunkRow,
+  ForgetOptions,
+  ForgetResult,
+  RankedResult,
+  StatementRow,
+  StatementRowPatch,
+} from "../../../sqlite/statements.ts";
+import type {
+  SearchStore,
+  StatementPattern,
+  StatementsPatch,
+  VersionedPatch,
+} from "./search-store.ts";
+import { fuseRankings } from "./rrf.ts";
+import { Skolemizer } from "#/utils/skolem.ts";
+import {
+  quadToStatementRow,
+  statementPatternToRowPattern,
+  statementRowToQuad,
+} from "#/statements-store/statement-rows.ts";
+import { forgetResource } from "#/statements-store/forget-resource.ts";
+import {
+  type ChangeOrigin,
+  originStatements,
+  squashChanges,
+} from "#/statements-store/change-log.ts";
+import { chunkPatch, patchBatch } from "#/statements-store/statement-patch.ts";
+import {
+  RecursiveCharacterSplitter,
+  type RecursiveCharacterSplitterOptions,
+} from "#/chunking/recursive-character-splitter.ts";
+import { defaultEmbeddingDimensions } from "#/embeddings/embedding-provider.ts";
+import { assertEmbeddingProvider } from "#/embeddings/embedding-settings.ts";
+import {
+  type ChunkSearchOptions,
+  defaultSearchLimit,
+  rankChunks,
+  rankStatements,
+} from "./chunk-search.ts";
 
 export const kbTerms = sqliteTable("kb_terms", {
   id: text("id").primaryKey(),
@@ -32,6 +72,8 @@ export const kbStatements = sqliteTable(
 
     // Term Types: 'NamedNode', 'Literal', 'BlankNode', 'DefaultGraph'.
     termType: text("term_type").notNull().default("NamedNode"),
+    subjectTermType: text("subject_term_type").notNull().default("NamedNode"),
+    graphTermType: text("graph_term_type").notNull().default("NamedNode"),
     objectLanguage: text("object_language").notNull().default(""),
     objectDatatype: text("object_datatype").notNull().default(""),
   },
@@ -64,44 +106,80 @@ export const kbChunks = sqliteTable(
       { onDelete: "cascade" },
     ),
     content: text("content"),
-    embedding: float32Array("embedding", { dimensions: 512 }),
+    // The column size is set when the schema is applied.
+    embedding: float32Array("embedding", {
+      dimensions: defaultEmbeddingDimensions,
+    }),
   },
   (_t) => ({
     // Vector index typically created via raw SQL: CREATE INDEX ... USING libsql_vector_idx
   }),
 );
 
+// Change Log (Written by triggers on kb_statements)
+export const kbChanges = sqliteTable("kb_changes", {
+  changeId: integer("change_id").primaryKey({ autoIncrement: true }),
+  changeType: text("change_type").notNull(),
+  operationId: text("operation_id").notNull().default(""),
+  keyPrefix: text("key_prefix").notNull().default(""),
+  createdAt: integer("created_at").notNull(),
+  statementId: integer("statement_id").notNull(),
+  subject: text("subject").notNull(),
+  predicate: text("predicate").notNull(),
+  object: text("object").notNull(),
+  graph: text("graph").notNull(),
+  termType: text("term_type").notNull(),
+  subjectTermType: text("subject_term_type").notNull(),
+  graphTermType: text("graph_term_type").notNull(),
+  objectLanguage: text("object_language").notNull(),
+  objectDatatype: text("object_datatype").notNull(),
+});
+
+/**
+ * SqliteSearchStoreOptions configures a SqliteSearchStore.
+ */
+export interface SqliteSearchStoreOptions extends ChunkSearchOptions {
+  /**
+   * chunking configures how text literals are split into chunks on ingest.
+   * Set to false to store statements without chunks.
+   */
+  chunking?: RecursiveCharacterSplitterOptions | false;
+
+  /**
+   * genidBase is the prefix of the IRIs that blank nodes are skolemized to.
+   * Defaults to "urn:uuid:".
+   */
+  genidBase?: string;
+
+  /**
+   * origin returns the origin of the current write, which its changes are
+   * attributed to in the change log.
+   */
+  origin?: () => ChangeOrigin | undefined;
+}
+
 export class SqliteSearchStore implements SearchStore {
   private readonly db: LibSQLDatabase;
   private readonly df: rdfjs.DataFactory;
+  private readonly options: SqliteSearchStoreOptions;
+  private readonly splitter: RecursiveCharacterSplitter | null;
+  private embeddingsChecked: Promise<void> | null = null;
 
   public constructor(
-    client: Client,
+    private readonly client: Client,
     df: rdfjs.DataFactory = oxigraph as rdfjs.DataFactory,
+    options: SqliteSearchStoreOptions = {},
   ) {
     this.db = drizzle(client);
     this.df = df;
+    this.options = options;
+    this.splitter = options.chunking === false
+      ? null
+      : new RecursiveCharacterSplitter(options.chunking);
   }
 
   async addStatements(statements: rdfjs.Quad[]): Promise<void> {
-    if (statements.length === 0) return;
-
-    const values = statements.map((quad) => ({
-      subject: quad.subject.value,
-      predicate: quad.predicate.value,
-      object: quad.object.value,
-      graph: quad.graph.value,
-      termType: quad.object.termType,
-      objectLanguage: quad.object.termType === "Literal"
-        ? quad.object.language
-        : "",
-      objectDatatype: quad.object.termType === "Literal"
-        ? quad.object.datatype.value
-        : "",
-    }));
-
-    await this.db.insert(kbStatements).values(values).onConflictDoNothing()
-      .run();
+    await this.patchStatements({ deletions: [], insertions: statements });
   }
 
   async addStatement(statement: rdfjs.Quad): Promise<void> {
@@ -113,30 +191,49 @@ export class SqliteSearchStore implements SearchStore {
       eq(kbStatements.graph, graphId),
     ).all();
 
-    return rows.map((row) => {
-      const subject = this.df.namedNode(row.subject);
-      const predicate = this.df.namedNode(row.predicate);
-      const graph = this.df.namedNode(row.graph);
-
-      let object: rdfjs.Term;
-      if (row.termType === "Literal") {
-        object = this.df.literal(
-          row.object,
-          row.objectLanguage || this.df.namedNode(row.objectDatatype),
-        );
-      } else if (row.termType === "BlankNode") {
-        object = this.df.namedNode(row.object);
-        if (row.object.startsWith("_:")) {
-          object = this.df.blankNode(row.object.slice(2));
-        } else {
-          object = this.df.namedNode(row.object);
-        }
-      } else {
-        object = this.df.namedNode(row.object);
-      }
+    return rows.map((row) => this.toQuad(row));
+  }
 
-      return this.df.quad(subject, predicate, object, graph);
-    });
+  async matchStatements(pattern: StatementPattern): Promise<rdfjs.Quad[]> {
+    const rows = await this.db.select().from(kbStatements).where(
+      and(...this.patternConditions(pattern)),
+    ).all();
+
+    return rows.map((row) => this.toQuad(row));
+  }
+
+  async deleteStatements(statements: rdfjs.Quad[]): Promise<void> {
+    await this.patchStatements({ deletions: statements, insertions: [] });
+  }
+
+  async patchStatements(patch: StatementsPatch): Promise<void> {
+    if (patch.deletions.length === 0 && patch.insertions.length === 0) return;
+
+    // Blank node labels are scoped to a single call.
+    const skolemizer = new Skolemizer(this.options.genidBase);
+    const rowPatch: StatementRowPatch = {
+      deletions: patch.deletions.map((pattern) =>
+        statementPatternToRowPattern(pattern, this.options.genidBase)
+      ),
+      insertions: patch.insertions.map((quad) =>
+        quadToStatementRow(quad, skolemizer)
+      ),
+    };
+
+    // Chunks are embedded up front and written in the same batch as their
+    // statements, so that search never sees a statement without its chunks.
+    await this.checkEmbeddings();
+    const chunks = this.splitter === null ? [] : await chunkPatch(
+      this.client,
+      rowPatch,
+      this.splitter,
+      this.options.embeddings,
+    );
+    const [begin, end] = originStatements(this.options.origin?.());
+    await this.client.batch(
+      [begin, ...patchBatch(rowPatch, chunks), end],
+      "write",
+    );
   }
 
   async getStatement(statementId: string): Promise<rdfjs.Quad | null> {
@@ -151,22 +248,7 @@ export class SqliteSearchStore implements SearchStore {
     ).limit(1);
 
     if (rows.length === 0) return null;
-    const row = rows[0];
-
-    const subject = this.df.namedNode(row.subject);
-    const predicate = this.df.namedNode(row.predicate);
-    const graph = this.df.namedNode(row.graph);
-
-    let object: rdfjs.Term;
-    if (row.termType === "Literal") {
-      object = this.df.literal(
-        row.object,
-        row.objectLanguage || this.df.namedNode(row.objectDatatype),
-      );
-    } else {
-      object = this.df.namedNode(row.object);
-    }
-    return this.df.quad(subject, predicate, object, graph);
+    return this.toQuad(rows[0]);
   }
 
   async removeStatements(graphId: string): Promise<void> {
@@ -180,4 +262,179 @@ export class SqliteSearchStore implements SearchStore {
     await this.db.delete(kbStatements).where(eq(kbStatements.statementId, id))
       .run();
   }
+
+  async getVersion(): Promise<number> {
+    const [row] = await this.db.select({ changeId: max(kbChanges.changeId) })
+      .from(kbChanges);
+    return row?.changeId ?? 0;
+  }
+
+  async getPatch(since: number): Promise<VersionedPatch> {
+    const rows = await this.db.select().from(kbChanges).where(
+      gt(kbChanges.changeId, since),
+    ).orderBy(kbChanges.changeId).all();
+    const { deletions, insertions } = squashChanges(rows.map(toChangeRow));
+    const toQuad = (row: StatementRow) =>
+      statementRowToQuad(row, this.df, this.options.genidBase);
+
+    return {
+      from: since,
+      to: rows.at(-1)?.changeId ?? since,
+      deletions: deletions.map(toQuad),
+      insertions: insertions.map(toQuad),
+    };
+  }
+
+  async forgetResource(
+    iri: string,
+    options?: ForgetOptions,
+  ): Promise<ForgetResult> {
+    return await forgetResource(
+      this.client,
+      iri,
+      options,
+      this.options.origin?.(),
+    );
+  }
+
+  async searchStatements(
+    query: string,
+    k = defaultSearchLimit,
+  ): Promise<RankedResult<rdfjs.Quad>[]> {
+    await this.checkEmbeddings();
+    const rankings = await rankStatements(
+      this.client,
+      query,
+      k,
+      this.options,
+    );
+    const fused = fuseRankings(rankings, (id) => id, this.options.rrf)
+      .slice(0, k);
+    if (fused.length === 0) return [];
+
+    const rows = await this.db.select().from(kbStatements).where(
+      inArray(kbStatements.statementId, fused.map((result) => result.item)),
+    ).all();
+    const byId = new Map(rows.map((row) => [row.statementId, row]));
+
+    return fused.flatMap((result) => {
+      const row = byId.get(result.item);
+      return row ? [{ ...result, item: this.toQuad(row) }] : [];
+    });
+  }
+
+  async searchChunks(
+    query: string,
+    k = defaultSearchLimit,
+  ): Promise<RankedResult<ChunkRow>[]> {
+    await this.checkEmbeddings();
+    const rankings = await rankChunks(this.client, query, k, this.options);
+    const fused = fuseRankings(rankings, (id) => id, this.options.rrf)
+      .slice(0, k);
+    if (fused.length === 0) return [];
+
+    const rows = await this.db.select().from(kbChunks).where(and(
+      inArray(kbChunks.chunkId, fused.map((result) => result.item)),
+      isNotNull(kbChunks.statementId),
+    )).all();
+    const byId = new Map(rows.map((row) => [row.chunkId, row]));
+
+    return fused.flatMap((result) => {
+      const row = byId.get(result.item);
+      if (!row) return [];
+
+      const chunk: ChunkRow = {
+        chunk_id: row.chunkId,
+        statement_id: row.statementId!,
+        content: row.content ?? "",
+        embedding: row.embedding ?? [],
+      };
+      return [{ ...result, item: chunk }];
+    });
+  }
+
+  /**
+   * checkEmbeddings verifies the embedding provider against the world once,
+   * before the first embedding is stored or searched.
+   */
+  private checkEmbeddings(): Promise<void> {
+    if (this.options.embeddings === undefined) {
+      return Promise.resolve();
+    }
+
+    this.embeddingsChecked ??= assertEmbeddingProvider(
+      this.client,
+      this.options.embeddings,
+    );
+    return this.embeddingsChecked;
+  }
+
+  private patternConditions(pattern: StatementPattern): SQL[] {
+    const rowPattern = statementPatternToRowPattern(
+      pattern,
+      this.options.genidBase,
+    );
+    const columns = {
+      subject: kbStatements.subject,
+      subject_term_type: kbStatements.subjectTermType,
+      predicate: kbStatements.predicate,
+      object: kbStatements.object,
+      term_type: kbStatements.termType,
+      object_language: kbStatements.objectLanguage,
+      object_datatype: kbStatements.objectDatatype,
+      graph: kbStatements.graph,
+      graph_term_type: kbStatements.graphTermType,
+    };
+
+    const conditions: SQL[] = [];
+    for (const [key, column] of Object.entries(columns)) {
+      const value = rowPattern[key as keyof typeof columns];
+      if (value !== undefined) {
+        conditions.push(eq(column, value));
+      }
+    }
+
+    return conditions;
+  }
+
+  private toQuad(row: typeof kbStatements.$inferSelect): rdfjs.Quad {
+    return statementRowToQuad(
+      {
+        statement_id: row.statementId,
+        subject: row.subject,
+        subject_term_type: row.subjectTermType as StatementRow[
+          "subject_term_type"
+        ],
+        predicate: row.predicate,
+        object: row.object,
+        term_type: row.termType as StatementRow["term_type"],
+        object_language: row.objectLanguage,
+        object_datatype: row.objectDatatype,
+        graph: row.graph,
+        graph_term_type: row.graphTermType as StatementRow["graph_term_type"],
+      },
+      this.df,
+      this.options.genidBase,
+    );
+  }
+}
+
+function toChangeRow(row: typeof kbChanges.$inferSelect): ChangeRow {
+  return {
+    change_id: row.changeId,
+    change_type: row.changeType as ChangeRow["change_type"],
+    operation_id: row.operationId,
+    key_prefix: row.keyPrefix,
+    created_at: row.createdAt,
+    statement_id: row.statementId,
+    subject: row.subject,
+    subject_term_type: row.subjectTermType as ChangeRow["subject_term_type"],
+    predicate: row.predicate,
+    object: row.object,
+    term_type: row.termType as ChangeRow["term_type"],
+    object_language: row.objectLanguage,
+    object_datatype: row.objectDatatype,
+    graph: row.graph,
+    graph_term_type: row.graphTermType as ChangeRow["graph_term_type"],
+  };
 }
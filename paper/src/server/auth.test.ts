@@ -0,0 +1,145 @@
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { createClient } from "@libsql/client";
+import { applySchema } from "#/utils/schema.ts";
+import { LibsqlSysStore } from "#/sys-store/libsql-sys-store.ts";
+import { generateApiKey } from "#/sys-store/api-keys.ts";
+import { Auth } from "./auth.ts";
+import { HttpError } from "./http.ts";
+
+const now = 1_700_000_000_000;
+
+function bearer(token: string): Request {
+  return new Request("http://localhost/v1/worlds", {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+}
+
+Deno.test("Auth", async (t) => {
+  const client = createClient({ url: ":memory:" });
+  await applySchema(client, "sys");
+  const sys = new LibsqlSysStore(client);
+  const auth = new Auth(sys, { adminApiKey: "sk_world_admin", now: () => now });
+
+  await sys.insertAccount({
+    account_id: "acme",
+    description: null,
+    plan: "pro",
+    created_at: now,
+    updated_at: now,
+  });
+  await sys.setAccountWorlds("acme", ["notes"]);
+  await sys.setLimit({
+    plan: "pro",
+    quota_requests_per_min: 600,
+    quota_storage_bytes: 1_000,
+    allow_reasoning: 1,
+  });
+
+  const issue = async (expiresAt: number | null, worldIds?: string[]) => {
+    const key = await generateApiKey();
+    await sys.insertApiKey({
+      key_hash: key.hash,
+      account_id: "acme",
+      key_prefix: key.prefix,
+      name: null,
+      created_at: now,
+      expires_at: expiresAt,
+    }, worldIds);
+    return key;
+  };
+
+  const rejectsWith = async (request: Request, status: number) => {
+    const error = await assertRejects(
+      () => auth.authenticate(request),
+      HttpError,
+    );
+    assertEquals(error.status, status);
+    assert(new Headers(error.headers).has("WWW-Authenticate"));
+  };
+
+  await t.step("stores only the hash of a key", async () => {
+    const key = await issue(null);
+    assert(key.secret.startsWith("sk_world_"));
+    assertEquals(key.hash.length, 64);
+    assert(key.secret.includes(key.prefix));
+    assertEquals(await sys.getApiKey(key.secret), null);
+  });
+
+  await t.step("resolves the account, plan, and worlds", async () => {
+    const key = await issue(now + 1);
+    const caller = await auth.authenticate(bearer(key.secret));
+    assert(!caller.admin);
+    assertEquals(caller.account.account_id, "acme");
+    assertEquals(caller.limit.quota_requests_per_min, 600);
+    assertEquals(caller.worlds, ["notes"]);
+  });
+
+  await t.step("narrows the worlds to the scope of the key", async () => {
+    const key = await issue(null, ["other"]);
+    const caller = await auth.authenticate(bearer(key.secret));
+    assert(!caller.admin);
+    assertEquals(caller.scope, ["other"]);
+    assertEquals(caller.worlds, []);
+    auth.authorizeNewWorld(caller, "other");
+    assertEquals(
+      assertThrows(() => auth.authorizeNewWorld(caller, "notes"), HttpError)
+        .status,
+      403,
+    );
+
+    await sys.removeApiKey(key.hash);
+    assertEquals(await sys.getApiKeyWorlds(key.hash), []);
+  });
+
+  await t.step("falls back to default limits", async () => {
+    await sys.updateAccount({
+      account_id: "acme",
+      description: null,
+      plan: "free",
+      created_at: now,
+      updated_at: now,
+    });
+    const key = await issue(null);
+    const caller = await auth.authenticate(bearer(key.secret));
+    assert(!caller.admin);
+    assertEquals(caller.limit.quota_requests_per_min, 60);
+  });
+
+  await t.step("rejects missing, unknown, and expired keys", async () => {
+    await rejectsWith(new Request("http://localhost/v1/worlds"), 401);
+    await rejectsWith(bearer("sk_world_unknown"), 401);
+    await rejectsWith(bearer((await issue(now)).secret), 401);
+  });
+
+  await t.step("authorizes admins and worlds", async () => {
+    const admin = await auth.authenticate(bearer("sk_world_admin"));
+    assert(admin.admin);
+    auth.requireAdmin(admin);
+
+    const caller = await auth.authenticate(bearer((await issue(null)).secret));
+    const forbidden = assertThrows(() => auth.requireAdmin(caller), HttpError);
+    assertEquals(forbidden.status, 403);
+
+    const world = {
+      world_id: "notes",
+      account_id: "acme",
+      name: "notes",
+      description: null,
+      created_at: now,
+      updated_at: now,
+      deleted_at: null,
+      is_public: 0,
+    };
+    auth.authorizeWorld(caller, world);
+    auth.authorizeWorld(admin, { ...world, world_id: "other" });
+    assertEquals(
+      assertThrows(
+        () => auth.authorizeWorld(caller, { ...world, world_id: "other" }),
+        HttpError,
+      ).status,
+      403,
+    );
+  });
+
+  client.close();
+});
@@ -0,0 +1,184 @@
+import type {
+  AccountRow,
+  ApiKeyRow,
+  LimitRow,
+  SysStore,
+  WorldRow,
+} from "../../../sqlite/sys.ts";
+import { hashApiKey } from "#/sys-store/api-keys.ts";
+import { HttpError } from "./http.ts";
+
+/**
+ * defaultLimit returns the limits of a plan that has no row in kb_limits,
+ * matching the column defaults of sqlite/sys.sql.
+ */
+export function defaultLimit(plan: string): LimitRow {
+  return {
+    plan,
+    quota_requests_per_min: 60,
+    quota_storage_bytes: 104_857_600,
+    allow_reasoning: 0,
+  };
+}
+
+/**
+ * AccountCaller is a caller authenticated by an account API key.
+ */
+export interface AccountCaller {
+  admin: false;
+  account: AccountRow;
+  key: ApiKeyRow;
+
+  /**
+   * limit is the limit of the account's plan, read at request time so that
+   * plan changes take effect immediately.
+   */
+  limit: LimitRow;
+
+  /**
+   * worlds are the IDs of the worlds the caller may access: those of the
+   * account, narrowed to the scope of the key.
+   */
+  worlds: string[];
+
+  /**
+   * scope are the IDs of the worlds the key is scoped to, or empty if the
+   * key may access every world of the account.
+   */
+  scope: string[];
+}
+
+/**
+ * Caller is the authenticated caller of a request: the service owner, who
+ * may use the internal routes and access every world, or an account.
+ */
+export type Caller = { admin: true } | AccountCaller;
+
+/**
+ * AuthOptions configures Auth.
+ */
+export interface AuthOptions {
+  /**
+   * adminApiKey is the API key of the service owner.
+   */
+  adminApiKey: string;
+
+  /**
+   * now returns the current time in milliseconds. Defaults to Date.now.
+   */
+  now?: () => number;
+}
+
+/**
+ * Auth authenticates bearer tokens against the hashed keys in kb_api_keys
+ * and authorizes callers. Missing, unknown, and expired keys are rejected
+ * with 401; authenticated callers without access are rejected with 403.
+ */
+export class Auth {
+  private readonly adminKeyHash: Promise<string>;
+
+  public constructor(
+    private readonly sys: SysStore,
+    private readonly options: AuthOptions,
+  ) {
+    this.adminKeyHash = hashApiKey(options.adminApiKey);
+  }
+
+  /**
+   * authenticate resolves the bearer token of a request to its caller.
+   */
+  public async authenticate(request: Request): Promise<Caller> {
+    const authorization = request.headers.get("Authorization") ?? "";
+    const token = authorization.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (token === undefined) {
+      throw unauthorized("Missing bearer token", "Bearer");
+    }
+
+    // Only hashes are compared, so the secret never meets a comparison that
+    // could leak it through timing.
+    const hash = await hashApiKey(token);
+    if (timingSafeEqual(hash, await this.adminKeyHash)) {
+      return { admin: true };
+    }
+
+    const key = await this.sys.getApiKey(hash);
+    if (key === null) {
+      throw unauthorized("Invalid API key");
+    }
+
+    const now = this.options.now?.() ?? Date.now();
+    if (key.expires_at !== null && key.expires_at <= now) {
+      throw unauthorized("API key expired");
+    }
+
+    const account = await this.sys.getAccount(key.account_id);
+    if (account === null) {
+      throw unauthorized("Invalid API key");
+    }
+
+    const worlds = await this.sys.getAccountWorlds(account.account_id);
+    const scope = await this.sys.getApiKeyWorlds(key.key_hash);
+    return {
+      admin: false,
+      account,
+      key,
+      limit: await this.sys.getLimit(account.plan) ??
+        defaultLimit(account.plan),
+      worlds: scope.length === 0
+        ? worlds
+        : worlds.filter((worldId) => scope.includes(worldId)),
+      scope,
+    };
+  }
+
+  /**
+   * requireAdmin rejects callers other than the service owner.
+   */
+  public requireAdmin(caller: Caller): void {
+    if (!caller.admin) {
+      throw new HttpError(403, "This route requires an admin API key");
+    }
+  }
+
+  /**
+   * authorizeWorld rejects callers that may not access a world.
+   */
+  public authorizeWorld(caller: Caller, world: WorldRow): void {
+    if (!canAccessWorld(caller, world.world_id)) {
+      throw new HttpError(403, `Access to world ${world.world_id} denied`);
+    }
+  }
+
+  /**
+   * authorizeNewWorld rejects callers whose key is scoped to other worlds
+   * than the one they create.
+   */
+  public authorizeNewWorld(caller: AccountCaller, worldId: string): void {
+    if (caller.scope.length > 0 && !caller.scope.includes(worldId)) {
+      throw new HttpError(403, `API key is not scoped to world ${worldId}`);
+    }
+  }
+}
+
+/**
+ * canAccessWorld reports whether a caller may access a world.
+ */
+export function canAccessWorld(caller: Caller, worldId: string): boolean {
+  return caller.admin || caller.worlds.includes(worldId);
+}
+
+function unauthorized(
+  message: string,
+  challenge = 'Bearer error="invalid_token"',
+): HttpError {
+  return new HttpError(401, message, { "WWW-Authenticate": challenge });
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return diff === 0;
+}
@@ -0,0 +1,68 @@
+/**
+ * HttpError is thrown by route handlers to respond with a problem details
+ * object (RFC 9457).
+ */
+export class HttpError extends Error {
+  public constructor(
+    public readonly status: number,
+    message: string,
+    public readonly headers: HeadersInit = {},
+    public readonly extensions: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * json responds with a JSON body.
+ */
+export function json(body: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json");
+  return new Response(JSON.stringify(body), { ...init, headers });
+}
+
+/**
+ * noContent responds with 204 No Content.
+ */
+export function noContent(): Response {
+  return new Response(null, { status: 204 });
+}
+
+/**
+ * problem responds with a problem details object. Extensions are added as
+ * extra members of the object.
+ */
+export function problem(
+  status: number,
+  detail: string,
+  headers: HeadersInit = {},
+  extensions: Record<string, unknown> = {},
+): Response {
+  const response = json({ ...extensions, status, detail }, {
+    status,
+    headers,
+  });
+  response.headers.set("Content-Type", "application/problem+json");
+  return response;
+}
+
+/**
+ * readJson reads a JSON request body, rejecting malformed bodies with 400.
+ */
+export async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new HttpError(400, "Request body must be valid JSON");
+  }
+}
+
+/**
+ * mediaType returns the media type of a Content-Type header without its
+ * parameters.
+ */
+export function mediaType(contentType: string | null): string {
+  return (contentType ?? "").split(";")[0].trim().toLowerCase();
+}
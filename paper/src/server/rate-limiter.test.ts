@@ -0,0 +1,107 @@
+import { assert, assertEquals } from "@std/assert";
+import { RateLimiter, rateLimitHeaders } from "./rate-limiter.ts";
+
+Deno.test("RateLimiter", async (t) => {
+  let now = 0;
+  const limiter = () => new RateLimiter({ windowMs: 1_000, now: () => now });
+
+  await t.step("allows requests up to the limit", () => {
+    now = 0;
+    const rateLimiter = limiter();
+    assertEquals(
+      [1, 2, 3].map(() => rateLimiter.take("acme", 2).allowed),
+      [true, true, false],
+    );
+
+    // Clients are limited independently.
+    assert(rateLimiter.take("globex", 2).allowed);
+  });
+
+  await t.step("reports remaining requests and the reset", () => {
+    now = 250;
+    const rateLimiter = limiter();
+    assertEquals(rateLimiter.take("acme", 3), {
+      allowed: true,
+      limit: 3,
+      remaining: 2,
+      reset: 1_000,
+      retryAfter: 0,
+    });
+  });
+
+  await t.step("weights the previous window", () => {
+    now = 0;
+    const rateLimiter = limiter();
+    rateLimiter.take("acme", 2);
+    rateLimiter.take("acme", 2);
+
+    // A quarter into the next window, 1.5 of the previous requests count.
+    now = 1_250;
+    const denied = rateLimiter.take("acme", 2);
+    assert(!denied.allowed);
+    assertEquals(denied.retryAfter, 250);
+
+    now += denied.retryAfter;
+    assert(rateLimiter.take("acme", 2).allowed);
+  });
+
+  await t.step("computes the retry from the current window", () => {
+    now = 0;
+    const rateLimiter = limiter();
+    rateLimiter.take("acme", 2);
+    rateLimiter.take("acme", 2);
+    const denied = rateLimiter.take("acme", 2);
+    assertEquals(denied.retryAfter, 1_500);
+
+    now += denied.retryAfter;
+    assert(rateLimiter.take("acme", 2).allowed);
+  });
+
+  await t.step("applies a changed limit immediately", () => {
+    now = 0;
+    const rateLimiter = limiter();
+    rateLimiter.take("acme", 1);
+    assert(!rateLimiter.take("acme", 1).allowed);
+    assert(rateLimiter.take("acme", 10).allowed);
+    assert(!rateLimiter.take("acme", 2).allowed);
+  });
+
+  await t.step("takeAll counts only requests every limit allows", () => {
+    now = 0;
+    const rateLimiter = limiter();
+    const limits = (key: string) => [
+      { id: "account:acme", limit: 3 },
+      { id: `key:${key}`, limit: 2 },
+    ];
+
+    const first = rateLimiter.takeAll(limits("a"));
+    assertEquals([first.limit, first.remaining], [2, 1]);
+    assert(rateLimiter.takeAll(limits("a")).allowed);
+    const denied = rateLimiter.takeAll(limits("a"));
+    assertEquals([denied.allowed, denied.limit], [false, 2]);
+
+    // The denied request was not counted against the account.
+    const last = rateLimiter.takeAll(limits("b"));
+    assertEquals([last.allowed, last.limit, last.remaining], [true, 3, 0]);
+    const exhausted = rateLimiter.takeAll(limits("b"));
+    assertEquals([exhausted.allowed, exhausted.limit], [false, 3]);
+  });
+
+  await t.step("rateLimitHeaders", () => {
+    assertEquals(
+      rateLimitHeaders({
+        allowed: false,
+        limit: 60,
+        remaining: 0,
+        reset: 60_000,
+        retryAfter: 1_200,
+      }),
+      {
+        "X-RateLimit-Limit": "60",
+        "X-RateLimit-Remaining": "0",
+        "X-RateLimit-Reset": "60",
+        "Retry-After": "2",
+      },
+    );
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * RateLimitDecision is the outcome of counting a request against a limit.
+ */
+export interface RateLimitDecision {
+  /**
+   * allowed is false if the request exceeds the limit.
+   */
+  allowed: boolean;
+
+  /**
+   * limit is the number of requests allowed per window.
+   */
+  limit: number;
+
+  /**
+   * remaining is the number of requests left in the window.
+   */
+  remaining: number;
+
+  /**
+   * reset is when the current window ends, in milliseconds since the epoch.
+   */
+  reset: number;
+
+  /**
+   * retryAfter is the number of milliseconds until a denied request would be
+   * allowed. It is 0 for allowed requests.
+   */
+  retryAfter: number;
+}
+
+/**
+ * RateLimiterOptions configures a RateLimiter.
+ */
+export interface RateLimiterOptions {
+  /**
+   * windowMs is the length of a window in milliseconds. Defaults to one
+   * minute.
+   */
+  windowMs?: number;
+
+  /**
+   * now returns the current time in milliseconds. Defaults to Date.now.
+   */
+  now?: () => number;
+}
+
+/**
+ * RateLimit is a limit that the requests of a client are counted against.
+ */
+export interface RateLimit {
+  /**
+   * id identifies the client, e.g. an account or an API key.
+   */
+  id: string;
+
+  /**
+   * limit is the number of requests allowed per window.
+   */
+  limit: number;
+}
+
+interface Window {
+  start: number;
+  count: number;
+  previous: number;
+}
+
+/**
+ * RateLimiter enforces request rates with a sliding window counter: the
+ * requests of the previous window are weighted by how much of it still
+ * overlaps the sliding window. The limit is passed on every request, so a
+ * changed limit applies to the very next request.
+ */
+export class RateLimiter {
+  private readonly windowMs: number;
+  private readonly now: () => number;
+  private readonly windows = new Map<string, Window>();
+  private sweptAt = 0;
+
+  public constructor(options: RateLimiterOptions = {}) {
+    this.windowMs = options.windowMs ?? 60_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * take counts a request of a client against a limit, unless the request
+   * would exceed it.
+   */
+  public take(id: string, limit: number): RateLimitDecision {
+    return this.takeAll([{ id, limit }]);
+  }
+
+  /**
+   * takeAll counts a request against several limits, such as those of an
+   * account and of its API key, unless the request would exceed any of them.
+   * The decision is that of the limit with the fewest remaining requests, or
+   * of the denying limit that frees up last.
+   */
+  public takeAll(limits: RateLimit[]): RateLimitDecision {
+    const now = this.now();
+    const start = now - now % this.windowMs;
+    this.sweep(start);
+
+    const checks = limits.map(({ id, limit }) => {
+      let window = this.windows.get(id);
+      if (window === undefined || window.start !== start) {
+        const previous = window?.start === start - this.windowMs
+          ? window.count
+          : 0;
+        window = { start, count: 0, previous };
+        this.windows.set(id, window);
+      }
+
+      return { window, decision: this.decide(window, limit, now) };
+    });
+
+    const denied = checks
+      .map(({ decision }) => decision)
+      .filter((decision) => !decision.allowed);
+    if (denied.length > 0) {
+      return denied.reduce((a, b) => b.retryAfter > a.retryAfter ? b : a);
+    }
+
+    for (const { window } of checks) {
+      window.count++;
+    }
+
+    return checks
+      .map(({ decision }) => decision)
+      .reduce((a, b) => b.remaining < a.remaining ? b : a);
+  }
+
+  /**
+   * decide decides whether one more request fits a window.
+   */
+  private decide(
+    window: Window,
+    limit: number,
+    now: number,
+  ): RateLimitDecision {
+    const overlap = 1 - (now - window.start) / this.windowMs;
+    const used = window.previous * overlap + window.count;
+    const reset = window.start + this.windowMs;
+    if (used + 1 > limit) {
+      return {
+        allowed: false,
+        limit,
+        remaining: 0,
+        reset,
+        retryAfter: this.retryAfter(window, limit, now),
+      };
+    }
+
+    return {
+      allowed: true,
+      limit,
+      remaining: Math.floor(limit - used - 1),
+      reset,
+      retryAfter: 0,
+    };
+  }
+
+  /**
+   * retryAfter computes when the weighted count of a window leaves room for
+   * one more request.
+   */
+  private retryAfter(window: Window, limit: number, now: number): number {
+    if (limit < 1) {
+      return this.windowMs;
+    }
+
+    // Within the current window, only the previous window's share shrinks.
+    if (window.count + 1 <= limit && window.previous > 0) {
+      const overlap = (limit - window.count - 1) / window.previous;
+      return Math.max(
+        0,
+        window.start + this.windowMs * (1 - overlap) - now,
+      );
+    }
+
+    // Otherwise, wait for the current window to become the previous one.
+    const next = window.start + this.windowMs;
+    const overlap = Math.min(1, (limit - 1) / window.count);
+    return next + this.windowMs * (1 - overlap) - now;
+  }
+
+  /**
+   * sweep forgets the windows of idle clients once per window.
+   */
+  private sweep(start: number): void {
+    if (this.sweptAt === start) {
+      return;
+    }
+
+    this.sweptAt = start;
+    for (const [id, window] of this.windows) {
+      if (window.start < start - this.windowMs) {
+        this.windows.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * rateLimitHeaders returns the X-RateLimit-* headers of a decision, plus
+ * Retry-After in seconds if the request was denied.
+ */
+export function rateLimitHeaders(
+  decision: RateLimitDecision,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(decision.limit),
+    "X-RateLimit-Remaining": String(decision.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(decision.reset / 1000)),
+  };
+  if (!decision.allowed) {
+    headers["Retry-After"] = String(Math.ceil(decision.retryAfter / 1000));
+  }
+
+  return headers;
+}
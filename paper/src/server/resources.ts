@@ -0,0 +1,201 @@
+import type {
+  ApiKey,
+  Change,
+  Chunk,
+  Limit,
+  Snapshot,
+  Statement,
+  UsageBucket,
+  WorldMetadata,
+  WorldsAccount,
+  WorldsAccountPlan,
+} from "../../../sdk/mod.ts";
+import type {
+  ChangeRow,
+  ChunkRow,
+  SnapshotRow,
+  StatementRow,
+} from "../../../sqlite/statements.ts";
+import type {
+  AccountRow,
+  ApiKeyRow,
+  LimitRow,
+  UsageBucketRow,
+  WorldRow,
+} from "../../../sqlite/sys.ts";
+
+/**
+ * toWorldsAccount converts an account row into an SDK account. The API key
+ * is only known when it was just generated and is empty otherwise.
+ */
+export function toWorldsAccount(
+  row: AccountRow,
+  worldIds: string[],
+  apiKey = "",
+): WorldsAccount {
+  return {
+    id: row.account_id,
+    apiKey,
+    description: row.description ?? "",
+    plan: row.plan as WorldsAccountPlan,
+    accessControl: { worlds: worldIds },
+  };
+}
+
+/**
+ * toApiKey converts an API key row and the worlds it is scoped to into an SDK
+ * API key, which never includes the secret.
+ */
+export function toApiKey(row: ApiKeyRow, worldIds: string[]): ApiKey {
+  return {
+    prefix: row.key_prefix,
+    accountId: row.account_id,
+    name: row.name,
+    worlds: worldIds,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * toWorldMetadata converts a world row into SDK world metadata.
+ */
+export function toWorldMetadata(row: WorldRow): WorldMetadata {
+  return {
+    worldId: row.world_id,
+    accountId: row.account_id,
+    name: row.name,
+    description: row.description,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deletedAt: row.deleted_at,
+    isPublic: row.is_public !== 0,
+  };
+}
+
+/**
+ * toStatement converts a statement row into an SDK statement.
+ */
+export function toStatement(row: StatementRow): Statement {
+  return {
+    statementId: row.statement_id,
+    subject: row.subject,
+    predicate: row.predicate,
+    object: row.object,
+    graph: row.graph,
+    termType: row.term_type,
+    objectLanguage: row.object_language,
+    objectDatatype: row.object_datatype,
+  };
+}
+
+/**
+ * toChange converts a change log row into an SDK change.
+ */
+export function toChange(row: ChangeRow): Change {
+  return {
+    changeId: row.change_id,
+    type: row.change_type,
+    operationId: row.operation_id,
+    keyPrefix: row.key_prefix,
+    createdAt: row.created_at,
+    statement: toStatement(row),
+  };
+}
+
+/**
+ * toSnapshot converts a snapshot row of a world into an SDK snapshot.
+ */
+export function toSnapshot(worldId: string, row: SnapshotRow): Snapshot {
+  return {
+    snapshotId: row.snapshot_id,
+    worldId,
+    name: row.name,
+    changeId: row.change_id,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * toChunk converts a chunk row into an SDK chunk.
+ */
+export function toChunk(row: ChunkRow): Chunk {
+  return {
+    chunkId: row.chunk_id,
+    statementId: row.statement_id,
+    content: row.content,
+    embedding: row.embedding,
+  };
+}
+
+/**
+ * toUsageBucket converts a usage row into an SDK usage bucket.
+ */
+export function toUsageBucket(row: UsageBucketRow): UsageBucket {
+  return {
+    bucketStartTs: row.bucket_start_ts,
+    accountId: row.account_id,
+    keyPrefix: row.key_prefix,
+    endpoint: row.endpoint,
+    requestCount: row.request_count,
+    tokenInCount: row.token_in_count,
+    tokenOutCount: row.token_out_count,
+  };
+}
+
+/**
+ * toUsageCsv converts usage buckets into CSV for billing, with one row per
+ * bucket and the bucket start in ISO 8601.
+ */
+export function toUsageCsv(buckets: UsageBucket[]): string {
+  const rows = buckets.map((bucket) => [
+    new Date(bucket.bucketStartTs).toISOString(),
+    bucket.accountId,
+    bucket.keyPrefix,
+    bucket.endpoint,
+    bucket.requestCount,
+    bucket.tokenInCount,
+    bucket.tokenOutCount,
+  ]);
+  return [
+    [
+      "bucket_start",
+      "account_id",
+      "key_prefix",
+      "endpoint",
+      "request_count",
+      "token_in_count",
+      "token_out_count",
+    ],
+    ...rows,
+  ].map((row) => row.map(csvField).join(",") + "\r\n").join("");
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/**
+ * toLimit converts a limit row into an SDK limit.
+ */
+export function toLimit(row: LimitRow): Limit {
+  return {
+    plan: row.plan,
+    quotaRequestsPerMin: row.quota_requests_per_min,
+    quotaStorageBytes: row.quota_storage_bytes,
+    allowReasoning: row.allow_reasoning !== 0,
+  };
+}
+
+/**
+ * toLimitRow converts an SDK limit into a limit row.
+ */
+export function toLimitRow(limit: Limit): LimitRow {
+  return {
+    plan: limit.plan,
+    quota_requests_per_min: limit.quotaRequestsPerMin,
+    quota_storage_bytes: limit.quotaStorageBytes,
+    allow_reasoning: limit.allowReasoning ? 1 : 0,
+  };
+}
@@ -0,0 +1,998 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { createClient } from "@libsql/client";
+import {
+  ConflictError,
+  ForbiddenError,
+  InternalWorlds,
+  NotFoundError,
+  QuotaExceededError,
+  RateLimitedError,
+  ServerError,
+  UnauthorizedError,
+  ValidationError,
+  Worlds,
+  WorldsApiError,
+} from "../../../sdk/mod.ts";
+import { WorldsServer } from "./server.ts";
+
+const baseUrl = "http://localhost/v1";
+const adminApiKey = "sk_world_admin";
+const N_QUADS = "application/n-quads";
+
+Deno.test("WorldsServer", async (t) => {
+  const dataDir = await Deno.makeTempDir();
+  const sys = createClient({ url: ":memory:" });
+  const server = new WorldsServer({ sys, adminApiKey, dataDir });
+  const transport = { fetch: server.fetch, retry: false as const };
+  const admin = new InternalWorlds({
+    baseUrl,
+    apiKey: adminApiKey,
+    ...transport,
+  });
+
+  // The suite sends more requests than the default plan allows per minute.
+  await admin.setLimits({
+    plan: "free",
+    quotaRequestsPerMin: 1_000,
+    quotaStorageBytes: 104_857_600,
+    allowReasoning: false,
+  });
+
+  const created = await admin.createAccount({
+    id: "acme",
+    apiKey: "",
+    description: "Acme Corp",
+    plan: "free",
+    accessControl: { worlds: [] },
+  });
+  const worlds = new Worlds({ baseUrl, apiKey: created.apiKey, ...transport });
+
+  await t.step("createAccount returns the API key once", async () => {
+    assert(created.apiKey.startsWith("sk_world_"));
+    const account = await admin.getAccount("acme");
+    assertEquals(account?.apiKey, "");
+    assertEquals(account?.description, "Acme Corp");
+    assertEquals(await admin.getAccount("nobody"), null);
+    assertEquals((await admin.listAccounts()).map((a) => a.id), ["acme"]);
+  });
+
+  await t.step("rejects missing keys and non-admin callers", async () => {
+    const anonymous = new Worlds({
+      baseUrl,
+      apiKey: "sk_world_nope",
+      ...transport,
+    });
+    await assertRejects(() => anonymous.getWorlds(), UnauthorizedError);
+    const internal = new InternalWorlds({
+      baseUrl,
+      apiKey: created.apiKey,
+      ...transport,
+    });
+    await assertRejects(() => internal.listAccounts(), ForbiddenError);
+  });
+
+  await t.step("setWorld / getWorld", async () => {
+    await worlds.setWorld(
+      "notes",
+      '<http://example.org/alice> <http://schema.org/name> "Alice" .\n',
+      "application/n-quads",
+    );
+    await worlds.addQuads(
+      "notes",
+      "<http://example.org/alice> <http://schema.org/knows> <http://example.org/bob> .\n",
+      "application/n-quads",
+    );
+
+    const nquads = await worlds.getWorld("notes", "application/n-quads");
+    assertEquals(nquads?.trim().split("\n").length, 2);
+    assertEquals(await worlds.getWorld("missing", "application/n-quads"), null);
+
+    const [metadata] = await worlds.getWorlds();
+    assertEquals(metadata.worldId, "notes");
+    assertEquals(metadata.accountId, "acme");
+    assertEquals(
+      (await admin.getWorldsByAccount("acme")).map((w) => w.worldId),
+      ["notes"],
+    );
+
+    // Creating a world grants the account access to it.
+    assertEquals((await admin.getAccount("acme"))?.accessControl.worlds, [
+      "notes",
+    ]);
+
+    // A world ID lives in its own database file.
+    await Deno.stat(`${dataDir}/world_notes.db`);
+  });
+
+  await t.step("rejects accounts without access to a world", async () => {
+    const other = await admin.createAccount({
+      id: "globex",
+      apiKey: "",
+      description: "Globex",
+      plan: "free",
+      accessControl: { worlds: [] },
+    });
+    const otherWorlds = new Worlds({
+      baseUrl,
+      apiKey: other.apiKey,
+      ...transport,
+    });
+    await assertRejects(
+      () => otherWorlds.getWorld("notes", "application/n-quads"),
+      ForbiddenError,
+    );
+    await assertRejects(
+      () => otherWorlds.setWorld("notes", "", "application/n-quads"),
+      ForbiddenError,
+    );
+    assertEquals(await otherWorlds.getWorlds(), []);
+
+    // Admins may share a world by adding it to an account's access list.
+    await admin.updateAccount({
+      ...other,
+      accessControl: { worlds: ["notes"] },
+    });
+    assertEquals(
+      (await otherWorlds.getWorlds()).map((world) => world.worldId),
+      ["notes"],
+    );
+    await admin.removeAccount("globex");
+  });
+
+  let agent: Worlds | undefined;
+  await t.step("createApiKey / listApiKeys / revokeApiKey", async () => {
+    const ci = await admin.createApiKey("acme", {
+      name: "CI/CD Pipeline",
+      ttl: 60_000,
+    });
+    assert(ci.apiKey.startsWith(`sk_world_${ci.prefix}`));
+    assertEquals(ci.name, "CI/CD Pipeline");
+    assert(ci.expiresAt !== null && ci.expiresAt > ci.createdAt);
+
+    const scoped = await admin.createApiKey("acme", {
+      name: "Agent",
+      worlds: ["notes"],
+    });
+    assertEquals(scoped.worlds, ["notes"]);
+    assertEquals(scoped.expiresAt, null);
+
+    // Secrets are only returned at creation.
+    const keys = await admin.listApiKeys("acme");
+    assertEquals(keys.length, 3);
+    assert(keys.every((key) => !("apiKey" in key)));
+    assertEquals(
+      keys.map((key) => key.name),
+      [null, "CI/CD Pipeline", "Agent"],
+    );
+
+    // A scoped key only reaches the worlds of its scope.
+    agent = new Worlds({ baseUrl, apiKey: scoped.apiKey, ...transport });
+    assertEquals(
+      (await agent.getWorlds()).map((world) => world.worldId),
+      ["notes"],
+    );
+    await assertRejects(
+      () => agent!.setWorld("scratch", "", "application/n-quads"),
+      ForbiddenError,
+    );
+
+    const ciWorlds = new Worlds({ baseUrl, apiKey: ci.apiKey, ...transport });
+    assertEquals((await ciWorlds.getWorlds()).length, 1);
+    await admin.revokeApiKey("acme", ci.prefix);
+    await assertRejects(() => ciWorlds.getWorlds(), UnauthorizedError);
+    await assertRejects(
+      () => admin.revokeApiKey("acme", ci.prefix),
+      NotFoundError,
+    );
+    assertEquals((await admin.listApiKeys("acme")).length, 2);
+  });
+
+  await t.step("queryWorld / updateWorld", async () => {
+    const result = await worlds.queryWorld(
+      "notes",
+      "SELECT ?name WHERE { ?s <http://schema.org/name> ?name }",
+    );
+    assert(result.type === "select");
+    assertEquals(result.bindings[0].name?.value, "Alice");
+
+    const update = await worlds.updateWorld(
+      "notes",
+      `DELETE DATA { <http://example.org/alice> <http://schema.org/name> "Alice" } ;
+      INSERT DATA { <http://example.org/alice> <http://schema.org/name> "Alice Liddell" }`,
+    );
+    assertEquals(update, { inserted: 1, deleted: 1 });
+
+    const construct = await worlds.queryWorld(
+      "notes",
+      "CONSTRUCT { ?s ?p ?o } WHERE { ?s ?p ?o }",
+    );
+    assert(construct.type === "quads");
+    assertEquals(construct.quads.length, 2);
+  });
+
+  await t.step("statements and chunks", async () => {
+    const [result] = await worlds.searchStatements("notes", "liddell");
+    assertEquals(result.item.object, "Alice Liddell");
+    assertEquals(
+      await worlds.getStatement("notes", result.item.statementId),
+      result.item,
+    );
+    assertEquals(await worlds.getStatement("notes", 9999), null);
+
+    const [chunk] = await worlds.searchChunks("notes", "liddell");
+    assertEquals(chunk.item.statementId, result.item.statementId);
+    assertEquals(
+      (await worlds.getChunk("notes", chunk.item.chunkId))?.content,
+      "Alice Liddell",
+    );
+    assertEquals(await worlds.getChunk("notes", 9999), null);
+  });
+
+  await t.step("getWorldSettings / updateWorldSettings", async () => {
+    const text = "alpha ".repeat(12).trim();
+    await worlds.setWorld(
+      "essays",
+      `<http://example.org/a> <http://schema.org/text> "${text}" .\n`,
+      "application/n-quads",
+    );
+    assertEquals(await worlds.getWorldSettings("essays"), { chunking: {} });
+    assertEquals((await worlds.searchChunks("essays", "alpha")).length, 1);
+
+    const chunking = { chunkSize: 20, chunkOverlap: 0 };
+    assertEquals(
+      await worlds.updateWorldSettings("essays", { chunking }),
+      { chunking },
+    );
+    await worlds.addQuads(
+      "essays",
+      `<http://example.org/b> <http://schema.org/text> "${text}" .\n`,
+      "application/n-quads",
+    );
+    // Chunks that were already stored are kept.
+    assertEquals((await worlds.searchChunks("essays", "alpha")).length, 5);
+
+    for (const invalid of [{ chunkSize: 0 }, { size: 20 }, true]) {
+      await assertRejects(
+        () =>
+          worlds.updateWorldSettings("essays", {
+            chunking: invalid as { chunkSize: number },
+          }),
+        ValidationError,
+      );
+    }
+
+    // Settings are kept by forks and across restarts.
+    await worlds.forkWorld("essays", { worldId: "essays-fork" });
+    assertEquals(await worlds.getWorldSettings("essays-fork"), { chunking });
+    const restarted = new WorldsServer({ sys, adminApiKey, dataDir });
+    const reopened = new Worlds({
+      baseUrl,
+      apiKey: created.apiKey,
+      fetch: restarted.fetch,
+      retry: false,
+    });
+    try {
+      assertEquals(await reopened.getWorldSettings("essays"), { chunking });
+    } finally {
+      await restarted.close();
+    }
+
+    await worlds.removeWorld("essays-fork");
+    await worlds.removeWorld("essays");
+  });
+
+  await t.step("forkWorld / mergeWorld", async () => {
+    const fork = await worlds.forkWorld("notes", { worldId: "drafts" });
+    assertEquals(fork.worldId, "drafts");
+    assertEquals(fork.accountId, "acme");
+    assertEquals(
+      (await worlds.getWorld("drafts", "application/n-quads"))?.trim()
+        .split("\n").length,
+      2,
+    );
+    // A fork copies the chunks and embeddings of its source.
+    assertEquals((await worlds.searchChunks("drafts", "liddell")).length, 1);
+    await assertRejects(
+      () => worlds.forkWorld("notes", { worldId: "drafts" }),
+      ConflictError,
+    );
+
+    // A fork never takes over a database file, and is not registered when
+    // its copy fails.
+    const stray = `${dataDir}/world_stray.db`;
+    await Deno.writeTextFile(stray, "stray");
+    await assertRejects(
+      () => worlds.forkWorld("notes", { worldId: "stray" }),
+      ConflictError,
+    );
+    assertEquals(await Deno.readTextFile(stray), "stray");
+    await Deno.remove(stray);
+    assertEquals(await worlds.getWorld("stray", N_QUADS), null);
+    assertEquals(
+      (await worlds.getWorlds()).map((world) => world.worldId),
+      ["notes", "drafts"],
+    );
+
+    await worlds.updateWorld(
+      "drafts",
+      `DELETE DATA { <http://example.org/alice> <http://schema.org/name> "Alice Liddell" } ;
+      INSERT DATA {
+        <http://example.org/alice> <http://schema.org/name> "Alice L." .
+        <http://example.org/bob> <http://schema.org/name> "Bob"
+      }`,
+    );
+
+    // A dry run reports the diff without changing the target.
+    const options = { functionalPredicates: ["http://schema.org/name"] };
+    const preview = await worlds.mergeWorld("drafts", "notes", "source-wins", {
+      ...options,
+      dryRun: true,
+    });
+    assertEquals(
+      { ...preview, diff: undefined },
+      { inserted: 2, deleted: 1, conflicts: 1, dryRun: true, diff: undefined },
+    );
+    assert(preview.diff?.deletions.includes('"Alice Liddell"'));
+    assertEquals(
+      (await worlds.getWorld("notes", "application/n-quads"))?.trim()
+        .split("\n").length,
+      2,
+    );
+
+    assertEquals(
+      await worlds.mergeWorld("drafts", "notes", "target-wins", options),
+      { inserted: 1, deleted: 0, conflicts: 1, dryRun: false },
+    );
+    const [result] = await worlds.searchStatements("notes", "bob");
+    assertEquals(result.item.object, "Bob");
+
+    await worlds.removeWorld("drafts");
+  });
+
+  await t.step("snapshots, history, and restoreWorld", async () => {
+    const lines = (nquads: string | null) =>
+      nquads?.trim().split("\n").filter((line) => line !== "").length;
+    const snapshot = await worlds.createSnapshot("notes", "before cleanup");
+    assertEquals(snapshot.name, "before cleanup");
+    assertEquals(await worlds.listSnapshots("notes"), [snapshot]);
+
+    // A bad tool call wipes the world.
+    assertEquals(
+      await worlds.updateWorld("notes", "DELETE WHERE { ?s ?p ?o }"),
+      { inserted: 0, deleted: 3 },
+    );
+    assertEquals(lines(await worlds.getWorld("notes", N_QUADS)), 0);
+    assertEquals(
+      lines(
+        await worlds.getWorld("notes", N_QUADS, { at: snapshot.snapshotId }),
+      ),
+      3,
+    );
+    assertEquals(
+      lines(await worlds.getWorld("notes", N_QUADS, { at: new Date(0) })),
+      0,
+    );
+
+    // The deletes are logged as one operation of the key that made them.
+    const changes = await worlds.getChanges("notes", {
+      since: snapshot.changeId,
+    });
+    assertEquals(changes.map((change) => change.type), [
+      "delete",
+      "delete",
+      "delete",
+    ]);
+    assertEquals(new Set(changes.map((change) => change.operationId)).size, 1);
+    assertEquals(
+      changes[0].keyPrefix,
+      created.apiKey.slice("sk_world_".length).slice(0, 8),
+    );
+
+    const diff = await worlds.diffWorld("notes", snapshot.snapshotId);
+    assertEquals(lines(diff.deletions), 3);
+    assertEquals(diff.insertions, "");
+
+    assertEquals(await worlds.restoreWorld("notes", snapshot.snapshotId), {
+      inserted: 3,
+      deleted: 0,
+    });
+    assertEquals(lines(await worlds.getWorld("notes", N_QUADS)), 3);
+    const [result] = await worlds.searchStatements("notes", "liddell");
+    assertEquals(result.item.object, "Alice Liddell");
+    await assertRejects(
+      () => worlds.restoreWorld("notes", "missing"),
+      NotFoundError,
+    );
+  });
+
+  await t.step("watchWorld follows the change feed of a world", async () => {
+    await worlds.setWorld(
+      "feed",
+      '<http://example.org/feed> <http://schema.org/name> "Feed" .\n',
+      N_QUADS,
+    );
+    const [last] = (await worlds.getChanges("feed")).slice(-1);
+    const events = worlds.watchWorld("feed", { since: last.changeId });
+    const next = async () => (await events.next()).value;
+
+    const quad =
+      '<http://example.org/feed> <http://schema.org/description> "Live" .\n';
+    const [, patch] = await Promise.all([
+      worlds.addQuads("feed", quad, N_QUADS),
+      next(),
+    ]);
+    assert(patch?.type === "patch");
+    assertEquals(patch.insertions, quad);
+    assertEquals(patch.deletions, "");
+    assertEquals(patch.changeId, last.changeId + 1);
+
+    const metadata = (await worlds.getWorlds()).find((world) =>
+      world.worldId === "feed"
+    )!;
+    const [, updated] = await Promise.all([
+      worlds.updateMetadata("feed", { ...metadata, name: "Live feed" }),
+      next(),
+    ]);
+    assert(updated?.type === "metadata");
+    assertEquals(updated.metadata.name, "Live feed");
+
+    const [, deleted] = await Promise.all([worlds.removeWorld("feed"), next()]);
+    assertEquals(deleted, { type: "deleted", worldId: "feed" });
+    assertEquals((await events.next()).done, true);
+  });
+
+  await t.step("watchWorld resumes after a drop before any patch", async () => {
+    const quad = (name: string) =>
+      `<http://example.org/feed> <http://schema.org/name> "${name}" .\n`;
+    let connections = 0;
+    const flaky = new Worlds({
+      baseUrl,
+      apiKey: created.apiKey,
+      retry: false,
+      fetch: async (request) => {
+        const response = await server.fetch(request);
+        if (!new URL(request.url).pathname.endsWith("/events")) {
+          return response;
+        }
+
+        connections++;
+        if (connections > 1) {
+          // Changes after the reconnect come after the missed one.
+          await worlds.addQuads("notes", quad("Later"), N_QUADS);
+          return response;
+        }
+
+        // The connection drops after the opening event, and the world
+        // changes before the feed reconnects.
+        const reader = response.body!.getReader();
+        const { value } = await reader.read();
+        await reader.cancel();
+        await worlds.addQuads("notes", quad("Missed"), N_QUADS);
+        return new Response(
+          new ReadableStream({
+            start: (controller) => controller.enqueue(value),
+            pull: (controller) =>
+              controller.error(new TypeError("Connection reset")),
+          }),
+          response,
+        );
+      },
+    });
+
+    const events = flaky.watchWorld("notes", { reconnectDelay: 0 });
+    const { value: patch } = await events.next();
+    assert(patch?.type === "patch");
+    assertEquals(patch.insertions, quad("Missed"));
+    assertEquals(connections, 2);
+    await events.return(undefined);
+  });
+
+  await t.step("watchWorld stops on malformed events", async () => {
+    // A reconnect is aborted, so that a feed that retries cannot loop.
+    const reconnected = new AbortController();
+    let connections = 0;
+    const broken = new Worlds({
+      baseUrl,
+      apiKey: created.apiKey,
+      retry: false,
+      fetch: () => {
+        connections++;
+        if (connections > 1) {
+          reconnected.abort();
+        }
+
+        return Promise.resolve(
+          new Response("data: {\n\n", {
+            headers: { "Content-Type": "text/event-stream" },
+          }),
+        );
+      },
+    });
+
+    await assertRejects(
+      () =>
+        broken.watchWorld("notes", {
+          reconnectDelay: 0,
+          signal: reconnected.signal,
+        }).next(),
+      SyntaxError,
+    );
+    assertEquals(connections, 1);
+  });
+
+  await t.step("watchWorld outlives the call timeout", async () => {
+    const quad =
+      '<http://example.org/watcher> <http://schema.org/name> "Al" .\n';
+    const events = new Worlds({
+      baseUrl,
+      apiKey: created.apiKey,
+      retry: false,
+      timeout: 100,
+      fetch: async (request) => {
+        // Like fetch, reads of the body fail once the request aborts.
+        const response = await server.fetch(request);
+        return new Response(
+          response.body!.pipeThrough(new TransformStream(), {
+            signal: request.signal,
+          }),
+          response,
+        );
+      },
+    }).watchWorld("notes");
+    const [, { value: patch }] = await Promise.all([
+      delay(300).then(() => worlds.addQuads("notes", quad, N_QUADS)),
+      events.next(),
+    ]);
+    assert(patch?.type === "patch");
+    assertEquals(patch.insertions, quad);
+    await events.return(undefined);
+  });
+
+  await t.step("watchWorld reconnects after a timeout", async () => {
+    const quad =
+      '<http://example.org/watcher> <http://schema.org/name> "Ali" .\n';
+    let connections = 0;
+    const stalled = new Worlds({
+      baseUrl,
+      apiKey: created.apiKey,
+      ...transport,
+      timeout: 100,
+      fetch: (request) => {
+        if (++connections > 1) {
+          return server.fetch(request);
+        }
+
+        // The first connection hangs until it times out.
+        return new Promise((_, reject) =>
+          request.signal.addEventListener(
+            "abort",
+            () => reject(request.signal.reason),
+          )
+        );
+      },
+    });
+    const events = stalled.watchWorld("notes", { reconnectDelay: 0 });
+    const [, { value: patch }] = await Promise.all([
+      delay(300).then(() => worlds.addQuads("notes", quad, N_QUADS)),
+      events.next(),
+    ]);
+    assert(patch?.type === "patch");
+    assertEquals(patch.insertions, quad);
+    assertEquals(connections, 2);
+    await events.return(undefined);
+  });
+
+  await t.step("exportWorldDatabase / importWorldDatabase", async () => {
+    const file = new Uint8Array(
+      await new Response(await worlds.exportWorldDatabase("notes"))
+        .arrayBuffer(),
+    );
+    assertEquals(
+      new TextDecoder().decode(file.subarray(0, 16)),
+      "SQLite format 3\0",
+    );
+
+    const imported = await worlds.importWorldDatabase(file, {
+      worldId: "notes-copy",
+      name: "Imported notes",
+    });
+    assertEquals(imported.worldId, "notes-copy");
+    assertEquals(imported.accountId, "acme");
+    assertEquals(imported.name, "Imported notes");
+
+    // Statements, chunks, and history travel with the file.
+    const lines = async (worldId: string) =>
+      (await worlds.getWorld(worldId, N_QUADS))?.trim().split("\n").sort();
+    assertEquals(await lines("notes-copy"), await lines("notes"));
+    const [result] = await worlds.searchStatements("notes-copy", "liddell");
+    assertEquals(result.item.object, "Alice Liddell");
+    assertEquals(
+      (await worlds.getChanges("notes-copy")).length,
+      (await worlds.getChanges("notes")).length,
+    );
+
+    await assertRejects(
+      () => worlds.importWorldDatabase(file, { worldId: "notes-copy" }),
+      ConflictError,
+    );
+
+    // A database file is never replaced, even without a world in sys.
+    const stray = `${dataDir}/world_stray.db`;
+    await Deno.writeTextFile(stray, "stray");
+    await assertRejects(
+      () => worlds.importWorldDatabase(file, { worldId: "stray" }),
+      ConflictError,
+    );
+    assertEquals(await Deno.readTextFile(stray), "stray");
+    await Deno.remove(stray);
+    await assertRejects(
+      () => worlds.importWorldDatabase(new TextEncoder().encode("notes")),
+      ValidationError,
+    );
+
+    // The schema version is the user_version in the file header. Earlier
+    // versions are migrated and later ones are rejected.
+    const earlier = file.slice();
+    earlier[63] = 1;
+    await worlds.importWorldDatabase(earlier, { worldId: "earlier" });
+    assertEquals(await lines("earlier"), await lines("notes"));
+    await worlds.removeWorld("earlier");
+
+    const future = file.slice();
+    future[63] = 99;
+    await assertRejects(
+      () => worlds.importWorldDatabase(future, { worldId: "future" }),
+      ValidationError,
+    );
+    assertEquals(await worlds.getWorld("future", N_QUADS), null);
+
+    await worlds.removeWorld("notes-copy");
+  });
+
+  await t.step("forgetResource / updateMetadata / removeWorld", async () => {
+    assertEquals(
+      await worlds.forgetResource("notes", "http://example.org/alice"),
+      { statements: 2, chunks: 1, dryRun: false },
+    );
+
+    const [metadata] = await worlds.getWorlds();
+    await worlds.updateMetadata("notes", { ...metadata, name: "Notes" });
+    assertEquals((await worlds.getWorlds())[0].name, "Notes");
+
+    await worlds.removeWorld("notes");
+    assertEquals(await worlds.getWorld("notes", "application/n-quads"), null);
+    assertEquals(await worlds.getWorlds(), []);
+    await assertRejects(() => worlds.removeWorld("notes"), NotFoundError);
+  });
+
+  await t.step("limits and usage", async () => {
+    assertEquals(await admin.getLimits("pro"), null);
+    const limit = {
+      plan: "pro",
+      quotaRequestsPerMin: 600,
+      quotaStorageBytes: 1_000_000_000,
+      allowReasoning: true,
+    };
+    await admin.setLimits(limit);
+    assertEquals(await admin.getLimits("pro"), limit);
+
+    // Requests of accounts are metered per key and endpoint.
+    const keyPrefix = created.apiKey.slice("sk_world_".length).slice(0, 8);
+    const usage = await admin.getUsage("acme", {
+      endpoint: "GET /worlds",
+      keyPrefix,
+      granularity: "day",
+    });
+    assertEquals(usage.length, 1);
+    assertEquals(usage[0].keyPrefix, keyPrefix);
+    assert(usage[0].requestCount >= 4);
+    assertEquals(await admin.getUsage("acme", { keyPrefix: "none" }), []);
+
+    const csv = await admin.exportUsage("acme", "csv", {
+      endpoint: "GET /worlds",
+    });
+    assert(csv.startsWith("bucket_start,account_id,key_prefix,endpoint,"));
+    assert(csv.includes(",acme,"));
+  });
+
+  await t.step("rate limits accounts by their plan", async () => {
+    const limit = {
+      plan: "pro",
+      quotaRequestsPerMin: 2,
+      quotaStorageBytes: 1_000_000_000,
+      allowReasoning: true,
+    };
+    await admin.setLimits(limit);
+    const account = await admin.createAccount({
+      id: "hooli",
+      apiKey: "",
+      description: "Hooli",
+      plan: "pro",
+      accessControl: { worlds: [] },
+    });
+    const limited = new Worlds({
+      baseUrl,
+      apiKey: account.apiKey,
+      ...transport,
+    });
+
+    await limited.getWorlds();
+    assertEquals(limited.rateLimit?.limit, 2);
+    assertEquals(limited.rateLimit?.remaining, 1);
+    await limited.getWorlds();
+    const error = await assertRejects(
+      () => limited.getWorlds(),
+      RateLimitedError,
+    );
+    assertEquals(error.rateLimit?.remaining, 0);
+    assert(error.retryAfter !== null && error.retryAfter > 0);
+
+    // A raised limit applies to the next request.
+    await admin.setLimits({ ...limit, quotaRequestsPerMin: 600 });
+    await limited.getWorlds();
+    assertEquals(limited.rateLimit?.limit, 600);
+    await admin.removeAccount("hooli");
+  });
+
+  await t.step("enforces the storage quota of a plan", async () => {
+    const account = await admin.createAccount({
+      id: "initech",
+      apiKey: "",
+      description: "Initech",
+      plan: "pro",
+      accessControl: { worlds: [] },
+    });
+    const quoted = new Worlds({
+      baseUrl,
+      apiKey: account.apiKey,
+      ...transport,
+    });
+    await quoted.setWorld(
+      "ledger",
+      '<http://example.org/tps> <http://schema.org/name> "TPS" .\n',
+      "application/n-quads",
+    );
+
+    // Reading the storage reports the last measurement without taking one.
+    const measuredAt = async () =>
+      (await sys.execute(
+        "SELECT measured_at FROM kb_world_storage WHERE world_id = 'ledger'",
+      )).rows[0].measured_at;
+    const measured = await measuredAt();
+    await delay(5);
+    const usage = await quoted.getStorageUsage("ledger");
+    assertEquals(usage.accountId, "initech");
+    assert(usage.worldBytes > 0);
+    assertEquals(usage.accountBytes, usage.worldBytes);
+    assertEquals(await measuredAt(), measured);
+
+    await admin.setLimits({
+      plan: "pro",
+      quotaRequestsPerMin: 600,
+      quotaStorageBytes: usage.accountBytes + 10,
+      allowReasoning: true,
+    });
+    const error = await assertRejects(
+      () =>
+        quoted.addQuads(
+          "ledger",
+          `<http://example.org/tps> <http://schema.org/description> "${
+            "x".repeat(100)
+          }" .\n`,
+          "application/n-quads",
+        ),
+      QuotaExceededError,
+    );
+    assertEquals(error.problem?.usage, usage.accountBytes);
+    assertEquals(error.problem?.limit, usage.accountBytes + 10);
+    assert(Number(error.problem?.delta) > 100);
+
+    // Writes that shrink a world pass even at the quota.
+    assertEquals(
+      await quoted.updateWorld(
+        "ledger",
+        'DELETE DATA { <http://example.org/tps> <http://schema.org/name> "TPS" }',
+      ),
+      { inserted: 0, deleted: 1 },
+    );
+    await admin.removeAccount("initech");
+  });
+
+  await t.step("rotateAccountKey / removeAccount", async () => {
+    const rotated = await admin.rotateAccountKey("acme");
+    assert(rotated.apiKey !== created.apiKey);
+    await assertRejects(() => worlds.getWorlds(), UnauthorizedError);
+
+    // Named keys survive a rotation of the account key.
+    assertEquals(await agent?.getWorlds(), []);
+
+    await admin.removeAccount("acme");
+    assertEquals(await admin.getAccount("acme"), null);
+  });
+
+  await server.close();
+  sys.close();
+  await Deno.remove(dataDir, { recursive: true });
+});
+
+Deno.test("WorldsServer without dataDir", async () => {
+  const sys = createClient({ url: ":memory:" });
+  const server = new WorldsServer({ sys, adminApiKey });
+  const transport = { fetch: server.fetch, retry: false as const };
+  const admin = new InternalWorlds({
+    baseUrl,
+    apiKey: adminApiKey,
+    ...transport,
+  });
+  const { apiKey } = await admin.createAccount({
+    id: "acme",
+    apiKey: "",
+    description: "Acme Corp",
+    plan: "free",
+    accessControl: { worlds: [] },
+  });
+  const worlds = new Worlds({ baseUrl, apiKey, ...transport });
+
+  await worlds.setWorld(
+    "notes",
+    '<http://example.org/alice> <http://schema.org/name> "Alice" .\n',
+    N_QUADS,
+  );
+  await worlds.addQuads(
+    "notes",
+    '<http://example.org/bob> <http://schema.org/name> "Bob" .\n',
+    N_QUADS,
+  );
+  const nquads = await worlds.getWorld("notes", N_QUADS);
+  assertEquals(nquads?.trim().split("\n").length, 2);
+
+  await server.close();
+  sys.close();
+});
+
+Deno.test("WorldsServer prunes the change log", async () => {
+  const sys = createClient({ url: ":memory:" });
+  const server = new WorldsServer({ sys, adminApiKey, changeRetentionMs: 50 });
+  const transport = { fetch: server.fetch, retry: false as const };
+  const admin = new InternalWorlds({
+    baseUrl,
+    apiKey: adminApiKey,
+    ...transport,
+  });
+  const { apiKey } = await admin.createAccount({
+    id: "acme",
+    apiKey: "",
+    description: "Acme Corp",
+    plan: "free",
+    accessControl: { worlds: [] },
+  });
+  const worlds = new Worlds({ baseUrl, apiKey, ...transport });
+  const add = (name: string) =>
+    worlds.addQuads(
+      "notes",
+      `<http://example.org/${name}> <http://schema.org/name> "${name}" .\n`,
+      N_QUADS,
+    );
+
+  await worlds.setWorld("notes", "", N_QUADS);
+  await add("alice");
+  const start = Date.now();
+  const snapshot = await worlds.createSnapshot("notes", "expired");
+  await add("bob");
+  await delay(100);
+  await add("carol");
+
+  // Only the write within the retention is left.
+  const changes = await worlds.getChanges("notes");
+  assertEquals(changes.map((change) => change.changeId), [3]);
+  assertEquals(await worlds.listSnapshots("notes"), []);
+  await assertRejects(
+    () => worlds.restoreWorld("notes", snapshot.snapshotId),
+    NotFoundError,
+  );
+  const error = await assertRejects(
+    () => worlds.getWorld("notes", N_QUADS, { at: new Date(start) }),
+    WorldsApiError,
+  );
+  assertEquals(error.status, 410);
+  await assertRejects(
+    () => worlds.getChanges("notes", { since: 1 }),
+    WorldsApiError,
+  );
+  await assertRejects(
+    () => worlds.watchWorld("notes", { since: 1 }).next(),
+    WorldsApiError,
+  );
+  assertEquals(
+    (await worlds.getWorld("notes", N_QUADS))?.trim().split("\n").length,
+    3,
+  );
+
+  await server.close();
+  sys.close();
+});
+
+Deno.test("WorldsServer retries a failed setup", async () => {
+  const sys = createClient({ url: ":memory:" });
+  const executeMultiple = sys.executeMultiple.bind(sys);
+  let failures = 1;
+  sys.executeMultiple = (sql) =>
+    failures-- > 0
+      ? Promise.reject(new Error("unavailable"))
+      : executeMultiple(sql);
+  const server = new WorldsServer({ sys, adminApiKey });
+  const admin = new InternalWorlds({
+    baseUrl,
+    apiKey: adminApiKey,
+    fetch: server.fetch,
+    retry: false,
+  });
+
+  await assertRejects(() => admin.listAccounts(), ServerError);
+  assertEquals(await admin.listAccounts(), []);
+
+  await server.close();
+  sys.close();
+});
+
+Deno.test("WorldsServer rate limits API keys", async () => {
+  const sys = createClient({ url: ":memory:" });
+  const server = new WorldsServer({ sys, adminApiKey, keyRequestsPerMin: 2 });
+  const transport = { fetch: server.fetch, retry: false as const };
+  const admin = new InternalWorlds({
+    baseUrl,
+    apiKey: adminApiKey,
+    ...transport,
+  });
+  await admin.setLimits({
+    plan: "free",
+    quotaRequestsPerMin: 5,
+    quotaStorageBytes: 104_857_600,
+    allowReasoning: false,
+  });
+  await admin.createAccount({
+    id: "acme",
+    apiKey: "",
+    description: "Acme Corp",
+    plan: "free",
+    accessControl: { worlds: [] },
+  });
+  const [first, second] = await Promise.all(
+    ["First agent", "Second agent"].map(async (name) => {
+      const { apiKey } = await admin.createApiKey("acme", { name });
+      return new Worlds({ baseUrl, apiKey, ...transport });
+    }),
+  );
+
+  // Each key runs out of its own budget, independently of the other.
+  for (const worlds of [first, second]) {
+    await worlds.getWorlds();
+    await worlds.getWorlds();
+    assertEquals(worlds.rateLimit?.limit, 2);
+    assertEquals(worlds.rateLimit?.remaining, 0);
+    const error = await assertRejects(
+      () => worlds.getWorlds(),
+      RateLimitedError,
+    );
+    assertEquals(error.rateLimit?.limit, 2);
+  }
+
+  // The keys also share the budget of the account, of which one request is
+  // left.
+  const third = new Worlds({
+    baseUrl,
+    apiKey: (await admin.createApiKey("acme", { name: "Third agent" })).apiKey,
+    ...transport,
+  });
+  await third.getWorlds();
+  assertEquals(third.rateLimit?.limit, 5);
+  const error = await assertRejects(() => third.getWorlds(), RateLimitedError);
+  assertEquals(error.rateLimit?.limit, 5);
+
+  await server.close();
+  sys.close();
+});
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
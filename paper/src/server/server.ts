@@ -0,0 +1,1693 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Client } from "@libsql/client";
+import type * as rdfjs from "@rdfjs/types";
+import * as oxigraph from "oxigraph";
+import {
+  type CreateApiKeyInput,
+  isWorldsAccount,
+  type Limit,
+  type MergeResult,
+  type MergeStrategy,
+  sparqlQueryForm,
+  type StorageUsage,
+  type UpdateResult,
+  type WorldDiff,
+  type WorldMetadata,
+  type WorldPatchEvent,
+  type WorldsAccount,
+  type WorldSettings,
+} from "../../../sdk/mod.ts";
+import type {
+  AccountRow,
+  ApiKeyRow,
+  SysStore,
+  UsageFilter,
+  UsageGranularity,
+  WorldRow,
+} from "../../../sqlite/sys.ts";
+import type { ChangeRow, SnapshotRow } from "../../../sqlite/statements.ts";
+import {
+  InvalidChunkingSettingsError,
+  parseChunkingSettings,
+} from "#/chunking/chunking-settings.ts";
+import type { EmbeddingProvider } from "#/embeddings/embedding-provider.ts";
+import { defaultSearchLimit } from "#/search-store/chunk-search.ts";
+import { EmbeddingMismatchError } from "#/embeddings/embedding-settings.ts";
+import { LibsqlSysStore } from "#/sys-store/libsql-sys-store.ts";
+import { generateApiKey } from "#/sys-store/api-keys.ts";
+import { applySchema } from "#/utils/schema.ts";
+import {
+  type ChangeOrigin,
+  ChangesPrunedError,
+} from "#/statements-store/change-log.ts";
+import { statementRowToQuad } from "#/statements-store/statement-rows.ts";
+import { SparqlQueryError, WorldEngine } from "#/world-engine/world-engine.ts";
+import { SparqlUpdateError } from "#/world-engine/sparql-update.ts";
+import type { SyncChannel } from "#/world-engine/world-sync.ts";
+import { Auth, type Caller, canAccessWorld, defaultLimit } from "./auth.ts";
+import {
+  HttpError,
+  json,
+  mediaType,
+  noContent,
+  problem,
+  readJson,
+} from "./http.ts";
+import {
+  toApiKey,
+  toChange,
+  toChunk,
+  toLimit,
+  toLimitRow,
+  toSnapshot,
+  toStatement,
+  toUsageBucket,
+  toUsageCsv,
+  toWorldMetadata,
+  toWorldsAccount,
+} from "./resources.ts";
+import { RateLimiter, rateLimitHeaders } from "./rate-limiter.ts";
+import { UsageMeter } from "./usage-meter.ts";
+import {
+  InvalidWorldFileError,
+  WorldDatabaseExistsError,
+  WorldDatabases,
+} from "./world-databases.ts";
+import { WorldEvents } from "./world-events.ts";
+
+const N_QUADS = "application/n-quads";
+const SPARQL_RESULTS_JSON = "application/sparql-results+json";
+
+/**
+ * graphFormats are the RDF formats without named graphs. Worlds are
+ * serialized to them from the default graph.
+ */
+const graphFormats = [
+  "application/n-triples",
+  "text/turtle",
+  "application/rdf+xml",
+];
+
+/**
+ * WORLD_ID matches the world IDs that the server accepts, which are also used
+ * in database file names.
+ */
+const WORLD_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * WorldsServerOptions configures a WorldsServer.
+ */
+export interface WorldsServerOptions {
+  /**
+   * sys is the system database, with the schema in sqlite/sys.sql.
+   */
+  sys: Client;
+
+  /**
+   * adminApiKey is the API key of the service owner, who may call the
+   * internal routes.
+   */
+  adminApiKey: string;
+
+  /**
+   * dataDir is the directory of the world database files. Worlds are kept in
+   * a temporary directory that is removed on close when unset.
+   */
+  dataDir?: string;
+
+  /**
+   * embeddings embeds the chunks of every world.
+   */
+  embeddings?: EmbeddingProvider;
+
+  /**
+   * maxQuads is the in-memory budget of the world engine.
+   */
+  maxQuads?: number;
+
+  /**
+   * sync syncs the hot worlds of this server with the servers of other
+   * isolates that share its data directory, e.g. a BroadcastSyncChannel.
+   */
+  sync?: SyncChannel;
+
+  /**
+   * basePath is the path prefix of every route. Defaults to "/v1".
+   */
+  basePath?: string;
+
+  /**
+   * rateLimiter enforces the request rate of each account's plan. Defaults
+   * to a RateLimiter with one-minute windows.
+   */
+  rateLimiter?: RateLimiter;
+
+  /**
+   * keyRequestsPerMin is the number of requests per minute that each API
+   * key may send, within the limit of its account's plan. Defaults to the
+   * limit of the plan.
+   */
+  keyRequestsPerMin?: number;
+
+  /**
+   * changeRetentionMs is how long the change log of a world keeps changes,
+   * and so how far back its history, snapshots, and change feed reach. The
+   * change log counts towards the storage of a world. Defaults to 30 days.
+   */
+  changeRetentionMs?: number;
+}
+
+interface RouteContext {
+  request: Request;
+  params: Record<string, string>;
+  caller: Caller;
+}
+
+interface Route {
+  method: string;
+
+  /**
+   * endpoint names the route in usage buckets, e.g. "GET /worlds/:world".
+   */
+  endpoint: string;
+  pattern: URLPattern;
+  admin: boolean;
+  handle: (context: RouteContext) => Promise<Response>;
+}
+
+/**
+ * WorldsServer is the reference implementation of the Worlds API. It serves
+ * every route of the Worlds and InternalWorlds SDK classes from a system
+ * database and one SQLite database per world.
+ */
+export class WorldsServer {
+  private readonly sys: SysStore;
+  private readonly auth: Auth;
+  private readonly databases: WorldDatabases;
+  private readonly engine: WorldEngine;
+  private readonly rateLimiter: RateLimiter;
+  private readonly meter: UsageMeter;
+  private readonly origins = new AsyncLocalStorage<ChangeOrigin>();
+  private readonly events = new WorldEvents();
+  private readonly routes: Route[];
+  private ready: Promise<void> | null = null;
+
+  public constructor(private readonly options: WorldsServerOptions) {
+    this.sys = new LibsqlSysStore(options.sys);
+    this.auth = new Auth(this.sys, { adminApiKey: options.adminApiKey });
+    this.meter = new UsageMeter(this.sys);
+    this.databases = new WorldDatabases({
+      dataDir: options.dataDir,
+      embeddings: options.embeddings === undefined
+        ? undefined
+        : this.meter.meterEmbeddings(options.embeddings),
+      origin: () => this.origins.getStore(),
+      changeRetentionMs: options.changeRetentionMs ?? defaultChangeRetentionMs,
+    });
+    this.engine = new WorldEngine({
+      openStore: async (worldId) => (await this.databases.open(worldId)).search,
+      maxQuads: options.maxQuads,
+      channel: options.sync,
+    });
+    this.rateLimiter = options.rateLimiter ?? new RateLimiter();
+    this.routes = this.createRoutes(options.basePath ?? "/v1");
+  }
+
+  /**
+   * fetch handles a request. It can be passed to Deno.serve or used as the
+   * fetch function of the SDK.
+   */
+  public fetch = async (request: Request): Promise<Response> => {
+    try {
+      // A failed setup is retried by the next request.
+      this.ready ??= applySchema(this.options.sys, "sys").catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+      await this.ready;
+      return await this.handle(request);
+    } catch (error) {
+      return errorResponse(error);
+    }
+  };
+
+  /**
+   * close flushes metered usage and closes the world databases. The system
+   * database is owned by the caller.
+   */
+  public async close(): Promise<void> {
+    await this.meter.flush();
+    this.engine.close();
+    await this.databases.close();
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    let allowed = false;
+    for (const route of this.routes) {
+      const match = route.pattern.exec(request.url);
+      if (match === null) {
+        continue;
+      }
+
+      if (route.method !== request.method) {
+        allowed = true;
+        continue;
+      }
+
+      const caller = await this.auth.authenticate(request);
+      if (route.admin) {
+        this.auth.requireAdmin(caller);
+      }
+
+      const params: Record<string, string> = {};
+      for (const [key, value] of Object.entries(match.pathname.groups)) {
+        params[key] = decodeURIComponent(value ?? "");
+      }
+
+      // The changes a request makes to a world are logged as one operation.
+      const origin: ChangeOrigin = {
+        operationId: crypto.randomUUID(),
+        keyPrefix: caller.admin ? "" : caller.key.key_prefix,
+      };
+      const handle = () =>
+        this.origins.run(
+          origin,
+          () => route.handle({ request, params, caller }),
+        );
+      if (caller.admin) {
+        return await handle();
+      }
+
+      // All keys of an account share the budget of its plan, which is read
+      // on every request, and each key has a budget of its own.
+      const limit = caller.limit.quota_requests_per_min;
+      const decision = this.rateLimiter.takeAll([
+        { id: `account:${caller.account.account_id}`, limit },
+        {
+          id: `key:${caller.key.key_hash}`,
+          limit: this.options.keyRequestsPerMin ?? limit,
+        },
+      ]);
+      const headers = rateLimitHeaders(decision);
+      if (!decision.allowed) {
+        throw new HttpError(429, "Rate limit exceeded", headers);
+      }
+
+      const response = await this.meter.run({
+        accountId: caller.account.account_id,
+        keyPrefix: caller.key.key_prefix,
+        endpoint: route.endpoint,
+      }, handle);
+      for (const [name, value] of Object.entries(headers)) {
+        response.headers.set(name, value);
+      }
+
+      return response;
+    }
+
+    if (allowed) {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    throw new HttpError(404, "Not found");
+  }
+
+  private createRoutes(basePath: string): Route[] {
+    const route = (
+      method: string,
+      pathname: string,
+      handle: (context: RouteContext) => Promise<Response>,
+      admin = false,
+    ): Route => ({
+      method,
+      endpoint: `${method} ${pathname}`,
+      pattern: new URLPattern({ pathname: basePath + pathname }),
+      admin,
+      handle,
+    });
+
+    return [
+      // Control plane (internal).
+      route("POST", "/accounts", (c) => this.createAccount(c), true),
+      route("GET", "/accounts", () => this.listAccounts(), true),
+      route("GET", "/accounts/:account", (c) => this.getAccount(c), true),
+      route("PUT", "/accounts/:account", (c) => this.updateAccount(c), true),
+      route(
+        "DELETE",
+        "/accounts/:account",
+        (c) => this.removeAccount(c),
+        true,
+      ),
+      route(
+        "GET",
+        "/accounts/:account/worlds",
+        (c) => this.getWorldsByAccount(c),
+        true,
+      ),
+      route(
+        "POST",
+        "/accounts/:account/rotate",
+        (c) => this.rotateAccountKey(c),
+        true,
+      ),
+      route(
+        "POST",
+        "/accounts/:account/keys",
+        (c) => this.createApiKey(c),
+        true,
+      ),
+      route(
+        "GET",
+        "/accounts/:account/keys",
+        (c) => this.listApiKeys(c),
+        true,
+      ),
+      route(
+        "DELETE",
+        "/accounts/:account/keys/:key",
+        (c) => this.revokeApiKey(c),
+        true,
+      ),
+      route("GET", "/usage/:account", (c) => this.getUsage(c), true),
+      route("GET", "/limits/:plan", (c) => this.getLimits(c), true),
+      route("PUT", "/limits/:plan", (c) => this.setLimits(c), true),
+
+      // Control plane (public).
+      route("GET", "/worlds", (c) => this.getWorlds(c)),
+      route("POST", "/worlds", (c) => this.importWorld(c)),
+      route("GET", "/worlds/:world", (c) => this.getWorld(c)),
+      route("PUT", "/worlds/:world", (c) => this.setWorld(c)),
+      route("PATCH", "/worlds/:world", (c) => this.updateMetadata(c)),
+      route("POST", "/worlds/:world", (c) => this.addQuads(c)),
+      route("DELETE", "/worlds/:world", (c) => this.removeWorld(c)),
+      route("GET", "/worlds/:world/settings", (c) => this.getSettings(c)),
+      route("PATCH", "/worlds/:world/settings", (c) => this.updateSettings(c)),
+      route("POST", "/worlds/:world/sparql", (c) => this.sparql(c)),
+      route("POST", "/worlds/:world/forget", (c) => this.forgetResource(c)),
+      route("POST", "/worlds/:world/fork", (c) => this.forkWorld(c)),
+      route("POST", "/worlds/:world/merge", (c) => this.mergeWorld(c)),
+      route("GET", "/worlds/:world/storage", (c) => this.getStorageUsage(c)),
+      route("GET", "/worlds/:world/database", (c) => this.exportWorld(c)),
+      route("GET", "/worlds/:world/changes", (c) => this.getChanges(c)),
+      route("GET", "/worlds/:world/events", (c) => this.watchWorld(c)),
+      route("POST", "/worlds/:world/snapshots", (c) => this.createSnapshot(c)),
+      route("GET", "/worlds/:world/snapshots", (c) => this.listSnapshots(c)),
+      route("GET", "/worlds/:world/diff", (c) => this.diffWorld(c)),
+      route("POST", "/worlds/:world/restore", (c) => this.restoreWorld(c)),
+      route(
+        "GET",
+        "/worlds/:world/statements",
+        (c) => this.searchStatements(c),
+      ),
+      route(
+        "GET",
+        "/worlds/:world/statements/:statement",
+        (c) => this.getStatement(c),
+      ),
+      route("GET", "/worlds/:world/chunks", (c) => this.searchChunks(c)),
+      route("GET", "/worlds/:world/chunks/:chunk", (c) => this.getChunk(c)),
+    ];
+  }
+
+  // ACCOUNTS.
+
+  private async createAccount({ request }: RouteContext): Promise<Response> {
+    const account = await readAccount(request);
+    if (await this.sys.getAccount(account.id) !== null) {
+      throw new HttpError(409, `Account ${account.id} already exists`);
+    }
+
+    const now = Date.now();
+    const row: AccountRow = {
+      account_id: account.id,
+      description: account.description,
+      plan: account.plan,
+      created_at: now,
+      updated_at: now,
+    };
+    await this.sys.insertAccount(row);
+    await this.sys.setAccountWorlds(account.id, account.accessControl.worlds);
+    const { secret } = await this.issueApiKey(account.id);
+    return json(
+      toWorldsAccount(row, account.accessControl.worlds, secret),
+      { status: 201 },
+    );
+  }
+
+  private async listAccounts(): Promise<Response> {
+    const accounts = await this.sys.listAccounts();
+    return json(
+      await Promise.all(
+        accounts.map(async (row) =>
+          toWorldsAccount(row, await this.sys.getAccountWorlds(row.account_id))
+        ),
+      ),
+    );
+  }
+
+  private async getAccount({ params }: RouteContext): Promise<Response> {
+    const row = await this.requireAccount(params.account);
+    return json(
+      toWorldsAccount(row, await this.sys.getAccountWorlds(row.account_id)),
+    );
+  }
+
+  private async updateAccount(
+    { request, params }: RouteContext,
+  ): Promise<Response> {
+    const account = await readAccount(request);
+    if (account.id !== params.account) {
+      throw new HttpError(400, "Account ID does not match the URL");
+    }
+
+    const row = await this.requireAccount(params.account);
+    await this.sys.updateAccount({
+      ...row,
+      description: account.description,
+      plan: account.plan,
+      updated_at: Date.now(),
+    });
+    await this.sys.setAccountWorlds(
+      row.account_id,
+      account.accessControl.worlds,
+    );
+    return noContent();
+  }
+
+  private async removeAccount({ params }: RouteContext): Promise<Response> {
+    const row = await this.requireAccount(params.account);
+    const worlds = await this.sys.listWorlds(row.account_id);
+    await this.sys.removeAccount(row.account_id);
+    for (const world of worlds) {
+      await this.sys.revokeWorld(world.world_id);
+      this.engine.closeWorld(world.world_id);
+      await this.databases.remove(world.world_id);
+      this.events.publish(world.world_id, { type: "deleted" });
+    }
+
+    return noContent();
+  }
+
+  private async getWorldsByAccount(
+    { params }: RouteContext,
+  ): Promise<Response> {
+    const row = await this.requireAccount(params.account);
+    const worlds = await this.sys.listWorlds(row.account_id);
+    return json(worlds.map(toWorldMetadata));
+  }
+
+  private async rotateAccountKey({ params }: RouteContext): Promise<Response> {
+    const row = await this.requireAccount(params.account);
+
+    // Only the unnamed account key is rotated; named keys are revoked one by
+    // one.
+    for (const key of await this.sys.listApiKeys(row.account_id)) {
+      if (key.name === null) {
+        await this.sys.removeApiKey(key.key_hash);
+      }
+    }
+
+    const { secret } = await this.issueApiKey(row.account_id);
+    return json(
+      toWorldsAccount(
+        row,
+        await this.sys.getAccountWorlds(row.account_id),
+        secret,
+      ),
+    );
+  }
+
+  private async createApiKey(
+    { request, params }: RouteContext,
+  ): Promise<Response> {
+    const row = await this.requireAccount(params.account);
+    const input = await readJson(request) as CreateApiKeyInput;
+    if (
+      typeof input !== "object" || input === null ||
+      typeof input.name !== "string" || input.name.trim() === "" ||
+      (input.ttl !== undefined &&
+        (!Number.isSafeInteger(input.ttl) || input.ttl <= 0)) ||
+      (input.worlds !== undefined &&
+        (!Array.isArray(input.worlds) ||
+          input.worlds.some((worldId) => !WORLD_ID.test(worldId))))
+    ) {
+      throw new HttpError(
+        400,
+        "Expected { name: string, ttl?: number, worlds?: string[] }",
+      );
+    }
+
+    const worldIds = [...new Set(input.worlds ?? [])];
+    const { secret, key } = await this.issueApiKey(row.account_id, {
+      name: input.name,
+      expires_at: input.ttl === undefined ? null : Date.now() + input.ttl,
+    }, worldIds);
+    return json({ ...toApiKey(key, worldIds), apiKey: secret }, {
+      status: 201,
+    });
+  }
+
+  private async listApiKeys({ params }: RouteContext): Promise<Response> {
+    const row = await this.requireAccount(params.account);
+    const keys = await this.sys.listApiKeys(row.account_id);
+    return json(
+      await Promise.all(
+        keys.map(async (key) =>
+          toApiKey(key, await this.sys.getApiKeyWorlds(key.key_hash))
+        ),
+      ),
+    );
+  }
+
+  private async revokeApiKey({ params }: RouteContext): Promise<Response> {
+    const row = await this.requireAccount(params.account);
+    const keys = await this.sys.listApiKeys(row.account_id);
+    const key = keys.find((key) => key.key_prefix === params.key);
+    if (key === undefined) {
+      throw new HttpError(404, `API key ${params.key} not found`);
+    }
+
+    await this.sys.removeApiKey(key.key_hash);
+    return noContent();
+  }
+
+  private async getUsage(
+    { request, params }: RouteContext,
+  ): Promise<Response> {
+    const row = await this.requireAccount(params.account);
+    const filter = usageFilter(new URL(request.url).searchParams);
+    await this.meter.flush();
+    const usage = (await this.sys.getUsage(row.account_id, filter))
+      .map(toUsageBucket);
+    if (mediaType(request.headers.get("Accept")) === "text/csv") {
+      return new Response(toUsageCsv(usage), {
+        headers: {
+          "Content-Type": "text/csv",
+          "Content-Disposition":
+            `attachment; filename="usage-${row.account_id}.csv"`,
+        },
+      });
+    }
+
+    return json(usage);
+  }
+
+  private async getLimits({ params }: RouteContext): Promise<Response> {
+    const row = await this.sys.getLimit(params.plan);
+    if (row === null) {
+      throw new HttpError(404, `Plan ${params.plan} not found`);
+    }
+
+    return json(toLimit(row));
+  }
+
+  private async setLimits(
+    { request, params }: RouteContext,
+  ): Promise<Response> {
+    const limit = await readJson(request) as Limit;
+    if (
+      typeof limit !== "object" || limit === null ||
+      limit.plan !== params.plan ||
+      !Number.isInteger(limit.quotaRequestsPerMin) ||
+      !Number.isInteger(limit.quotaStorageBytes) ||
+      typeof limit.allowReasoning !== "boolean"
+    ) {
+      throw new HttpError(400, "Invalid limit");
+    }
+
+    await this.sys.setLimit(toLimitRow(limit));
+    return noContent();
+  }
+
+  // WORLDS.
+
+  private async getWorlds({ caller }: RouteContext): Promise<Response> {
+    const worlds = await this.sys.listWorlds();
+    return json(
+      worlds.filter((world) => canAccessWorld(caller, world.world_id))
+        .map(toWorldMetadata),
+    );
+  }
+
+  private async importWorld(
+    { request, caller }: RouteContext,
+  ): Promise<Response> {
+    if (caller.admin) {
+      throw new HttpError(400, "Worlds are created with an account API key");
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const worldId = searchParams.get("worldId") ?? crypto.randomUUID();
+    if (!WORLD_ID.test(worldId)) {
+      throw new HttpError(400, `Invalid world ID: ${worldId}`);
+    }
+
+    const existing = await this.sys.getWorld(worldId);
+    if (existing !== null && existing.deleted_at === null) {
+      throw new HttpError(409, `World ${worldId} already exists`);
+    }
+
+    this.auth.authorizeNewWorld(caller, worldId);
+    const file = new Uint8Array(await request.arrayBuffer());
+    await this.checkStorage(caller.account.account_id, file.byteLength);
+    await this.databases.attach(worldId, file);
+    const now = Date.now();
+    const world: WorldRow = {
+      world_id: worldId,
+      account_id: caller.account.account_id,
+      name: searchParams.get("name") ?? worldId,
+      description: null,
+      created_at: now,
+      updated_at: now,
+      deleted_at: null,
+      is_public: 0,
+    };
+    await this.sys.setWorld(world);
+    await this.sys.grantWorld(caller.account.account_id, worldId);
+    await this.recordStorage(world);
+    return json(toWorldMetadata(world), { status: 201 });
+  }
+
+  private async getWorld(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const accept = mediaType(request.headers.get("Accept"));
+    const format = accept === "" || accept === "*/*" ? N_QUADS : accept;
+    const graph = graphFormats.includes(format)
+      ? oxigraph.defaultGraph()
+      : undefined;
+    const at = new URL(request.url).searchParams.get("at");
+    const past = at === null
+      ? null
+      : await this.worldAt(world, await this.changeIdAt(world, at));
+    let body: string;
+    try {
+      body = past === null
+        ? await this.engine.dump(world.world_id, format, graph)
+        : past.dump({ format, from_graph_name: graph });
+    } catch (error) {
+      throw new HttpError(
+        406,
+        `Cannot serialize the world as ${format}: ${errorMessage(error)}`,
+      );
+    }
+
+    return new Response(body, { headers: { "Content-Type": format } });
+  }
+
+  private async setWorld(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    if (!WORLD_ID.test(params.world)) {
+      throw new HttpError(400, `Invalid world ID: ${params.world}`);
+    }
+
+    const existing = await this.sys.getWorld(params.world);
+    const quads = await readQuads(request);
+    let world: WorldRow;
+    if (existing === null || existing.deleted_at !== null) {
+      if (caller.admin) {
+        throw new HttpError(400, "Worlds are created with an account API key");
+      }
+
+      this.auth.authorizeNewWorld(caller, params.world);
+      await this.checkStorage(caller.account.account_id, quadBytes(quads));
+      const now = Date.now();
+      world = {
+        world_id: params.world,
+        account_id: caller.account.account_id,
+        name: params.world,
+        description: null,
+        created_at: now,
+        updated_at: now,
+        deleted_at: null,
+        is_public: 0,
+      };
+      await this.sys.setWorld(world);
+      await this.sys.grantWorld(caller.account.account_id, params.world);
+    } else {
+      this.auth.authorizeWorld(caller, existing);
+      await this.checkStorage(
+        existing.account_id,
+        quadBytes(quads),
+        existing.world_id,
+      );
+      world = { ...existing, updated_at: Date.now() };
+      await this.sys.setWorld(world);
+    }
+
+    await this.engine.replaceQuads(params.world, quads);
+    await this.recordStorage(world);
+    this.events.publish(world.world_id, { type: "changed" });
+    return noContent();
+  }
+
+  private async updateMetadata(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const metadata = await readJson(request) as Partial<WorldMetadata>;
+    if (
+      typeof metadata !== "object" || metadata === null ||
+      (metadata.name !== undefined && typeof metadata.name !== "string") ||
+      (metadata.description !== undefined && metadata.description !== null &&
+        typeof metadata.description !== "string") ||
+      (metadata.isPublic !== undefined &&
+        typeof metadata.isPublic !== "boolean")
+    ) {
+      throw new HttpError(400, "Invalid world metadata");
+    }
+
+    const updated: WorldRow = {
+      ...world,
+      name: metadata.name ?? world.name,
+      description: metadata.description === undefined
+        ? world.description
+        : metadata.description,
+      is_public: metadata.isPublic === undefined
+        ? world.is_public
+        : Number(metadata.isPublic),
+      updated_at: Date.now(),
+    };
+    await this.sys.setWorld(updated);
+    this.events.publish(world.world_id, {
+      type: "metadata",
+      metadata: toWorldMetadata(updated),
+    });
+    return noContent();
+  }
+
+  private async getSettings(
+    { params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    return json(
+      {
+        chunking: await this.databases.chunking(world.world_id),
+      } satisfies WorldSettings,
+    );
+  }
+
+  private async updateSettings(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const settings = await readJson(request) as Partial<WorldSettings>;
+    if (typeof settings !== "object" || settings === null) {
+      throw new HttpError(400, "Invalid world settings");
+    }
+
+    if (settings.chunking !== undefined) {
+      await this.databases.setChunking(
+        world.world_id,
+        parseChunkingSettings(settings.chunking),
+      );
+    }
+
+    return json(
+      {
+        chunking: await this.databases.chunking(world.world_id),
+      } satisfies WorldSettings,
+    );
+  }
+
+  private async addQuads(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const quads = await readQuads(request);
+    await this.checkStorage(world.account_id, quadBytes(quads));
+    await this.engine.addQuads(world.world_id, quads);
+    await this.touchWorld(world);
+    return noContent();
+  }
+
+  private async removeWorld(
+    { params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const now = Date.now();
+    await this.sys.setWorld({ ...world, updated_at: now, deleted_at: now });
+    await this.sys.revokeWorld(world.world_id);
+    this.engine.closeWorld(world.world_id);
+    await this.databases.remove(world.world_id);
+    this.events.publish(world.world_id, { type: "deleted" });
+    return noContent();
+  }
+
+  private async sparql(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const type = mediaType(request.headers.get("Content-Type"));
+    const body = await request.text();
+    switch (type) {
+      case "application/sparql-query": {
+        const form = sparqlQueryForm(body);
+        const format = form === "CONSTRUCT" || form === "DESCRIBE"
+          ? "application/n-triples"
+          : SPARQL_RESULTS_JSON;
+        const result = await this.engine.query(world.world_id, body, {
+          resultsFormat: format,
+        });
+        return new Response(result as string, {
+          headers: { "Content-Type": format },
+        });
+      }
+
+      case "application/sparql-update": {
+        const result = await this.engine.update(world.world_id, body, {
+          validate: (delta) =>
+            this.checkStorage(
+              world.account_id,
+              quadBytes(delta.insertions) - quadBytes(delta.deletions),
+            ),
+        });
+        await this.touchWorld(world);
+        return json(result);
+      }
+
+      default: {
+        throw new HttpError(
+          415,
+          "Expected application/sparql-query or application/sparql-update",
+        );
+      }
+    }
+  }
+
+  private async forgetResource(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const body = await readJson(request) as { iri?: unknown; dryRun?: unknown };
+    if (
+      typeof body !== "object" || body === null ||
+      typeof body.iri !== "string" ||
+      (body.dryRun !== undefined && typeof body.dryRun !== "boolean")
+    ) {
+      throw new HttpError(400, "Expected { iri: string, dryRun?: boolean }");
+    }
+
+    const result = await this.engine.forgetResource(world.world_id, body.iri, {
+      dryRun: body.dryRun,
+    });
+    if (!result.dryRun) {
+      await this.touchWorld(world);
+    }
+
+    return json(result);
+  }
+
+  private async forkWorld(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const source = await this.requireWorld(params.world, caller);
+    const body = await readJson(request) as {
+      worldId?: unknown;
+      name?: unknown;
+    };
+    if (
+      typeof body !== "object" || body === null ||
+      (body.worldId !== undefined &&
+        (typeof body.worldId !== "string" || !WORLD_ID.test(body.worldId))) ||
+      (body.name !== undefined && typeof body.name !== "string")
+    ) {
+      throw new HttpError(400, "Expected { worldId?: string, name?: string }");
+    }
+
+    const worldId = body.worldId ?? crypto.randomUUID();
+    const existing = await this.sys.getWorld(worldId);
+    if (existing !== null && existing.deleted_at === null) {
+      throw new HttpError(409, `World ${worldId} already exists`);
+    }
+
+    if (!caller.admin) {
+      this.auth.authorizeNewWorld(caller, worldId);
+    }
+
+    await this.checkStorage(
+      source.account_id,
+      await this.databases.size(source.world_id),
+    );
+    const now = Date.now();
+    const world: WorldRow = {
+      ...source,
+      world_id: worldId,
+      name: body.name ?? source.name,
+      created_at: now,
+      updated_at: now,
+      deleted_at: null,
+    };
+    // The database is copied before the world is registered, so that a
+    // failed copy leaves no world behind.
+    await this.databases.copy(source.world_id, worldId);
+    try {
+      await this.sys.setWorld(world);
+      await this.sys.grantWorld(world.account_id, worldId);
+      if (!caller.admin) {
+        await this.sys.grantWorld(caller.account.account_id, worldId);
+      }
+    } catch (error) {
+      await this.databases.remove(worldId);
+      throw error;
+    }
+
+    await this.recordStorage(world);
+    return json(toWorldMetadata(world), { status: 201 });
+  }
+
+  private async mergeWorld(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const target = await this.requireWorld(params.world, caller);
+    const body = await readJson(request) as {
+      sourceId?: unknown;
+      strategy?: unknown;
+      dryRun?: unknown;
+      functionalPredicates?: unknown;
+    };
+    if (
+      typeof body !== "object" || body === null ||
+      typeof body.sourceId !== "string" ||
+      !mergeStrategies.includes(body.strategy as MergeStrategy) ||
+      (body.dryRun !== undefined && typeof body.dryRun !== "boolean") ||
+      (body.functionalPredicates !== undefined &&
+        (!Array.isArray(body.functionalPredicates) ||
+          body.functionalPredicates.some((iri) => typeof iri !== "string")))
+    ) {
+      throw new HttpError(
+        400,
+        `Expected { sourceId: string, strategy: ${
+          mergeStrategies.join(" | ")
+        }, dryRun?: boolean, functionalPredicates?: string[] }`,
+      );
+    }
+
+    const source = await this.requireWorld(body.sourceId, caller);
+    if (source.world_id === target.world_id) {
+      throw new HttpError(400, "Cannot merge a world into itself");
+    }
+
+    const dryRun = body.dryRun ?? false;
+    const plan = await this.engine.merge(source.world_id, target.world_id, {
+      strategy: body.strategy as MergeStrategy,
+      functionalPredicates: body.functionalPredicates as string[] | undefined,
+      dryRun,
+      validate: (delta) =>
+        this.checkStorage(
+          target.account_id,
+          quadBytes(delta.insertions) - quadBytes(delta.deletions),
+        ),
+    });
+    if (!dryRun) {
+      await this.touchWorld(target);
+    }
+
+    const result: MergeResult = {
+      inserted: plan.insertions.length,
+      deleted: plan.deletions.length,
+      conflicts: plan.conflicts,
+      dryRun,
+    };
+    if (dryRun) {
+      result.diff = {
+        insertions: toNQuads(plan.insertions),
+        deletions: toNQuads(plan.deletions),
+      };
+    }
+
+    return json(result);
+  }
+
+  private async getStorageUsage(
+    { params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    // Storage is measured after every write, so reads leave the world alone.
+    const worldBytes =
+      (await this.sys.getWorldStorage(world.world_id))?.storage_bytes ?? 0;
+    const { limit, usage } = await this.storageUsage(world.account_id);
+    return json(
+      {
+        worldId: world.world_id,
+        accountId: world.account_id,
+        worldBytes,
+        accountBytes: usage,
+        quotaBytes: limit,
+      } satisfies StorageUsage,
+    );
+  }
+
+  private async exportWorld(
+    { params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    return new Response(await this.databases.export(world.world_id), {
+      headers: {
+        "Content-Type": "application/vnd.sqlite3",
+        "Content-Disposition":
+          `attachment; filename="world_${world.world_id}.db"`,
+      },
+    });
+  }
+
+  private async getChanges(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const searchParams = new URL(request.url).searchParams;
+    const { statements } = await this.databases.open(world.world_id);
+    const changes = await statements.getChanges({
+      since: countParam(searchParams, "since"),
+      limit: Math.min(
+        countParam(searchParams, "limit") ?? maxChanges,
+        maxChanges,
+      ),
+    });
+    return json(changes.map(toChange));
+  }
+
+  private async watchWorld(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const searchParams = new URL(request.url).searchParams;
+
+    // EventSource clients resume with the Last-Event-ID header.
+    const lastEventId = request.headers.get("Last-Event-ID");
+    if (!searchParams.has("since") && lastEventId !== null) {
+      searchParams.set("since", lastEventId);
+    }
+
+    const { statements } = await this.databases.open(world.world_id);
+    const since = countParam(searchParams, "since") ??
+      await statements.getChangeIdAt(Date.now());
+    // A feed that would resume from pruned changes fails before it opens.
+    await statements.getChanges({ since, limit: 0 });
+    const body = this.events.stream(world.world_id, {
+      since,
+      readPatches: (since) => this.readPatches(world, since),
+      signal: request.signal,
+    });
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+      },
+    });
+  }
+
+  private async createSnapshot(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const body = await readJson(request) as { name?: unknown };
+    if (
+      typeof body !== "object" || body === null ||
+      typeof body.name !== "string" || body.name.trim() === ""
+    ) {
+      throw new HttpError(400, "Expected { name: string }");
+    }
+
+    const { statements } = await this.databases.open(world.world_id);
+    const now = Date.now();
+    const snapshot: SnapshotRow = {
+      snapshot_id: crypto.randomUUID(),
+      name: body.name,
+      change_id: await statements.getChangeIdAt(now),
+      created_at: now,
+    };
+    await statements.insertSnapshot(snapshot);
+    return json(toSnapshot(world.world_id, snapshot), { status: 201 });
+  }
+
+  private async listSnapshots(
+    { params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const { statements } = await this.databases.open(world.world_id);
+    const snapshots = await statements.listSnapshots();
+    return json(snapshots.map((row) => toSnapshot(world.world_id, row)));
+  }
+
+  private async diffWorld(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const searchParams = new URL(request.url).searchParams;
+    const from = searchParams.get("from");
+    if (from === null) {
+      throw new HttpError(400, "Missing from parameter");
+    }
+
+    const to = searchParams.get("to");
+    const { insertions, deletions } = diffStores(
+      await this.worldAt(world, await this.changeIdAt(world, from)),
+      await this.worldAt(
+        world,
+        to === null ? undefined : await this.changeIdAt(world, to),
+      ),
+    );
+    return json(
+      {
+        insertions: toNQuads(insertions),
+        deletions: toNQuads(deletions),
+      } satisfies WorldDiff,
+    );
+  }
+
+  private async restoreWorld(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const body = await readJson(request) as { snapshotId?: unknown };
+    if (
+      typeof body !== "object" || body === null ||
+      typeof body.snapshotId !== "string"
+    ) {
+      throw new HttpError(400, "Expected { snapshotId: string }");
+    }
+
+    const target = await this.worldAt(
+      world,
+      await this.changeIdAt(world, body.snapshotId, true),
+    );
+    const { insertions, deletions } = diffStores(
+      await this.worldAt(world),
+      target,
+    );
+    await this.checkStorage(
+      world.account_id,
+      quadBytes(insertions) - quadBytes(deletions),
+    );
+    const result = await this.engine.replaceQuads(
+      world.world_id,
+      target.match(),
+    );
+    await this.touchWorld(world);
+    return json(result satisfies UpdateResult);
+  }
+
+  private async searchStatements(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const { statements } = await this.databases.open(world.world_id);
+    const results = await statements.searchStatements(
+      searchQuery(request),
+      searchLimit(request),
+    );
+    return json(
+      results.map((result) => ({ ...result, item: toStatement(result.item) })),
+    );
+  }
+
+  private async getStatement(
+    { params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const { statements } = await this.databases.open(world.world_id);
+    const row = await statements.getStatement(parseId(params.statement));
+    if (row === null) {
+      throw new HttpError(404, `Statement ${params.statement} not found`);
+    }
+
+    return json(toStatement(row));
+  }
+
+  private async searchChunks(
+    { request, params, caller }: RouteContext,
+  ): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const { statements } = await this.databases.open(world.world_id);
+    const results = await statements.searchChunks(
+      searchQuery(request),
+      searchLimit(request),
+    );
+    return json(
+      results.map((result) => ({ ...result, item: toChunk(result.item) })),
+    );
+  }
+
+  private async getChunk({ params, caller }: RouteContext): Promise<Response> {
+    const world = await this.requireWorld(params.world, caller);
+    const { statements } = await this.databases.open(world.world_id);
+    const row = await statements.getChunk(parseId(params.chunk));
+    if (row === null) {
+      throw new HttpError(404, `Chunk ${params.chunk} not found`);
+    }
+
+    return json(toChunk(row));
+  }
+
+  // HELPERS.
+
+  private async requireAccount(accountId: string): Promise<AccountRow> {
+    const row = await this.sys.getAccount(accountId);
+    if (row === null) {
+      throw new HttpError(404, `Account ${accountId} not found`);
+    }
+
+    return row;
+  }
+
+  /**
+   * requireWorld returns a world the caller may access.
+   */
+  private async requireWorld(
+    worldId: string,
+    caller: Caller,
+  ): Promise<WorldRow> {
+    const row = await this.sys.getWorld(worldId);
+    if (row === null || row.deleted_at !== null) {
+      throw new HttpError(404, `World ${worldId} not found`);
+    }
+
+    this.auth.authorizeWorld(caller, row);
+    return row;
+  }
+
+  /**
+   * changeIdAt resolves a point in the history of a world to the last change
+   * before it. A point is a snapshot ID or a time in milliseconds since the
+   * epoch, unless only snapshots are allowed.
+   */
+  private async changeIdAt(
+    world: WorldRow,
+    point: string,
+    snapshotOnly = false,
+  ): Promise<number> {
+    const { statements } = await this.databases.open(world.world_id);
+    if (!snapshotOnly && /^\d+$/.test(point)) {
+      return await statements.getChangeIdAt(Number(point));
+    }
+
+    const snapshot = await statements.getSnapshot(point);
+    if (snapshot === null) {
+      throw new HttpError(404, `Snapshot ${point} not found`);
+    }
+
+    return snapshot.change_id;
+  }
+
+  /**
+   * worldAt rebuilds a world as it was after a change, or as it is now.
+   */
+  private async worldAt(
+    world: WorldRow,
+    changeId?: number,
+  ): Promise<oxigraph.Store> {
+    const { statements } = await this.databases.open(world.world_id);
+    const rows = changeId === undefined
+      ? await statements.matchStatements({})
+      : await statements.getStatementsAt(changeId);
+    return new oxigraph.Store(
+      rows.map((row) =>
+        statementRowToQuad(row, oxigraph as rdfjs.DataFactory) as oxigraph.Quad
+      ),
+    );
+  }
+
+  /**
+   * readPatches reads a page of the change log of a world after a change ID,
+   * grouped into one patch per operation.
+   */
+  private async readPatches(
+    world: WorldRow,
+    since: number,
+  ): Promise<WorldPatchEvent[]> {
+    const { statements } = await this.databases.open(world.world_id);
+    const changes = await statements.getChanges({ since, limit: maxChanges });
+    const patches: WorldPatchEvent[] = [];
+    let operation: ChangeRow[] = [];
+    for (const [i, change] of changes.entries()) {
+      operation.push(change);
+      if (changes[i + 1]?.operation_id !== change.operation_id) {
+        patches.push(toPatchEvent(operation));
+        operation = [];
+      }
+    }
+
+    return patches;
+  }
+
+  /**
+   * touchWorld records a write to a world: its update time and its storage,
+   * after the changes that outlived the change retention are pruned. The
+   * event streams of the world are told to read the new changes.
+   */
+  private async touchWorld(world: WorldRow): Promise<void> {
+    await this.sys.setWorld({ ...world, updated_at: Date.now() });
+    await this.databases.pruneChanges(world.world_id);
+    await this.recordStorage(world);
+    this.events.publish(world.world_id, { type: "changed" });
+  }
+
+  /**
+   * recordStorage measures the storage of a world and returns it.
+   */
+  private async recordStorage(world: WorldRow): Promise<number> {
+    const bytes = await this.databases.size(world.world_id);
+    await this.sys.setWorldStorage({
+      world_id: world.world_id,
+      account_id: world.account_id,
+      storage_bytes: bytes,
+      measured_at: Date.now(),
+    });
+    return bytes;
+  }
+
+  /**
+   * checkStorage rejects a write that would take an account over the
+   * storage quota of its plan with 413. The delta is estimated from the size
+   * of the written terms, so writes that shrink a world always pass. The
+   * storage of a world that is being replaced does not count.
+   */
+  private async checkStorage(
+    accountId: string,
+    delta: number,
+    replacedWorldId?: string,
+  ): Promise<void> {
+    if (delta <= 0) {
+      return;
+    }
+
+    const { limit, usage } = await this.storageUsage(accountId);
+    const replaced = replacedWorldId === undefined
+      ? 0
+      : (await this.sys.getWorldStorage(replacedWorldId))?.storage_bytes ?? 0;
+    if (usage - replaced + delta > limit) {
+      throw new HttpError(
+        413,
+        `Storage quota of ${limit} bytes exceeded`,
+        {},
+        { usage, limit, delta },
+      );
+    }
+  }
+
+  private async storageUsage(
+    accountId: string,
+  ): Promise<{ limit: number; usage: number }> {
+    const account = await this.requireAccount(accountId);
+    const limit = await this.sys.getLimit(account.plan) ??
+      defaultLimit(account.plan);
+    return {
+      limit: limit.quota_storage_bytes,
+      usage: await this.sys.getAccountStorage(accountId),
+    };
+  }
+
+  /**
+   * issueApiKey generates and stores an API key of an account. The prefix of
+   * the key is unique within the account, so that it identifies the key.
+   */
+  private async issueApiKey(
+    accountId: string,
+    options: Partial<Pick<ApiKeyRow, "name" | "expires_at">> = {},
+    worldIds: string[] = [],
+  ): Promise<{ secret: string; key: ApiKeyRow }> {
+    const prefixes = new Set(
+      (await this.sys.listApiKeys(accountId)).map((key) => key.key_prefix),
+    );
+    let generated = await generateApiKey();
+    while (prefixes.has(generated.prefix)) {
+      generated = await generateApiKey();
+    }
+
+    const key: ApiKeyRow = {
+      key_hash: generated.hash,
+      account_id: accountId,
+      key_prefix: generated.prefix,
+      name: options.name ?? null,
+      created_at: Date.now(),
+      expires_at: options.expires_at ?? null,
+    };
+    await this.sys.insertApiKey(key, worldIds);
+    return { secret: generated.secret, key };
+  }
+}
+
+async function readAccount(request: Request): Promise<WorldsAccount> {
+  const account = await readJson(request);
+  if (!isWorldsAccount(account)) {
+    throw new HttpError(400, "Invalid account");
+  }
+
+  return account;
+}
+
+/**
+ * readQuads parses an RDF request body in the format of its Content-Type.
+ */
+async function readQuads(request: Request): Promise<oxigraph.Quad[]> {
+  const format = mediaType(request.headers.get("Content-Type")) || N_QUADS;
+  const store = new oxigraph.Store();
+  try {
+    store.load(await request.text(), { format });
+  } catch (error) {
+    throw new HttpError(400, `Invalid ${format}: ${errorMessage(error)}`);
+  }
+
+  return store.match();
+}
+
+/**
+ * quadBytes estimates the storage of quads from the UTF-8 size of their
+ * terms.
+ */
+function quadBytes(quads: rdfjs.Quad[]): number {
+  const encoder = new TextEncoder();
+  let bytes = 0;
+  for (const quad of quads) {
+    for (
+      const term of [quad.subject, quad.predicate, quad.object, quad.graph]
+    ) {
+      bytes += encoder.encode(term.value).length;
+    }
+  }
+
+  return bytes;
+}
+
+const mergeStrategies: MergeStrategy[] = [
+  "union",
+  "source-wins",
+  "target-wins",
+];
+
+/**
+ * toNQuads serializes quads as N-Quads.
+ */
+function toNQuads(quads: oxigraph.Quad[]): string {
+  return new oxigraph.Store(quads).dump({ format: N_QUADS });
+}
+
+/**
+ * diffStores returns the quads only in the later and only in the earlier of
+ * two states of a world.
+ */
+function diffStores(
+  before: oxigraph.Store,
+  after: oxigraph.Store,
+): { insertions: oxigraph.Quad[]; deletions: oxigraph.Quad[] } {
+  return {
+    insertions: after.match().filter((quad) => !before.has(quad)),
+    deletions: before.match().filter((quad) => !after.has(quad)),
+  };
+}
+
+/**
+ * toPatchEvent converts the changes of one operation into a patch event.
+ */
+function toPatchEvent(changes: ChangeRow[]): WorldPatchEvent {
+  const quads = (type: ChangeRow["change_type"]) =>
+    toNQuads(
+      changes.filter((change) => change.change_type === type).map((change) =>
+        statementRowToQuad(
+          change,
+          oxigraph as rdfjs.DataFactory,
+        ) as oxigraph.Quad
+      ),
+    );
+  const last = changes[changes.length - 1];
+  return {
+    type: "patch",
+    changeId: last.change_id,
+    operationId: last.operation_id,
+    keyPrefix: last.key_prefix,
+    createdAt: last.created_at,
+    insertions: quads("insert"),
+    deletions: quads("delete"),
+  };
+}
+
+/**
+ * maxChanges is the most changes returned by one request of the change log.
+ */
+const maxChanges = 1_000;
+
+/**
+ * defaultChangeRetentionMs is how long the change log of a world keeps
+ * changes by default: 30 days.
+ */
+const defaultChangeRetentionMs = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * maxSearchLimit is the most results returned by one search.
+ */
+const maxSearchLimit = 100;
+
+const usageGranularities = ["minute", "hour", "day", "month"];
+
+/**
+ * usageFilter parses the query parameters of the usage route.
+ */
+function usageFilter(params: URLSearchParams): UsageFilter {
+  const time = (name: string): number | undefined => {
+    const value = params.get(name);
+    if (value === null) {
+      return undefined;
+    }
+
+    const time = Number(value);
+    if (!Number.isSafeInteger(time)) {
+      throw new HttpError(400, `${name} must be a timestamp in milliseconds`);
+    }
+
+    return time;
+  };
+
+  const granularity = params.get("granularity") ?? undefined;
+  if (
+    granularity !== undefined && !usageGranularities.includes(granularity)
+  ) {
+    throw new HttpError(
+      400,
+      `granularity must be one of ${usageGranularities.join(", ")}`,
+    );
+  }
+
+  return {
+    start: time("start"),
+    end: time("end"),
+    endpoint: params.get("endpoint") ?? undefined,
+    keyPrefix: params.get("key") ?? undefined,
+    granularity: granularity as UsageGranularity | undefined,
+  };
+}
+
+/**
+ * countParam parses a query parameter that must be a non-negative integer.
+ */
+function countParam(
+  params: URLSearchParams,
+  name: string,
+): number | undefined {
+  const value = params.get(name);
+  if (value === null) {
+    return undefined;
+  }
+
+  const count = Number(value);
+  if (!Number.isSafeInteger(count) || count < 0) {
+    throw new HttpError(400, `${name} must be a non-negative integer`);
+  }
+
+  return count;
+}
+
+function searchQuery(request: Request): string {
+  const query = new URL(request.url).searchParams.get("query");
+  if (query === null || query.trim() === "") {
+    throw new HttpError(400, "Missing query parameter");
+  }
+
+  return query;
+}
+
+/**
+ * searchLimit parses the limit parameter of the search routes, which is
+ * capped at maxSearchLimit.
+ */
+function searchLimit(request: Request): number {
+  const limit = countParam(new URL(request.url).searchParams, "limit");
+  return Math.min(limit ?? defaultSearchLimit, maxSearchLimit);
+}
+
+function parseId(value: string): number {
+  const id = Number(value);
+  if (!Number.isSafeInteger(id)) {
+    throw new HttpError(404, `${value} is not a valid ID`);
+  }
+
+  return id;
+}
+
+function errorResponse(error: unknown): Response {
+  if (error instanceof HttpError) {
+    return problem(
+      error.status,
+      error.message,
+      error.headers,
+      error.extensions,
+    );
+  }
+
+  if (error instanceof SparqlQueryError) {
+    return problem(400, `Invalid query: ${error.message}`);
+  }
+
+  if (error instanceof SparqlUpdateError) {
+    return problem(400, `Invalid update: ${error.message}`);
+  }
+
+  if (error instanceof EmbeddingMismatchError) {
+    return problem(409, error.message);
+  }
+
+  if (error instanceof InvalidChunkingSettingsError) {
+    return problem(400, `Invalid chunking settings: ${error.message}`);
+  }
+
+  if (error instanceof ChangesPrunedError) {
+    return problem(410, error.message);
+  }
+
+  if (error instanceof InvalidWorldFileError) {
+    return problem(400, error.message);
+  }
+
+  if (error instanceof WorldDatabaseExistsError) {
+    return problem(409, error.message);
+  }
+
+  console.error(error);
+  return problem(500, "Internal server error");
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+if (import.meta.main) {
+  const { createClient } = await import("@libsql/client");
+  const adminApiKey = Deno.env.get("WORLDS_ADMIN_API_KEY");
+  if (adminApiKey === undefined) {
+    throw new Error("WORLDS_ADMIN_API_KEY must be set");
+  }
+
+  const dataDir = Deno.env.get("WORLDS_DATA_DIR") ?? "./data";
+  await Deno.mkdir(dataDir, { recursive: true });
+  const server = new WorldsServer({
+    sys: createClient({ url: `file:${dataDir}/sys.db` }),
+    adminApiKey,
+    dataDir,
+  });
+  Deno.serve(
+    { port: Number(Deno.env.get("PORT") ?? 8000) },
+    server.fetch,
+  );
+}
@@ -0,0 +1,123 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { createClient } from "@libsql/client";
+import { applySchema } from "#/utils/schema.ts";
+import { LibsqlSysStore } from "#/sys-store/libsql-sys-store.ts";
+import { HashingEmbeddingProvider } from "#/embeddings/hashing-embedding-provider.ts";
+import { estimateTokens, UsageMeter } from "./usage-meter.ts";
+
+const hour = 3_600_000;
+const day = 24 * hour;
+const march = Date.UTC(2026, 2, 1);
+
+Deno.test("UsageMeter", async (t) => {
+  const client = createClient({ url: ":memory:" });
+  await applySchema(client, "sys");
+  const sys = new LibsqlSysStore(client);
+  await sys.insertAccount({
+    account_id: "acme",
+    description: null,
+    plan: "free",
+    created_at: 0,
+    updated_at: 0,
+  });
+
+  let now = march + 30_000;
+  const meter = new UsageMeter(sys, { now: () => now });
+  const embeddings = meter.meterEmbeddings(new HashingEmbeddingProvider());
+  const context = {
+    accountId: "acme",
+    keyPrefix: "abcd1234",
+    endpoint: "POST /worlds/:world",
+  };
+
+  await t.step("counts requests and tokens into buckets", async () => {
+    // Writes queued behind an earlier promise keep the request's context.
+    let queue = Promise.resolve();
+    await meter.run(context, () => {
+      queue = queue.then(async () => {
+        await embeddings.embed(["Alice Liddell", "Bob"]);
+      });
+      return queue;
+    });
+    await meter.run(context, () => Promise.resolve());
+
+    // Tokens spent outside of a request are not metered.
+    await embeddings.embed(["ignored"]);
+    await meter.flush();
+
+    assertEquals(await sys.getUsage("acme"), [{
+      bucket_start_ts: march,
+      account_id: "acme",
+      key_prefix: "abcd1234",
+      endpoint: "POST /worlds/:world",
+      request_count: 2,
+      token_in_count: estimateTokens("Alice Liddell") + estimateTokens("Bob"),
+      token_out_count: 0,
+    }]);
+  });
+
+  await t.step("adds to stored buckets", async () => {
+    await meter.run(context, () => Promise.resolve());
+    await meter.flush();
+    assertEquals((await sys.getUsage("acme"))[0].request_count, 3);
+  });
+
+  await t.step("filters and rolls up buckets", async () => {
+    for (const time of [march + hour, march + day, march + 31 * day]) {
+      now = time;
+      await meter.run(context, () => Promise.resolve());
+      await meter.run(
+        { ...context, keyPrefix: "efgh5678", endpoint: "GET /worlds" },
+        () => Promise.resolve(),
+      );
+    }
+
+    await meter.flush();
+    const counts = async (filter: Parameters<typeof sys.getUsage>[1]) =>
+      (await sys.getUsage("acme", filter)).map((bucket) => [
+        bucket.bucket_start_ts,
+        bucket.request_count,
+      ]);
+
+    assertEquals(
+      await counts({ keyPrefix: "abcd1234", granularity: "hour" }),
+      [[march, 3], [march + hour, 1], [march + day, 1], [
+        march + 31 * day,
+        1,
+      ]],
+    );
+    assertEquals(
+      await counts({ keyPrefix: "abcd1234", granularity: "day" }),
+      [[march, 4], [march + day, 1], [march + 31 * day, 1]],
+    );
+    assertEquals(
+      await counts({ endpoint: "GET /worlds", granularity: "month" }),
+      [[march, 2], [Date.UTC(2026, 3, 1), 1]],
+    );
+    assertEquals(
+      await counts({ start: march + hour, end: march + day }),
+      [[march + hour, 1], [march + hour, 1]],
+    );
+  });
+
+  await t.step("keeps counts that fail to be written", async () => {
+    const addUsage = sys.addUsage;
+    sys.addUsage = () => Promise.reject(new Error("unavailable"));
+    try {
+      await meter.run(context, () => Promise.resolve());
+      await assertRejects(() => meter.flush(), Error, "unavailable");
+      await meter.run(context, () => Promise.resolve());
+    } finally {
+      sys.addUsage = addUsage;
+    }
+
+    await meter.flush();
+    const [bucket] = await sys.getUsage("acme", {
+      keyPrefix: "abcd1234",
+      start: march + 31 * day,
+    });
+    assertEquals(bucket.request_count, 3);
+  });
+
+  client.close();
+});
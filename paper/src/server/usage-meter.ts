@@ -0,0 +1,188 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { SysStore, UsageBucketRow } from "../../../sqlite/sys.ts";
+import type { EmbeddingProvider } from "#/embeddings/embedding-provider.ts";
+
+/**
+ * usageBucketMs is the size of the stored usage buckets: one minute.
+ */
+export const usageBucketMs = 60_000;
+
+/**
+ * UsageContext identifies who a request is metered to.
+ */
+export interface UsageContext {
+  accountId: string;
+  keyPrefix: string;
+
+  /**
+   * endpoint is the route of the request, e.g. "GET /worlds/:world".
+   */
+  endpoint: string;
+}
+
+/**
+ * UsageMeterOptions configures a UsageMeter.
+ */
+export interface UsageMeterOptions {
+  /**
+   * flushDelay is how long counts are buffered in milliseconds before they
+   * are written to the system database. Defaults to one second.
+   */
+  flushDelay?: number;
+
+  /**
+   * now returns the current time in milliseconds. Defaults to Date.now.
+   */
+  now?: () => number;
+}
+
+/**
+ * UsageMeter counts requests and tokens per account, key, and endpoint into
+ * 1-minute buckets. Counts are buffered in memory and written to kb_usage in
+ * the background, so metering never delays a response. Tokens are attributed
+ * to the request they are spent in through async context, which follows the
+ * request into queued world writes.
+ */
+export class UsageMeter {
+  private readonly context = new AsyncLocalStorage<UsageContext>();
+  private readonly flushDelay: number;
+  private readonly now: () => number;
+  private pending = new Map<string, UsageBucketRow>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+
+  public constructor(
+    private readonly sys: SysStore,
+    options: UsageMeterOptions = {},
+  ) {
+    this.flushDelay = options.flushDelay ?? 1_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * run counts a request and runs its handler in the request's usage context.
+   */
+  public run<T>(context: UsageContext, handle: () => Promise<T>): Promise<T> {
+    this.count(context, { requests: 1 });
+    return this.context.run(context, handle);
+  }
+
+  /**
+   * recordTokens counts tokens spent by the current request. Tokens spent
+   * outside of a request are not metered.
+   */
+  public recordTokens(tokensIn: number, tokensOut = 0): void {
+    const context = this.context.getStore();
+    if (context !== undefined) {
+      this.count(context, { tokensIn, tokensOut });
+    }
+  }
+
+  /**
+   * meterEmbeddings wraps an embedding provider so that the tokens it embeds
+   * are counted as input tokens of the current request.
+   */
+  public meterEmbeddings(provider: EmbeddingProvider): EmbeddingProvider {
+    return {
+      modelId: provider.modelId,
+      dimensions: provider.dimensions,
+      embed: (texts) => {
+        this.recordTokens(
+          texts.reduce((sum, text) => sum + estimateTokens(text), 0),
+        );
+        return provider.embed(texts);
+      },
+    };
+  }
+
+  /**
+   * flush writes the buffered counts to the system database. Counts that
+   * fail to be written are buffered again for the next flush.
+   */
+  public flush(): Promise<void> {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const buckets = [...this.pending.values()];
+    this.pending = new Map();
+    const write = async () => {
+      if (buckets.length === 0) {
+        return;
+      }
+
+      try {
+        await this.sys.addUsage(buckets);
+      } catch (error) {
+        for (const bucket of buckets) {
+          this.merge(bucket);
+        }
+
+        this.schedule();
+        throw error;
+      }
+    };
+
+    // A failed flush does not hold back the next one.
+    this.flushing = this.flushing.then(write, write);
+    return this.flushing;
+  }
+
+  private count(
+    context: UsageContext,
+    counts: { requests?: number; tokensIn?: number; tokensOut?: number },
+  ): void {
+    const now = this.now();
+    this.merge({
+      bucket_start_ts: now - now % usageBucketMs,
+      account_id: context.accountId,
+      key_prefix: context.keyPrefix,
+      endpoint: context.endpoint,
+      request_count: counts.requests ?? 0,
+      token_in_count: counts.tokensIn ?? 0,
+      token_out_count: counts.tokensOut ?? 0,
+    });
+    this.schedule();
+  }
+
+  /**
+   * merge adds the counts of a bucket to the buffered bucket of the same
+   * minute, account, key, and endpoint.
+   */
+  private merge(bucket: UsageBucketRow): void {
+    const id = JSON.stringify([
+      bucket.bucket_start_ts,
+      bucket.account_id,
+      bucket.key_prefix,
+      bucket.endpoint,
+    ]);
+    const pending = this.pending.get(id);
+    if (pending === undefined) {
+      this.pending.set(id, { ...bucket });
+      return;
+    }
+
+    pending.request_count += bucket.request_count;
+    pending.token_in_count += bucket.token_in_count;
+    pending.token_out_count += bucket.token_out_count;
+  }
+
+  /**
+   * schedule flushes the buffered counts after the flush delay, unless a
+   * flush is already scheduled.
+   */
+  private schedule(): void {
+    this.timer ??= setTimeout(() => {
+      this.flush().catch((error) => console.error(error));
+    }, this.flushDelay);
+  }
+}
+
+/**
+ * estimateTokens estimates the number of model tokens of a text at about four
+ * characters per token, since embedding providers do not report usage.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
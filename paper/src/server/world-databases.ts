@@ -0,0 +1,402 @@
+import {
+  type Client,
+  createClient,
+  type InStatement,
+  type ResultSet,
+} from "@libsql/client";
+import {
+  applySchema,
+  schemaVersion,
+  statementsSchemaVersion,
+} from "#/utils/schema.ts";
+import type { EmbeddingProvider } from "#/embeddings/embedding-provider.ts";
+import { assertEmbeddingProvider } from "#/embeddings/embedding-settings.ts";
+import {
+  chunkingSettings,
+  setChunkingSettings,
+} from "#/chunking/chunking-settings.ts";
+import type { RecursiveCharacterSplitterOptions } from "#/chunking/recursive-character-splitter.ts";
+import { LibsqlStatementsStore } from "#/statements-store/libsql-statements-store.ts";
+import {
+  type ChangeOrigin,
+  originStatements,
+} from "#/statements-store/change-log.ts";
+import { StatementsSearchStore } from "#/statements-store/statements-search-store.ts";
+
+/**
+ * WorldDatabasesOptions configures WorldDatabases.
+ */
+export interface WorldDatabasesOptions {
+  /**
+   * dataDir is the directory of the world database files. Worlds are kept in
+   * a temporary directory that is removed on close when unset.
+   */
+  dataDir?: string;
+
+  /**
+   * embeddings embeds the chunks of every world. Worlds are searched by full
+   * text only when unset.
+   */
+  embeddings?: EmbeddingProvider;
+
+  /**
+   * origin returns the origin of the current write, which its changes are
+   * attributed to in the change log of a world.
+   */
+  origin?: () => ChangeOrigin | undefined;
+
+  /**
+   * changeRetentionMs is how long the change log of a world keeps changes,
+   * and so how far back its history reaches. Changes are kept forever when
+   * unset.
+   */
+  changeRetentionMs?: number;
+}
+
+/**
+ * WorldDatabase is the open database of a world.
+ */
+export interface WorldDatabase {
+  client: Client;
+  statements: LibsqlStatementsStore;
+  search: StatementsSearchStore;
+}
+
+/**
+ * InvalidWorldFileError is thrown when a file cannot be attached as the
+ * database of a world.
+ */
+export class InvalidWorldFileError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = "InvalidWorldFileError";
+  }
+}
+
+/**
+ * WorldDatabaseExistsError is thrown when a file is attached as the database
+ * of a world that already has one.
+ */
+export class WorldDatabaseExistsError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = "WorldDatabaseExistsError";
+  }
+}
+
+/**
+ * worldDatabasePath returns the path of the database file of a world.
+ */
+export function worldDatabasePath(dataDir: string, worldId: string): string {
+  return `${dataDir.replace(/\/+$/, "")}/world_${worldId}.db`;
+}
+
+/**
+ * WorldDatabases opens one SQLite database per world, following the
+ * per-world storage layout of the ADR. Databases are opened on first use and
+ * kept open.
+ */
+export class WorldDatabases {
+  private readonly databases = new Map<string, Promise<WorldDatabase>>();
+  private tempDir: Promise<string> | null = null;
+
+  public constructor(private readonly options: WorldDatabasesOptions = {}) {}
+
+  /**
+   * open opens the database of a world, creating it if it does not exist.
+   */
+  public open(worldId: string): Promise<WorldDatabase> {
+    let database = this.databases.get(worldId);
+    if (database === undefined) {
+      database = this.create(worldId);
+      this.databases.set(worldId, database);
+      database.catch(() => this.databases.delete(worldId));
+    }
+
+    return database;
+  }
+
+  /**
+   * size measures the storage of a world in bytes: the pages of its database
+   * in use, which include statements, chunks, vectors, full-text indices,
+   * and the change log.
+   */
+  public async size(worldId: string): Promise<number> {
+    const { client } = await this.open(worldId);
+    const result = await client.execute(
+      `SELECT (page_count - freelist_count) * page_size AS bytes
+        FROM pragma_page_count(), pragma_freelist_count(), pragma_page_size()`,
+    );
+    return Number(result.rows[0].bytes);
+  }
+
+  /**
+   * pruneChanges removes the changes of a world that are older than the
+   * change retention, and the snapshots that point into them, and returns the
+   * number of changes removed.
+   */
+  public async pruneChanges(
+    worldId: string,
+    now = Date.now(),
+  ): Promise<number> {
+    if (this.options.changeRetentionMs === undefined) {
+      return 0;
+    }
+
+    const { statements } = await this.open(worldId);
+    return await statements.pruneChanges(now - this.options.changeRetentionMs);
+  }
+
+  /**
+   * copy copies the statements, chunks, and settings of a world into another
+   * world, which must not have a database yet. Statement and chunk IDs are
+   * kept and embeddings are copied as stored, so nothing is embedded again.
+   * The change log of the copy starts with the copied statements. The
+   * database of the copy is removed again if the copy fails.
+   */
+  public async copy(sourceId: string, targetId: string): Promise<void> {
+    const source = await this.open(sourceId);
+    if (
+      this.databases.has(targetId) ||
+      await exists(worldDatabasePath(await this.dataDir(), targetId))
+    ) {
+      throw new WorldDatabaseExistsError(
+        `World ${targetId} already has a database`,
+      );
+    }
+
+    try {
+      const target = await this.open(targetId);
+      await this.copyRows(source.client, target.client);
+      target.statements.setChunking(await chunkingSettings(target.client));
+    } catch (error) {
+      await this.remove(targetId);
+      throw error;
+    }
+  }
+
+  /**
+   * chunking returns how the text literals of a world are split into chunks.
+   */
+  public async chunking(
+    worldId: string,
+  ): Promise<RecursiveCharacterSplitterOptions | false> {
+    const { client } = await this.open(worldId);
+    return await chunkingSettings(client);
+  }
+
+  /**
+   * setChunking records how the text literals of a world are split into
+   * chunks from now on and applies it to the open database. Chunks that are
+   * already stored are kept.
+   */
+  public async setChunking(
+    worldId: string,
+    chunking: RecursiveCharacterSplitterOptions | false,
+  ): Promise<void> {
+    const { client, statements } = await this.open(worldId);
+    await setChunkingSettings(client, chunking);
+    statements.setChunking(chunking);
+  }
+
+  /**
+   * export streams a consistent snapshot of the database of a world as a
+   * SQLite file, with its chunks, embeddings, full-text indices, and
+   * history.
+   */
+  public async export(worldId: string): Promise<ReadableStream<Uint8Array>> {
+    const { client } = await this.open(worldId);
+    const dir = await Deno.makeTempDir();
+    try {
+      const path = `${dir}/world_${worldId}.db`;
+      await client.execute({ sql: "VACUUM INTO ?", args: [path] });
+      const file = await Deno.open(path);
+      return file.readable;
+    } finally {
+      // The open file stays readable once it is unlinked.
+      await Deno.remove(dir, { recursive: true });
+    }
+  }
+
+  /**
+   * attach makes a SQLite file, such as an exported one, the database of a
+   * world that has none yet, and never replaces an existing database. The
+   * file must be stamped with the current schema version or an earlier one,
+   * which is migrated when the database is opened, and its embeddings must
+   * match the embedding provider.
+   */
+  public async attach(worldId: string, file: Uint8Array): Promise<void> {
+    const header = new TextDecoder().decode(file.subarray(0, 16));
+    if (header !== "SQLite format 3\0") {
+      throw new InvalidWorldFileError("Expected a SQLite database file");
+    }
+
+    const dir = await Deno.makeTempDir();
+    try {
+      const path = `${dir}/world_${worldId}.db`;
+      await Deno.writeFile(path, file);
+      const client = createClient({ url: `file:${path}` });
+      try {
+        const version = await schemaVersion(client);
+        if (version < 1 || version > statementsSchemaVersion) {
+          throw new InvalidWorldFileError(
+            `World database has schema version ${version}, expected 1 to ${statementsSchemaVersion}`,
+          );
+        }
+
+        if (this.options.embeddings !== undefined) {
+          await assertEmbeddingProvider(client, this.options.embeddings);
+        }
+      } finally {
+        client.close();
+      }
+
+      let target: Deno.FsFile;
+      try {
+        target = await Deno.open(
+          worldDatabasePath(await this.dataDir(), worldId),
+          { write: true, createNew: true },
+        );
+      } catch (error) {
+        if (error instanceof Deno.errors.AlreadyExists) {
+          throw new WorldDatabaseExistsError(
+            `World ${worldId} already has a database`,
+          );
+        }
+
+        throw error;
+      }
+
+      const source = await Deno.open(path);
+      await source.readable.pipeTo(target.writable);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  }
+
+  /**
+   * remove closes the database of a world and deletes its file.
+   */
+  public async remove(worldId: string): Promise<void> {
+    const database = this.databases.get(worldId);
+    this.databases.delete(worldId);
+    (await database?.catch(() => null))?.client.close();
+    const path = worldDatabasePath(await this.dataDir(), worldId);
+    for (const file of [path, `${path}-wal`, `${path}-shm`]) {
+      try {
+        await Deno.remove(file);
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * close closes all open databases and removes the temporary directory of
+   * the worlds, if there is one.
+   */
+  public async close(): Promise<void> {
+    const databases = [...this.databases.values()];
+    this.databases.clear();
+    for (const database of await Promise.allSettled(databases)) {
+      if (database.status === "fulfilled") {
+        database.value.client.close();
+      }
+    }
+
+    const tempDir = this.tempDir;
+    this.tempDir = null;
+    if (tempDir !== null) {
+      await Deno.remove(await tempDir, { recursive: true });
+    }
+  }
+
+  /**
+   * dataDir returns the directory of the world database files, creating a
+   * temporary one on first use if none is configured.
+   */
+  private dataDir(): Promise<string> {
+    if (this.options.dataDir !== undefined) {
+      return Promise.resolve(this.options.dataDir);
+    }
+
+    this.tempDir ??= Deno.makeTempDir({ prefix: "worlds_" });
+    return this.tempDir;
+  }
+
+  /**
+   * copyRows copies the statements, chunks, and settings of one world
+   * database into another in one transaction.
+   */
+  private async copyRows(source: Client, target: Client): Promise<void> {
+    const tables = ["kb_statements", "kb_chunks", "kb_settings"];
+    const results = await source.batch(
+      tables.map((table) => `SELECT * FROM ${table}`),
+      "read",
+    );
+    const [begin, end] = originStatements(this.options.origin?.());
+    await target.batch([
+      begin,
+      ...results.flatMap((result, i) => insertRows(tables[i], result)),
+      end,
+    ], "write");
+  }
+
+  private async create(worldId: string): Promise<WorldDatabase> {
+    const client = createClient({
+      url: `file:${worldDatabasePath(await this.dataDir(), worldId)}`,
+    });
+    let chunking: RecursiveCharacterSplitterOptions | false;
+    try {
+      await applySchema(client, "statements", {
+        embeddingDimensions: this.options.embeddings?.dimensions,
+      });
+      chunking = await chunkingSettings(client);
+    } catch (error) {
+      client.close();
+      throw error;
+    }
+
+    const statements = new LibsqlStatementsStore(client, {
+      embeddings: this.options.embeddings,
+      chunking,
+      origin: this.options.origin,
+    });
+    return {
+      client,
+      statements,
+      search: new StatementsSearchStore(statements),
+    };
+  }
+}
+
+/**
+ * exists reports whether a file exists.
+ */
+async function exists(path: string): Promise<boolean> {
+  try {
+    await Deno.stat(path);
+    return true;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return false;
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * insertRows builds the statements that insert the rows of a result into a
+ * table.
+ */
+function insertRows(table: string, result: ResultSet): InStatement[] {
+  const columns = result.columns.join(", ");
+  const values = result.columns.map(() => "?").join(", ");
+  return result.rows.map((row) => ({
+    sql: `INSERT INTO ${table} (${columns}) VALUES (${values})`,
+    args: result.columns.map((column) => row[column]),
+  }));
+}
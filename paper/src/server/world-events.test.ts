@@ -0,0 +1,88 @@
+import { assertEquals } from "@std/assert";
+import { parseEventStream, type WorldPatchEvent } from "../../../sdk/mod.ts";
+import { WorldEvents } from "./world-events.ts";
+
+Deno.test("WorldEvents", async (t) => {
+  const events = new WorldEvents();
+  const log: WorldPatchEvent[] = [1, 2, 3].map(patch);
+  let reads = 0;
+  const readPatches = (since: number) => {
+    reads++;
+    return Promise.resolve(
+      log.filter((event) => event.changeId > since).slice(0, 2),
+    );
+  };
+
+  await t.step("replays patches, then follows the world live", async () => {
+    const stream = events.stream("notes", { since: 1, readPatches });
+    const messages = parseEventStream(stream);
+    const next = async () => (await messages.next()).value;
+
+    // The stream opens with the change ID it resumes after.
+    assertEquals(await next(), { id: "1", event: "message", data: "" });
+
+    // Replayed in pages until no patches are left.
+    assertEquals(await next(), {
+      id: "2",
+      event: "patch",
+      data: JSON.stringify(patch(2)),
+    });
+    assertEquals((await next())?.id, "3");
+
+    log.push(patch(4));
+    events.publish("notes", { type: "changed" });
+    assertEquals((await next())?.id, "4");
+
+    // Other worlds are not followed.
+    events.publish("drafts", { type: "deleted" });
+
+    const metadata = {
+      worldId: "notes",
+      accountId: "acme",
+      name: "Notes",
+      description: null,
+      createdAt: 0,
+      updatedAt: 0,
+      deletedAt: null,
+      isPublic: false,
+    };
+    events.publish("notes", { type: "metadata", metadata });
+    const message = await next();
+    assertEquals(message?.id, undefined);
+    assertEquals(JSON.parse(message!.data), { type: "metadata", metadata });
+
+    events.publish("notes", { type: "deleted" });
+    assertEquals(await next(), {
+      id: undefined,
+      event: "deleted",
+      data: JSON.stringify({ type: "deleted", worldId: "notes" }),
+    });
+    assertEquals((await messages.next()).done, true);
+  });
+
+  await t.step("stops following when cancelled", async () => {
+    const messages = parseEventStream(
+      events.stream("notes", { since: 3, readPatches }),
+    );
+    assertEquals((await messages.next()).value?.id, "3");
+    assertEquals((await messages.next()).value?.id, "4");
+    await messages.return(undefined);
+
+    reads = 0;
+    events.publish("notes", { type: "changed" });
+    assertEquals(reads, 0);
+  });
+});
+
+function patch(changeId: number): WorldPatchEvent {
+  return {
+    type: "patch",
+    changeId,
+    operationId: `op-${changeId}`,
+    keyPrefix: "abcd1234",
+    createdAt: changeId,
+    insertions:
+      `<http://example.org/s> <http://example.org/p> "${changeId}" .\n`,
+    deletions: "",
+  };
+}
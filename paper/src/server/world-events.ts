@@ -0,0 +1,194 @@
+import type {
+  WorldEvent,
+  WorldMetadata,
+  WorldPatchEvent,
+} from "../../../sdk/mod.ts";
+
+/**
+ * WorldSignal tells the event streams of a world what happened to it. Patches
+ * are not signalled themselves: streams read them from the change log, so
+ * that every patch has a resumable ID.
+ */
+export type WorldSignal =
+  | { type: "changed" }
+  | { type: "metadata"; metadata: WorldMetadata }
+  | { type: "deleted" };
+
+/**
+ * WorldEventStreamOptions configures an event stream of a world.
+ */
+export interface WorldEventStreamOptions {
+  /**
+   * since is the change ID of the last patch the client has received.
+   */
+  since: number;
+
+  /**
+   * readPatches reads the next patches after a change ID, oldest first. It
+   * is called until it returns none.
+   */
+  readPatches: (since: number) => Promise<WorldPatchEvent[]>;
+
+  /**
+   * signal closes the stream when aborted, e.g. when the client disconnects.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * keepAliveMs is the interval of the comments that keep idle connections
+   * open. Defaults to 15 seconds.
+   */
+  keepAliveMs?: number;
+}
+
+/**
+ * WorldEvents fans out the signals of each world to its open event streams
+ * in this process.
+ */
+export class WorldEvents {
+  private readonly listeners = new Map<
+    string,
+    Set<(signal: WorldSignal) => void>
+  >();
+
+  /**
+   * publish sends a signal to the event streams of a world.
+   */
+  public publish(worldId: string, signal: WorldSignal): void {
+    for (const listener of this.listeners.get(worldId) ?? []) {
+      listener(signal);
+    }
+  }
+
+  /**
+   * subscribe calls a listener with the signals of a world until the
+   * returned function is called.
+   */
+  public subscribe(
+    worldId: string,
+    listener: (signal: WorldSignal) => void,
+  ): () => void {
+    let listeners = this.listeners.get(worldId);
+    if (listeners === undefined) {
+      listeners = new Set();
+      this.listeners.set(worldId, listeners);
+    }
+
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.listeners.get(worldId) === listeners) {
+        this.listeners.delete(worldId);
+      }
+    };
+  }
+
+  /**
+   * stream opens a text/event-stream of the events of a world. It first
+   * replays the patches after options.since, then follows the world live.
+   * Patch events carry their change ID as event ID, and the stream opens with
+   * an event that only sets options.since as event ID, so that clients that
+   * lose the connection before the first patch resume from there. The
+   * stream closes after the deleted event.
+   */
+  public stream(
+    worldId: string,
+    options: WorldEventStreamOptions,
+  ): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let cursor = options.since;
+    let closed = false;
+    let queue = Promise.resolve();
+    let unsubscribe = () => {};
+    let keepAlive: ReturnType<typeof setInterval> | undefined;
+    const stop = () => {
+      closed = true;
+      unsubscribe();
+      clearInterval(keepAlive);
+    };
+
+    return new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        const write = (chunk: string) => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+        };
+        const close = () => {
+          if (!closed) {
+            stop();
+            controller.close();
+          }
+        };
+
+        // Signals are handled one at a time, so that events keep the order
+        // of the writes that caused them.
+        const enqueue = (handle: () => void | Promise<void>) => {
+          queue = queue.then(handle).catch((error) => {
+            if (!closed) {
+              stop();
+              controller.error(error);
+            }
+          });
+        };
+        const drain = () =>
+          enqueue(async () => {
+            while (!closed) {
+              const patches = await options.readPatches(cursor);
+              if (patches.length === 0) {
+                return;
+              }
+
+              for (const patch of patches) {
+                write(formatEvent(patch, patch.changeId));
+                cursor = patch.changeId;
+              }
+            }
+          });
+
+        unsubscribe = this.subscribe(worldId, (signal) => {
+          switch (signal.type) {
+            case "changed": {
+              drain();
+              break;
+            }
+
+            case "metadata": {
+              enqueue(() =>
+                write(formatEvent({
+                  type: "metadata",
+                  metadata: signal.metadata,
+                }))
+              );
+              break;
+            }
+
+            case "deleted": {
+              enqueue(() => {
+                write(formatEvent({ type: "deleted", worldId }));
+                close();
+              });
+              break;
+            }
+          }
+        });
+        keepAlive = setInterval(
+          () => write(": keep-alive\n\n"),
+          options.keepAliveMs ?? 15_000,
+        );
+        options.signal?.addEventListener("abort", close, { once: true });
+        write(`id: ${cursor}\n\n`);
+        drain();
+      },
+      cancel: stop,
+    });
+  }
+}
+
+/**
+ * formatEvent formats an event of the change feed as a server-sent event.
+ */
+function formatEvent(event: WorldEvent, id?: number): string {
+  return `${id === undefined ? "" : `id: ${id}\n`}event: ${event.type}\n` +
+    `data: ${JSON.stringify(event)}\n\n`;
+}
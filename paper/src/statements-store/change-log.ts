@@ -0,0 +1,150 @@
+import type { InStatement } from "@libsql/client";
+import type { ChangeRow, StatementRow } from "../../../sqlite/statements.ts";
+
+/**
+ * ChangeOrigin attributes the changes of a write in the change log.
+ */
+export interface ChangeOrigin {
+  /**
+   * operationId groups the changes of one write, e.g. one request.
+   */
+  operationId: string;
+
+  /**
+   * keyPrefix is the prefix of the API key that made the changes.
+   */
+  keyPrefix: string;
+}
+
+/**
+ * ChangesPrunedError is thrown when a read of the history of a world reaches
+ * back into changes that were pruned from its change log.
+ */
+export class ChangesPrunedError extends Error {
+  public constructor(changeId: number, start: number) {
+    super(
+      `Change ${changeId} precedes the history of the world, which starts after change ${start}`,
+    );
+    this.name = "ChangesPrunedError";
+  }
+}
+
+/**
+ * historyStart is the query of the ID of the last change that was pruned from
+ * the change log, or 0 if none was. The history of a world can be rebuilt
+ * back to that change.
+ */
+export const historyStart = `SELECT COALESCE(
+    (SELECT MIN(change_id) - 1 FROM kb_changes),
+    (SELECT seq FROM sqlite_sequence WHERE name = 'kb_changes'),
+    0
+  ) AS change_id`;
+
+/**
+ * originStatements returns the statements that open and close a write
+ * transaction, so that the changes the kb_statements triggers log in between
+ * are attributed to an origin. Writes without an origin get an operation of
+ * their own.
+ */
+export function originStatements(
+  origin: ChangeOrigin | undefined,
+  now = Date.now(),
+): [InStatement, InStatement] {
+  return [
+    {
+      sql: `INSERT OR REPLACE INTO kb_change_origin
+        (id, operation_id, key_prefix, created_at) VALUES (1, ?, ?, ?)`,
+      args: [
+        origin?.operationId ?? crypto.randomUUID(),
+        origin?.keyPrefix ?? "",
+        now,
+      ],
+    },
+    "DELETE FROM kb_change_origin",
+  ];
+}
+
+/**
+ * undoChanges rebuilds the statements of a world as they were before a run
+ * of changes, given the statements after them. Changes are undone newest
+ * first, so a statement that was deleted and inserted again is restored
+ * under its original ID.
+ */
+export function undoChanges(
+  statements: StatementRow[],
+  changes: ChangeRow[],
+): StatementRow[] {
+  const rows = new Map(statements.map((row) => [statementKey(row), row]));
+  for (const change of changes.toSorted((a, b) => b.change_id - a.change_id)) {
+    const key = statementKey(change);
+    if (change.change_type === "insert") {
+      rows.delete(key);
+    } else {
+      rows.set(key, toStatementRow(change));
+    }
+  }
+
+  return [...rows.values()].sort((a, b) => a.statement_id - b.statement_id);
+}
+
+/**
+ * squashChanges reduces a run of changes to the statements it deleted and
+ * inserted in net. A statement that was inserted and deleted again, or
+ * deleted and inserted again, is left out.
+ */
+export function squashChanges(
+  changes: ChangeRow[],
+): { deletions: StatementRow[]; insertions: StatementRow[] } {
+  const runs = new Map<string, { first: ChangeRow; last: ChangeRow }>();
+  for (const change of changes.toSorted((a, b) => a.change_id - b.change_id)) {
+    const key = statementKey(change);
+    const first = runs.get(key)?.first ?? change;
+    runs.delete(key);
+    runs.set(key, { first, last: change });
+  }
+
+  const deletions: StatementRow[] = [];
+  const insertions: StatementRow[] = [];
+  for (const { first, last } of runs.values()) {
+    if (first.change_type !== last.change_type) {
+      continue;
+    }
+
+    (last.change_type === "insert" ? insertions : deletions).push(
+      toStatementRow(last),
+    );
+  }
+
+  return { deletions, insertions };
+}
+
+/**
+ * statementKey identifies a statement by the columns of the
+ * kb_statement_unique constraint.
+ */
+function statementKey(row: StatementRow): string {
+  return JSON.stringify([
+    row.subject,
+    row.predicate,
+    row.object,
+    row.graph,
+    row.term_type ?? "NamedNode",
+    row.object_language ?? "",
+    row.object_datatype ?? "",
+  ]);
+}
+
+function toStatementRow(change: ChangeRow): StatementRow {
+  return {
+    statement_id: change.statement_id,
+    subject: change.subject,
+    predicate: change.predicate,
+    object: change.object,
+    graph: change.graph,
+    term_type: change.term_type,
+    subject_term_type: change.subject_term_type,
+    graph_term_type: change.graph_term_type,
+    object_language: change.object_language,
+    object_datatype: change.object_datatype,
+  };
+}
@@ -0,0 +1,151 @@
+import type { Client, InStatement, InValue, Transaction } from "@libsql/client";
+import type {
+  ForgetOptions,
+  ForgetResult,
+} from "../../../sqlite/statements.ts";
+import { type ChangeOrigin, originStatements } from "./change-log.ts";
+
+/**
+ * maxParameters bounds the number of parameters per IN list.
+ */
+const maxParameters = 500;
+
+/**
+ * forgetResource removes every statement whose subject is the resource,
+ * following blank node objects breadth-first so that their substructures are
+ * removed too. Deletes do not cascade otherwise.
+ *
+ * Blank nodes that a subject outside the closure still references are kept,
+ * together with their own substructures. The closure is read and removed in
+ * one write transaction, whose changes are logged as changes of the origin.
+ */
+export async function forgetResource(
+  client: Client,
+  iri: string,
+  options: ForgetOptions = {},
+  origin?: ChangeOrigin,
+): Promise<ForgetResult> {
+  const dryRun = options.dryRun ?? false;
+  const tx = await client.transaction(dryRun ? "read" : "write");
+  try {
+    const statementIds = await closure(tx, iri);
+    let chunks = 0;
+    for (const batch of batches(statementIds)) {
+      chunks += await count(
+        tx,
+        `SELECT COUNT(*) AS count FROM kb_chunks
+          WHERE statement_id IN (${placeholders(batch)})`,
+        batch,
+      );
+    }
+
+    if (dryRun) {
+      return { statements: statementIds.length, chunks, dryRun };
+    }
+
+    const [begin, end] = originStatements(origin);
+    const deletions: InStatement[] = [];
+    for (const batch of batches(statementIds)) {
+      deletions.push({
+        sql: `DELETE FROM kb_chunks WHERE statement_id IN (${
+          placeholders(batch)
+        })`,
+        args: batch,
+      });
+      deletions.push({
+        sql: `DELETE FROM kb_statements WHERE statement_id IN (${
+          placeholders(batch)
+        })`,
+        args: batch,
+      });
+    }
+
+    await tx.batch([begin, ...deletions, end]);
+    await tx.commit();
+    return { statements: statementIds.length, chunks, dryRun };
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * closure returns the IDs of the statements about the resource and about the
+ * blank nodes that only the resource's closure references.
+ */
+async function closure(tx: Transaction, iri: string): Promise<number[]> {
+  const statements = new Map<string, number[]>([[iri, []]]);
+  let frontier = [iri];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const batch of batches(frontier)) {
+      const result = await tx.execute({
+        sql: `SELECT statement_id, subject, object, term_type FROM kb_statements
+          WHERE subject IN (${placeholders(batch)})`,
+        args: batch,
+      });
+      for (const row of result.rows) {
+        statements.get(String(row.subject))!.push(Number(row.statement_id));
+        const object = String(row.object);
+        if (row.term_type === "BlankNode" && !statements.has(object)) {
+          statements.set(object, []);
+          next.push(object);
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  // A blank node leaves the closure while any of its referrers is outside
+  // it, which may in turn release the blank nodes it references.
+  const referrers = new Map<string, Set<string>>();
+  const blankNodes = [...statements.keys()].filter((node) => node !== iri);
+  for (const batch of batches(blankNodes)) {
+    const result = await tx.execute({
+      sql: `SELECT DISTINCT subject, object FROM kb_statements
+        WHERE term_type = 'BlankNode' AND object IN (${placeholders(batch)})`,
+      args: batch,
+    });
+    for (const row of result.rows) {
+      const object = String(row.object);
+      const subjects = referrers.get(object) ?? new Set();
+      subjects.add(String(row.subject));
+      referrers.set(object, subjects);
+    }
+  }
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [object, subjects] of referrers) {
+      if (
+        statements.has(object) &&
+        [...subjects].some((subject) => !statements.has(subject))
+      ) {
+        statements.delete(object);
+        changed = true;
+      }
+    }
+  }
+
+  return [...statements.values()].flat();
+}
+
+async function count(
+  tx: Transaction,
+  sql: string,
+  args: InValue[],
+): Promise<number> {
+  const result = await tx.execute({ sql, args });
+  return Number(result.rows[0].count);
+}
+
+function* batches<T>(values: T[]): Generator<T[]> {
+  for (let i = 0; i < values.length; i += maxParameters) {
+    yield values.slice(i, i + maxParameters);
+  }
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => "?").join(", ");
+}
@@ -0,0 +1,174 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { createClient } from "@libsql/client";
+import { applySchema } from "#/utils/schema.ts";
+import { testSearchStore } from "#/search-store/search-store-suite.ts";
+import { ChangesPrunedError } from "./change-log.ts";
+import { LibsqlStatementsStore } from "./libsql-statements-store.ts";
+import { StatementsSearchStore } from "./statements-search-store.ts";
+
+testSearchStore(
+  "StatementsSearchStore",
+  (client, df) =>
+    new StatementsSearchStore(new LibsqlStatementsStore(client), df),
+);
+
+Deno.test("LibsqlStatementsStore", async (t) => {
+  const client = createClient({ url: ":memory:" });
+  await applySchema(client, "statements");
+  let origin = { operationId: "op-1", keyPrefix: "abcd1234" };
+  const store = new LibsqlStatementsStore(client, {
+    chunking: false,
+    origin: () => origin,
+  });
+
+  await store.insertStatements([
+    {
+      statement_id: 0,
+      subject: "http://example.org/s",
+      predicate: "http://schema.org/description",
+      object: "A long description",
+      graph: "http://example.org/g",
+      term_type: "Literal",
+      object_datatype: "http://www.w3.org/2001/XMLSchema#string",
+    },
+    {
+      statement_id: 0,
+      subject: "http://example.org/s",
+      predicate: "http://schema.org/about",
+      object: "http://example.org/o",
+      graph: "http://example.org/g",
+    },
+  ]);
+  const inserted = await store.matchStatements({});
+
+  await t.step("getGraph fills in defaults", async () => {
+    const rows = await store.getGraph("http://example.org/g");
+    assertEquals(rows.length, 2);
+    assertEquals(rows[1].term_type, "NamedNode");
+    assertEquals(rows[1].object_language, "");
+  });
+
+  await t.step("getChunk / getChunks", async () => {
+    const [row] = await store.matchStatements({
+      predicate: "http://schema.org/description",
+    });
+    const embedding = new Array(512).fill(0.5);
+    await client.execute({
+      sql:
+        "INSERT INTO kb_chunks (statement_id, content, embedding) VALUES (?, ?, vector32(?)), (?, ?, NULL)",
+      args: [
+        row.statement_id,
+        "A long",
+        JSON.stringify(embedding),
+        row.statement_id,
+        "description",
+      ],
+    });
+
+    const chunks = await store.getChunks(row.statement_id);
+    assertEquals(chunks.map((chunk) => chunk.content), [
+      "A long",
+      "description",
+    ]);
+    assertEquals(chunks[0].embedding, embedding);
+    assertEquals(chunks[1].embedding, []);
+
+    assertEquals(await store.getChunk(chunks[1].chunk_id), chunks[1]);
+    assertEquals(await store.getChunk(-1), null);
+  });
+
+  await t.step("removeGraph", async () => {
+    origin = { operationId: "op-2", keyPrefix: "efgh5678" };
+    await store.removeGraph("http://example.org/g");
+    assertEquals(await store.getGraph("http://example.org/g"), []);
+  });
+
+  await t.step("logs changes with their origin", async () => {
+    const changes = await store.getChanges();
+    assertEquals(
+      changes.map((change) => [
+        change.change_type,
+        change.statement_id,
+        change.operation_id,
+        change.key_prefix,
+      ]),
+      [
+        ["insert", inserted[0].statement_id, "op-1", "abcd1234"],
+        ["insert", inserted[1].statement_id, "op-1", "abcd1234"],
+        ["delete", inserted[0].statement_id, "op-2", "efgh5678"],
+        ["delete", inserted[1].statement_id, "op-2", "efgh5678"],
+      ],
+    );
+    assertEquals(
+      (await store.getChanges({ since: 1, until: 3, limit: 1 }))
+        .map((change) => change.change_id),
+      [2],
+    );
+    assertEquals(
+      await store.getChangeIdAt(changes[3].created_at),
+      changes[3].change_id,
+    );
+    assertEquals(await store.getChangeIdAt(0), 0);
+  });
+
+  await t.step("getStatementsAt undoes later changes", async () => {
+    assertEquals(await store.getStatementsAt(0), []);
+    assertEquals(await store.getStatementsAt(1), [inserted[0]]);
+    assertEquals(await store.getStatementsAt(2), inserted);
+    assertEquals(await store.getStatementsAt(4), []);
+  });
+
+  await t.step("insertSnapshot / getSnapshot / listSnapshots", async () => {
+    const snapshot = {
+      snapshot_id: "s1",
+      name: "before cleanup",
+      change_id: 2,
+      created_at: 1,
+    };
+    await store.insertSnapshot(snapshot);
+    assertEquals(await store.getSnapshot("s1"), snapshot);
+    assertEquals(await store.getSnapshot("s2"), null);
+    assertEquals(await store.listSnapshots(), [snapshot]);
+  });
+
+  await t.step("pruneChanges keeps the rest of the history", async () => {
+    await client.execute("UPDATE kb_changes SET created_at = change_id * 1000");
+    const expired = {
+      snapshot_id: "s0",
+      name: "expired",
+      change_id: 1,
+      created_at: 1,
+    };
+    await store.insertSnapshot(expired);
+
+    assertEquals(await store.pruneChanges(2500), 2);
+    assertEquals(await store.pruneChanges(2500), 0);
+    assertEquals(
+      (await store.getChanges()).map((change) => change.change_id),
+      [3, 4],
+    );
+    assertEquals(
+      (await store.getChanges({ since: 2 })).map((change) => change.change_id),
+      [3, 4],
+    );
+    await assertRejects(
+      () => store.getChanges({ since: 1 }),
+      ChangesPrunedError,
+    );
+    assertEquals(await store.getStatementsAt(2), inserted);
+    await assertRejects(() => store.getStatementsAt(1), ChangesPrunedError);
+    assertEquals(
+      (await store.listSnapshots()).map((snapshot) => snapshot.snapshot_id),
+      ["s1"],
+    );
+
+    // The history still starts after the last change once all are pruned.
+    assertEquals(await store.pruneChanges(10_000), 2);
+    assertEquals(await store.getChanges({ since: 4 }), []);
+    assertEquals(await store.getStatementsAt(4), []);
+    await assertRejects(() => store.getStatementsAt(3), ChangesPrunedError);
+    assertEquals(await store.listSnapshots(), []);
+  });
+
+  client.close();
+});
@@ -0,0 +1,440 @@
+import type { Client, InStatement, ResultSet, Row } from "@libsql/client";
+import type {
+  ChangeFilter,
+  ChangeRow,
+  ChunkRow,
+  ForgetOptions,
+  ForgetResult,
+  RankedResult,
+  SnapshotRow,
+  StatementRow,
+  StatementRowPatch,
+  StatementRowPattern,
+  StatementsStore,
+} from "../../../sqlite/statements.ts";
+import { fuseRankings } from "#/search-store/rrf.ts";
+import {
+  type ChunkSearchOptions,
+  defaultSearchLimit,
+  rankChunks,
+  rankStatements,
+} from "#/search-store/chunk-search.ts";
+import {
+  RecursiveCharacterSplitter,
+  type RecursiveCharacterSplitterOptions,
+} from "#/chunking/recursive-character-splitter.ts";
+import { forgetResource } from "./forget-resource.ts";
+import { chunkPatch, patchBatch, patternWhere } from "./statement-patch.ts";
+import {
+  type ChangeOrigin,
+  ChangesPrunedError,
+  historyStart,
+  originStatements,
+  undoChanges,
+} from "./change-log.ts";
+import { assertEmbeddingProvider } from "#/embeddings/embedding-settings.ts";
+
+/**
+ * LibsqlStatementsStoreOptions configures a LibsqlStatementsStore.
+ */
+export interface LibsqlStatementsStoreOptions extends ChunkSearchOptions {
+  /**
+   * chunking configures how text literals are split into chunks on insert.
+   * Set to false to store statements without chunks.
+   */
+  chunking?: RecursiveCharacterSplitterOptions | false;
+
+  /**
+   * origin returns the origin of the current write, which its changes are
+   * attributed to in the change log.
+   */
+  origin?: () => ChangeOrigin | undefined;
+}
+
+const statementColumns =
+  "statement_id, subject, predicate, object, graph, term_type, subject_term_type, graph_term_type, object_language, object_datatype";
+const chunkColumns = "chunk_id, statement_id, content, embedding";
+const changeColumns =
+  `change_id, change_type, operation_id, key_prefix, created_at, ${statementColumns}`;
+const snapshotColumns = "snapshot_id, name, change_id, created_at";
+
+/**
+ * LibsqlStatementsStore is a StatementsStore backed by a libSQL database with
+ * the schema in sqlite/statements.sql.
+ */
+export class LibsqlStatementsStore implements StatementsStore {
+  private splitter: RecursiveCharacterSplitter | null = null;
+  private embeddingsChecked: Promise<void> | null = null;
+
+  public constructor(
+    private readonly client: Client,
+    private readonly options: LibsqlStatementsStoreOptions = {},
+  ) {
+    this.setChunking(options.chunking ?? {});
+  }
+
+  /**
+   * setChunking changes how text literals are split into chunks on later
+   * inserts. Chunks that are already stored are kept.
+   */
+  public setChunking(
+    chunking: RecursiveCharacterSplitterOptions | false,
+  ): void {
+    this.splitter = chunking === false
+      ? null
+      : new RecursiveCharacterSplitter(chunking);
+  }
+
+  public async getGraph(graphId: string): Promise<StatementRow[]> {
+    return await this.matchStatements({ graph: graphId });
+  }
+
+  public async removeGraph(graphId: string): Promise<void> {
+    await this.write({
+      sql: "DELETE FROM kb_statements WHERE graph = ?",
+      args: [graphId],
+    });
+  }
+
+  public async insertStatement(statement: StatementRow): Promise<void> {
+    await this.insertStatements([statement]);
+  }
+
+  /**
+   * insertStatements inserts statements and the chunks of their text literals
+   * in a single transaction, ignoring duplicates. Statement IDs are assigned
+   * by the database.
+   */
+  public async insertStatements(statements: StatementRow[]): Promise<void> {
+    await this.patchStatements({ deletions: [], insertions: statements });
+  }
+
+  /**
+   * patchStatements deletes and then inserts statements in a single
+   * transaction. Chunks of deleted statements are removed by cascade and
+   * chunks of inserted text literals are added as in insertStatements. The
+   * chunks are embedded before the transaction begins.
+   */
+  public async patchStatements(patch: StatementRowPatch): Promise<void> {
+    if (patch.deletions.length === 0 && patch.insertions.length === 0) {
+      return;
+    }
+
+    await this.checkEmbeddings();
+    const chunks = this.splitter === null ? [] : await chunkPatch(
+      this.client,
+      patch,
+      this.splitter,
+      this.options.embeddings,
+    );
+    const [begin, end] = originStatements(this.options.origin?.());
+    await this.client.batch(
+      [begin, ...patchBatch(patch, chunks), end],
+      "write",
+    );
+  }
+
+  public async getStatement(statementId: number): Promise<StatementRow | null> {
+    const result = await this.client.execute({
+      sql:
+        `SELECT ${statementColumns} FROM kb_statements WHERE statement_id = ?`,
+      args: [statementId],
+    });
+    return result.rows.length > 0 ? toStatementRow(result.rows[0]) : null;
+  }
+
+  public async removeStatement(statementId: number): Promise<void> {
+    await this.write({
+      sql: "DELETE FROM kb_statements WHERE statement_id = ?",
+      args: [statementId],
+    });
+  }
+
+  public async matchStatements(
+    pattern: StatementRowPattern,
+  ): Promise<StatementRow[]> {
+    const { where, args } = patternWhere(pattern);
+    const result = await this.client.execute({
+      sql: `SELECT ${statementColumns} FROM kb_statements ${where}
+        ORDER BY statement_id`,
+      args,
+    });
+    return result.rows.map(toStatementRow);
+  }
+
+  public async forgetResource(
+    iri: string,
+    options?: ForgetOptions,
+  ): Promise<ForgetResult> {
+    return await forgetResource(
+      this.client,
+      iri,
+      options,
+      this.options.origin?.(),
+    );
+  }
+
+  public async searchStatements(
+    query: string,
+    k = defaultSearchLimit,
+  ): Promise<RankedResult<StatementRow>[]> {
+    await this.checkEmbeddings();
+    const rankings = await rankStatements(this.client, query, k, this.options);
+    const fused = fuseRankings(rankings, (id) => id, this.options.rrf)
+      .slice(0, k);
+    const rows = await this.selectByIds(
+      `SELECT ${statementColumns} FROM kb_statements WHERE statement_id`,
+      fused.map((result) => result.item),
+    );
+    const byId = new Map(
+      rows.map(toStatementRow).map((row) => [row.statement_id, row]),
+    );
+
+    return fused.flatMap((result) => {
+      const row = byId.get(result.item);
+      return row ? [{ ...result, item: row }] : [];
+    });
+  }
+
+  public async getChanges(filter: ChangeFilter = {}): Promise<ChangeRow[]> {
+    const [start, result] = await this.client.batch([
+      historyStart,
+      {
+        sql: `SELECT ${changeColumns} FROM kb_changes
+          WHERE change_id > ? AND change_id <= ?
+          ORDER BY change_id LIMIT ?`,
+        args: [
+          filter.since ?? 0,
+          filter.until ?? Number.MAX_SAFE_INTEGER,
+          filter.limit ?? -1,
+        ],
+      },
+    ], "read");
+    if (filter.since !== undefined) {
+      assertRetained(filter.since, start);
+    }
+
+    return result.rows.map(toChangeRow);
+  }
+
+  public async getChangeIdAt(timestamp: number): Promise<number> {
+    const result = await this.client.execute({
+      sql: `SELECT COALESCE(MAX(change_id), 0) AS change_id FROM kb_changes
+        WHERE created_at <= ?`,
+      args: [timestamp],
+    });
+    return Number(result.rows[0].change_id);
+  }
+
+  /**
+   * getStatementsAt undoes the changes made since a change. The statements
+   * and the changes are read together, so that concurrent writes cannot
+   * skew the result.
+   */
+  public async getStatementsAt(changeId: number): Promise<StatementRow[]> {
+    const [start, statements, changes] = await this.client.batch([
+      historyStart,
+      `SELECT ${statementColumns} FROM kb_statements ORDER BY statement_id`,
+      {
+        sql: `SELECT ${changeColumns} FROM kb_changes WHERE change_id > ?
+          ORDER BY change_id`,
+        args: [changeId],
+      },
+    ], "read");
+    assertRetained(changeId, start);
+    return undoChanges(
+      statements.rows.map(toStatementRow),
+      changes.rows.map(toChangeRow),
+    );
+  }
+
+  /**
+   * pruneChanges removes the oldest changes, up to the last one made before a
+   * time, so that the history that is left can still be rebuilt. Snapshots
+   * before the last removed change are removed with them.
+   */
+  public async pruneChanges(before: number): Promise<number> {
+    const last = `(SELECT MAX(change_id) FROM kb_changes WHERE created_at < ?)`;
+    const [, result] = await this.client.batch([
+      {
+        sql: `DELETE FROM kb_snapshots WHERE change_id < ${last}`,
+        args: [before],
+      },
+      {
+        sql: `DELETE FROM kb_changes WHERE change_id <= ${last}`,
+        args: [before],
+      },
+    ], "write");
+    return result.rowsAffected;
+  }
+
+  public async insertSnapshot(snapshot: SnapshotRow): Promise<void> {
+    await this.client.execute({
+      sql: `INSERT INTO kb_snapshots (${snapshotColumns}) VALUES (?, ?, ?, ?)`,
+      args: [
+        snapshot.snapshot_id,
+        snapshot.name,
+        snapshot.change_id,
+        snapshot.created_at,
+      ],
+    });
+  }
+
+  public async getSnapshot(snapshotId: string): Promise<SnapshotRow | null> {
+    const result = await this.client.execute({
+      sql: `SELECT ${snapshotColumns} FROM kb_snapshots WHERE snapshot_id = ?`,
+      args: [snapshotId],
+    });
+    return result.rows.length > 0 ? toSnapshotRow(result.rows[0]) : null;
+  }
+
+  public async listSnapshots(): Promise<SnapshotRow[]> {
+    const result = await this.client.execute(
+      `SELECT ${snapshotColumns} FROM kb_snapshots
+        ORDER BY created_at, snapshot_id`,
+    );
+    return result.rows.map(toSnapshotRow);
+  }
+
+  public async getChunk(chunkId: number): Promise<ChunkRow | null> {
+    const result = await this.client.execute({
+      sql: `SELECT ${chunkColumns} FROM kb_chunks WHERE chunk_id = ?`,
+      args: [chunkId],
+    });
+    return result.rows.length > 0 ? toChunkRow(result.rows[0]) : null;
+  }
+
+  public async getChunks(statementId: number): Promise<ChunkRow[]> {
+    const result = await this.client.execute({
+      sql: `SELECT ${chunkColumns} FROM kb_chunks WHERE statement_id = ?
+        ORDER BY chunk_id`,
+      args: [statementId],
+    });
+    return result.rows.map(toChunkRow);
+  }
+
+  public async searchChunks(
+    query: string,
+    k = defaultSearchLimit,
+  ): Promise<RankedResult<ChunkRow>[]> {
+    await this.checkEmbeddings();
+    const rankings = await rankChunks(this.client, query, k, this.options);
+    const fused = fuseRankings(rankings, (id) => id, this.options.rrf)
+      .slice(0, k);
+    const rows = await this.selectByIds(
+      `SELECT ${chunkColumns} FROM kb_chunks
+        WHERE statement_id IS NOT NULL AND chunk_id`,
+      fused.map((result) => result.item),
+    );
+    const byId = new Map(
+      rows.map(toChunkRow).map((row) => [row.chunk_id, row]),
+    );
+
+    return fused.flatMap((result) => {
+      const row = byId.get(result.item);
+      return row ? [{ ...result, item: row }] : [];
+    });
+  }
+
+  /**
+   * checkEmbeddings verifies the embedding provider against the world once,
+   * before the first embedding is stored or searched.
+   */
+  private checkEmbeddings(): Promise<void> {
+    if (this.options.embeddings === undefined) {
+      return Promise.resolve();
+    }
+
+    this.embeddingsChecked ??= assertEmbeddingProvider(
+      this.client,
+      this.options.embeddings,
+    );
+    return this.embeddingsChecked;
+  }
+
+  /**
+   * write runs a statement in a write transaction that attributes its
+   * changes to the origin of the current write.
+   */
+  private async write(statement: InStatement): Promise<void> {
+    const [begin, end] = originStatements(this.options.origin?.());
+    await this.client.batch([begin, statement, end], "write");
+  }
+
+  /**
+   * selectByIds runs a query that ends in an ID column with an IN list of
+   * the given IDs.
+   */
+  private async selectByIds(sql: string, ids: number[]): Promise<Row[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const result = await this.client.execute({
+      sql: `${sql} IN (${ids.map(() => "?").join(", ")})`,
+      args: ids,
+    });
+    return result.rows;
+  }
+}
+
+function toStatementRow(row: Row): StatementRow {
+  return {
+    statement_id: Number(row.statement_id),
+    subject: String(row.subject),
+    predicate: String(row.predicate),
+    object: String(row.object),
+    graph: String(row.graph),
+    term_type: String(row.term_type) as StatementRow["term_type"],
+    subject_term_type: String(
+      row.subject_term_type,
+    ) as StatementRow["subject_term_type"],
+    graph_term_type: String(
+      row.graph_term_type,
+    ) as StatementRow["graph_term_type"],
+    object_language: String(row.object_language),
+    object_datatype: String(row.object_datatype),
+  };
+}
+
+function toChangeRow(row: Row): ChangeRow {
+  return {
+    ...toStatementRow(row) as Required<StatementRow>,
+    change_id: Number(row.change_id),
+    change_type: String(row.change_type) as ChangeRow["change_type"],
+    operation_id: String(row.operation_id),
+    key_prefix: String(row.key_prefix),
+    created_at: Number(row.created_at),
+  };
+}
+
+function toSnapshotRow(row: Row): SnapshotRow {
+  return {
+    snapshot_id: String(row.snapshot_id),
+    name: String(row.name),
+    change_id: Number(row.change_id),
+    created_at: Number(row.created_at),
+  };
+}
+
+function toChunkRow(row: Row): ChunkRow {
+  return {
+    chunk_id: Number(row.chunk_id),
+    statement_id: Number(row.statement_id),
+    content: String(row.content ?? ""),
+    embedding: row.embedding instanceof ArrayBuffer
+      ? Array.from(new Float32Array(row.embedding))
+      : [],
+  };
+}
+
+/**
+ * assertRetained checks that the history of a world can be rebuilt back to a
+ * change, given the start of its history.
+ */
+function assertRetained(changeId: number, start: ResultSet): void {
+  const startId = Number(start.rows[0].change_id);
+  if (changeId < startId) {
+    throw new ChangesPrunedError(changeId, startId);
+  }
+}
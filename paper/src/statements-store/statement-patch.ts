@@ -0,0 +1,186 @@
+import type { Client, InStatement } from "@libsql/client";
+import type {
+  StatementRow,
+  StatementRowPatch,
+  StatementRowPattern,
+} from "../../../sqlite/statements.ts";
+import type { RecursiveCharacterSplitter } from "#/chunking/recursive-character-splitter.ts";
+import {
+  type ChunkSource,
+  chunkStatements,
+  isTextLiteral,
+  type NewChunk,
+} from "#/chunking/chunk-statements.ts";
+import type { EmbeddingProvider } from "#/embeddings/embedding-provider.ts";
+
+/**
+ * patternColumns are the columns a statement row pattern can match.
+ */
+export const patternColumns = [
+  "subject",
+  "predicate",
+  "object",
+  "graph",
+  "term_type",
+  "subject_term_type",
+  "graph_term_type",
+  "object_language",
+  "object_datatype",
+] as const;
+
+const insertColumns = patternColumns.join(", ");
+const keyWhere = `subject = ? AND predicate = ? AND object = ? AND graph = ?
+  AND term_type = ? AND object_language = ? AND object_datatype = ?`;
+
+/**
+ * patternWhere returns the WHERE clause matching a statement row pattern.
+ */
+export function patternWhere(
+  pattern: StatementRowPattern,
+): { where: string; args: string[] } {
+  const columns = patternColumns.filter((column) =>
+    pattern[column] !== undefined
+  );
+  return {
+    where: columns.length > 0
+      ? `WHERE ${columns.map((column) => `${column} = ?`).join(" AND ")}`
+      : "",
+    args: columns.map((column) => pattern[column]!),
+  };
+}
+
+/**
+ * chunkPatch splits the text literals a patch inserts into chunks and embeds
+ * them. It runs before the patch is written, so that no write lock is held
+ * while the embedding provider is called. Statements that exist and are not
+ * deleted by the patch are skipped, since inserting them again is a no-op.
+ */
+export async function chunkPatch(
+  client: Client,
+  patch: StatementRowPatch,
+  splitter: RecursiveCharacterSplitter,
+  embeddings?: EmbeddingProvider,
+): Promise<NewChunk[]> {
+  const sources: ChunkSource[] = [];
+  const keys: InStatement[] = [];
+  patch.insertions.forEach((statement, index) => {
+    const row = withDefaults(statement);
+    if (isTextLiteral(row.term_type, row.object_datatype)) {
+      sources.push({
+        index,
+        object: row.object,
+        termType: row.term_type,
+        objectDatatype: row.object_datatype,
+      });
+      keys.push({
+        sql: `SELECT ${insertColumns} FROM kb_statements WHERE ${keyWhere}`,
+        args: keyArgs(row),
+      });
+    }
+  });
+  if (sources.length === 0) {
+    return [];
+  }
+
+  const existing = await client.batch(keys, "read");
+  const kept = sources.filter((_, i) => {
+    const row = existing[i].rows[0];
+    return row === undefined ||
+      patch.deletions.some((pattern) =>
+        patternColumns.every((column) =>
+          pattern[column] === undefined || pattern[column] === row[column]
+        )
+      );
+  });
+  return await chunkStatements(kept, splitter, embeddings);
+}
+
+/**
+ * patchBatch returns the statements that apply a patch, to be run in one
+ * batch: the deletions, then each insertion followed by its chunks. Chunks
+ * are only inserted if their statement was, which changes() reports, and
+ * chunks of deleted statements are removed by cascade.
+ */
+export function patchBatch(
+  patch: StatementRowPatch,
+  chunks: NewChunk[],
+): InStatement[] {
+  const chunksByIndex = new Map<number, NewChunk[]>();
+  for (const chunk of chunks) {
+    chunksByIndex.set(chunk.index, [
+      ...chunksByIndex.get(chunk.index) ?? [],
+      chunk,
+    ]);
+  }
+
+  const statements: InStatement[] = patch.deletions.map((pattern) => {
+    const { where, args } = patternWhere(pattern);
+    return { sql: `DELETE FROM kb_statements ${where}`, args };
+  });
+  patch.insertions.forEach((statement, index) => {
+    const row = withDefaults(statement);
+    statements.push({
+      sql: `INSERT OR IGNORE INTO kb_statements (${insertColumns})
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: patternColumns.map((column) => row[column]),
+    });
+
+    const statementChunks = chunksByIndex.get(index);
+    if (statementChunks === undefined) {
+      return;
+    }
+
+    statements.push({
+      sql: `INSERT INTO kb_chunks (statement_id, content, embedding)
+        SELECT statement_id, chunk.value ->> 0,
+          IIF(chunk.value ->> 1 IS NULL, NULL, vector32(chunk.value ->> 1))
+        FROM kb_statements, json_each(?) AS chunk
+        WHERE changes() = 1 AND ${keyWhere}`,
+      args: [
+        JSON.stringify(
+          statementChunks.map((chunk) => [chunk.content, chunk.embedding]),
+        ),
+        ...keyArgs(row),
+      ],
+    });
+  });
+
+  return statements;
+}
+
+/**
+ * withDefaults fills in the optional columns of a statement row with the
+ * values the schema defaults them to.
+ */
+function withDefaults(
+  statement: StatementRow,
+): Required<Omit<StatementRow, "statement_id">> {
+  return {
+    subject: statement.subject,
+    predicate: statement.predicate,
+    object: statement.object,
+    graph: statement.graph,
+    term_type: statement.term_type ?? "NamedNode",
+    subject_term_type: statement.subject_term_type ?? "NamedNode",
+    graph_term_type: statement.graph_term_type ??
+      (statement.graph === "" ? "DefaultGraph" : "NamedNode"),
+    object_language: statement.object_language ?? "",
+    object_datatype: statement.object_datatype ?? "",
+  };
+}
+
+/**
+ * keyArgs returns the arguments of keyWhere, the columns of the
+ * kb_statement_unique constraint.
+ */
+function keyArgs(row: Required<Omit<StatementRow, "statement_id">>): string[] {
+  return [
+    row.subject,
+    row.predicate,
+    row.object,
+    row.graph,
+    row.term_type,
+    row.object_language,
+    row.object_datatype,
+  ];
+}
@@ -0,0 +1,154 @@
+import type * as rdfjs from "@rdfjs/types";
+import type {
+  StatementRow,
+  StatementRowPattern,
+} from "../../../sqlite/statements.ts";
+import type { StatementPattern } from "#/search-store/search-store.ts";
+import {
+  defaultGenidBase,
+  deskolemize,
+  skolemIri,
+  Skolemizer,
+} from "#/utils/skolem.ts";
+
+const XSD_STRING = "http://www.w3.org/2001/XMLSchema#string";
+
+/**
+ * quadToStatementRow converts an RDF/JS quad into a statement row. Blank nodes
+ * are skolemized and the default graph is stored as "".
+ */
+export function quadToStatementRow(
+  quad: rdfjs.Quad,
+  skolemizer: Skolemizer = new Skolemizer(),
+  statementId = 0,
+): StatementRow {
+  const skolemize = (label: string) => skolemizer.skolemize(label);
+  return {
+    statement_id: statementId,
+    subject: termValue(quad.subject, skolemize),
+    subject_term_type: quad.subject
+      .termType as StatementRow["subject_term_type"],
+    predicate: quad.predicate.value,
+    graph: termValue(quad.graph, skolemize),
+    graph_term_type: quad.graph.termType as StatementRow["graph_term_type"],
+    ...objectColumns(quad.object, skolemize),
+  };
+}
+
+/**
+ * statementRowToQuad converts a statement row into an RDF/JS quad,
+ * de-skolemizing blank nodes.
+ */
+export function statementRowToQuad(
+  row: StatementRow,
+  df: rdfjs.DataFactory,
+  genidBase = defaultGenidBase,
+): rdfjs.Quad {
+  const subject = row.subject_term_type === "BlankNode"
+    ? df.blankNode(deskolemize(row.subject, genidBase))
+    : df.namedNode(row.subject);
+
+  let object: rdfjs.Quad_Object;
+  switch (row.term_type) {
+    case "Literal": {
+      object = row.object_language
+        ? df.literal(row.object, row.object_language)
+        : df.literal(
+          row.object,
+          df.namedNode(row.object_datatype || XSD_STRING),
+        );
+      break;
+    }
+
+    case "BlankNode": {
+      object = df.blankNode(deskolemize(row.object, genidBase));
+      break;
+    }
+
+    default: {
+      object = df.namedNode(row.object);
+    }
+  }
+
+  let graph: rdfjs.Quad_Graph;
+  switch (row.graph_term_type) {
+    case "BlankNode": {
+      graph = df.blankNode(deskolemize(row.graph, genidBase));
+      break;
+    }
+
+    case "DefaultGraph": {
+      graph = df.defaultGraph();
+      break;
+    }
+
+    default: {
+      // Rows written before graph term types were recorded store the
+      // default graph as a named node with an empty IRI.
+      graph = row.graph === "" ? df.defaultGraph() : df.namedNode(row.graph);
+    }
+  }
+
+  return df.quad(subject, df.namedNode(row.predicate), object, graph);
+}
+
+/**
+ * statementPatternToRowPattern converts a quad pattern into a statement row
+ * pattern. Blank nodes match the skolem IRIs they were read from.
+ */
+export function statementPatternToRowPattern(
+  pattern: StatementPattern,
+  genidBase = defaultGenidBase,
+): StatementRowPattern {
+  const lookup = (label: string) => skolemIri(label, genidBase);
+  const rowPattern: StatementRowPattern = {};
+  if (isBound(pattern.subject)) {
+    rowPattern.subject = termValue(pattern.subject, lookup);
+    rowPattern.subject_term_type = pattern.subject
+      .termType as StatementRow["subject_term_type"];
+  }
+
+  if (isBound(pattern.predicate)) {
+    rowPattern.predicate = pattern.predicate.value;
+  }
+
+  if (isBound(pattern.object)) {
+    Object.assign(rowPattern, objectColumns(pattern.object, lookup));
+  }
+
+  if (isBound(pattern.graph)) {
+    rowPattern.graph = termValue(pattern.graph, lookup);
+    rowPattern.graph_term_type = pattern.graph
+      .termType as StatementRow["graph_term_type"];
+  }
+
+  return rowPattern;
+}
+
+function termValue(
+  term: rdfjs.Term,
+  skolemize: (label: string) => string,
+): string {
+  return term.termType === "BlankNode" ? skolemize(term.value) : term.value;
+}
+
+function objectColumns(
+  term: rdfjs.Term,
+  skolemize: (label: string) => string,
+): Pick<
+  StatementRow,
+  "object" | "term_type" | "object_language" | "object_datatype"
+> {
+  return {
+    object: termValue(term, skolemize),
+    term_type: term.termType as StatementRow["term_type"],
+    object_language: term.termType === "Literal" ? term.language : "",
+    object_datatype: term.termType === "Literal" ? term.datatype.value : "",
+  };
+}
+
+function isBound(
+  term: rdfjs.Term | null | undefined,
+): term is Exclude<rdfjs.Term, rdfjs.Variable> {
+  return term !== null && term !== undefined && term.termType !== "Variable";
+}
@@ -0,0 +1,162 @@
+import type * as rdfjs from "@rdfjs/types";
+import * as oxigraph from "oxigraph";
+import type {
+  ChunkRow,
+  ForgetOptions,
+  ForgetResult,
+  RankedResult,
+  StatementRow,
+  StatementsStore,
+} from "../../../sqlite/statements.ts";
+import type {
+  SearchStore,
+  StatementPattern,
+  StatementsPatch,
+  VersionedPatch,
+} from "#/search-store/search-store.ts";
+import {
+  quadToStatementRow,
+  statementPatternToRowPattern,
+  statementRowToQuad,
+} from "./statement-rows.ts";
+import { squashChanges } from "./change-log.ts";
+import { Skolemizer } from "#/utils/skolem.ts";
+
+/**
+ * StatementsSearchStoreOptions configures a StatementsSearchStore.
+ */
+export interface StatementsSearchStoreOptions {
+  /**
+   * genidBase is the prefix of the IRIs that blank nodes are skolemized to.
+   * Defaults to "urn:uuid:".
+   */
+  genidBase?: string;
+}
+
+/**
+ * StatementsSearchStore adapts a StatementsStore to the RDF/JS-based
+ * SearchStore interface so that either can back the server.
+ */
+export class StatementsSearchStore implements SearchStore {
+  public constructor(
+    private readonly store: StatementsStore,
+    private readonly df: rdfjs.DataFactory = oxigraph as rdfjs.DataFactory,
+    private readonly options: StatementsSearchStoreOptions = {},
+  ) {}
+
+  public async addStatements(statements: rdfjs.Quad[]): Promise<void> {
+    // Blank node labels are scoped to a single call.
+    const skolemizer = new Skolemizer(this.options.genidBase);
+    await this.store.insertStatements(
+      statements.map((quad) => quadToStatementRow(quad, skolemizer)),
+    );
+  }
+
+  public async addStatement(statement: rdfjs.Quad): Promise<void> {
+    await this.addStatements([statement]);
+  }
+
+  public async getStatements(graphId: string): Promise<rdfjs.Quad[]> {
+    const rows = await this.store.getGraph(graphId);
+    return rows.map((row) => this.toQuad(row));
+  }
+
+  public async getStatement(statementId: string): Promise<rdfjs.Quad | null> {
+    const id = parseInt(statementId);
+    if (isNaN(id)) {
+      return null;
+    }
+
+    const row = await this.store.getStatement(id);
+    return row === null ? null : this.toQuad(row);
+  }
+
+  public async matchStatements(
+    pattern: StatementPattern,
+  ): Promise<rdfjs.Quad[]> {
+    const rows = await this.store.matchStatements(
+      statementPatternToRowPattern(pattern, this.options.genidBase),
+    );
+    return rows.map((row) => this.toQuad(row));
+  }
+
+  public async deleteStatements(statements: rdfjs.Quad[]): Promise<void> {
+    for (const quad of statements) {
+      const rows = await this.store.matchStatements(
+        statementPatternToRowPattern(quad, this.options.genidBase),
+      );
+      for (const row of rows) {
+        await this.store.removeStatement(row.statement_id);
+      }
+    }
+  }
+
+  public async patchStatements(patch: StatementsPatch): Promise<void> {
+    const skolemizer = new Skolemizer(this.options.genidBase);
+    await this.store.patchStatements({
+      deletions: patch.deletions.map((quad) =>
+        statementPatternToRowPattern(quad, this.options.genidBase)
+      ),
+      insertions: patch.insertions.map((quad) =>
+        quadToStatementRow(quad, skolemizer)
+      ),
+    });
+  }
+
+  public async removeStatements(graphId: string): Promise<void> {
+    await this.store.removeGraph(graphId);
+  }
+
+  public async removeStatement(statementId: string): Promise<void> {
+    const id = parseInt(statementId);
+    if (isNaN(id)) {
+      return;
+    }
+
+    await this.store.removeStatement(id);
+  }
+
+  public async getVersion(): Promise<number> {
+    return await this.store.getChangeIdAt(Number.MAX_SAFE_INTEGER);
+  }
+
+  public async getPatch(since: number): Promise<VersionedPatch> {
+    const changes = await this.store.getChanges({ since });
+    const { deletions, insertions } = squashChanges(changes);
+    return {
+      from: since,
+      to: changes.at(-1)?.change_id ?? since,
+      deletions: deletions.map((row) => this.toQuad(row)),
+      insertions: insertions.map((row) => this.toQuad(row)),
+    };
+  }
+
+  public async forgetResource(
+    iri: string,
+    options?: ForgetOptions,
+  ): Promise<ForgetResult> {
+    return await this.store.forgetResource(iri, options);
+  }
+
+  public async searchStatements(
+    query: string,
+    k?: number,
+  ): Promise<RankedResult<rdfjs.Quad>[]> {
+    const results = await this.store.searchStatements(query, k);
+    return results.map((result) => ({
+      ...result,
+      item: this.toQuad(result.item),
+    }));
+  }
+
+  public async searchChunks(
+    query: string,
+    k?: number,
+  ): Promise<RankedResult<ChunkRow>[]> {
+    return await this.store.searchChunks(query, k);
+  }
+
+  private toQuad(row: StatementRow): rdfjs.Quad {
+    return statementRowToQuad(row, this.df, this.options.genidBase);
+  }
+}
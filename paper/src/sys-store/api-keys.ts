@@ -0,0 +1,52 @@
+/**
+ * apiKeyPrefix is the prefix of every API key, which makes leaked keys easy
+ * to spot by secret scanners.
+ */
+export const apiKeyPrefix = "sk_world_";
+
+/**
+ * GeneratedApiKey is a freshly generated API key. The secret is shown once
+ * and only its hash is stored.
+ */
+export interface GeneratedApiKey {
+  /**
+   * secret is the plaintext key.
+   */
+  secret: string;
+
+  /**
+   * hash is the SHA-256 hash of the secret, as stored in kb_api_keys.
+   */
+  hash: string;
+
+  /**
+   * prefix is the first 8 characters of the random part of the secret,
+   * which identify the key without revealing it.
+   */
+  prefix: string;
+}
+
+/**
+ * generateApiKey generates a random API key.
+ */
+export async function generateApiKey(): Promise<GeneratedApiKey> {
+  const random = encodeHex(crypto.getRandomValues(new Uint8Array(24)));
+  const secret = apiKeyPrefix + random;
+  return { secret, hash: await hashApiKey(secret), prefix: random.slice(0, 8) };
+}
+
+/**
+ * hashApiKey returns the hex-encoded SHA-256 hash of an API key.
+ */
+export async function hashApiKey(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(secret),
+  );
+  return encodeHex(new Uint8Array(digest));
+}
+
+function encodeHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
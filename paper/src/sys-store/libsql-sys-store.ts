@@ -0,0 +1,432 @@
+import type { Client, Row } from "@libsql/client";
+import type {
+  AccountRow,
+  ApiKeyRow,
+  LimitRow,
+  SysStore,
+  UsageBucketRow,
+  UsageFilter,
+  UsageGranularity,
+  WorldRow,
+  WorldStorageRow,
+} from "../../../sqlite/sys.ts";
+
+const accountColumns = "account_id, description, plan, created_at, updated_at";
+const apiKeyColumns =
+  "key_hash, account_id, key_prefix, name, created_at, expires_at";
+const worldColumns =
+  "world_id, account_id, name, description, created_at, updated_at, deleted_at, is_public";
+const storageColumns = "world_id, account_id, storage_bytes, measured_at";
+const usageColumns =
+  "bucket_start_ts, account_id, key_prefix, endpoint, request_count, token_in_count, token_out_count";
+const limitColumns =
+  "plan, quota_requests_per_min, quota_storage_bytes, allow_reasoning";
+
+/**
+ * LibsqlSysStore is a SysStore backed by a libSQL database with the schema in
+ * sqlite/sys.sql.
+ */
+export class LibsqlSysStore implements SysStore {
+  public constructor(private readonly client: Client) {}
+
+  public async getAccount(accountId: string): Promise<AccountRow | null> {
+    const result = await this.client.execute({
+      sql: `SELECT ${accountColumns} FROM kb_accounts WHERE account_id = ?`,
+      args: [accountId],
+    });
+    return result.rows.length > 0 ? toAccountRow(result.rows[0]) : null;
+  }
+
+  public async listAccounts(): Promise<AccountRow[]> {
+    const result = await this.client.execute(
+      `SELECT ${accountColumns} FROM kb_accounts ORDER BY created_at, account_id`,
+    );
+    return result.rows.map(toAccountRow);
+  }
+
+  public async insertAccount(account: AccountRow): Promise<void> {
+    await this.client.execute({
+      sql: `INSERT INTO kb_accounts (${accountColumns}) VALUES (?, ?, ?, ?, ?)`,
+      args: [
+        account.account_id,
+        account.description,
+        account.plan,
+        account.created_at,
+        account.updated_at,
+      ],
+    });
+  }
+
+  public async updateAccount(account: AccountRow): Promise<void> {
+    await this.client.execute({
+      sql: `UPDATE kb_accounts SET description = ?, plan = ?, updated_at = ?
+        WHERE account_id = ?`,
+      args: [
+        account.description,
+        account.plan,
+        account.updated_at,
+        account.account_id,
+      ],
+    });
+  }
+
+  public async removeAccount(accountId: string): Promise<void> {
+    await this.client.execute({
+      sql: "DELETE FROM kb_accounts WHERE account_id = ?",
+      args: [accountId],
+    });
+  }
+
+  public async getAccountWorlds(accountId: string): Promise<string[]> {
+    const result = await this.client.execute({
+      sql: `SELECT world_id FROM kb_account_worlds WHERE account_id = ?
+        ORDER BY world_id`,
+      args: [accountId],
+    });
+    return result.rows.map((row) => String(row.world_id));
+  }
+
+  public async setAccountWorlds(
+    accountId: string,
+    worldIds: string[],
+  ): Promise<void> {
+    await this.client.batch([
+      {
+        sql: "DELETE FROM kb_account_worlds WHERE account_id = ?",
+        args: [accountId],
+      },
+      ...worldIds.map((worldId) => ({
+        sql: `INSERT OR IGNORE INTO kb_account_worlds (account_id, world_id)
+          VALUES (?, ?)`,
+        args: [accountId, worldId],
+      })),
+    ], "write");
+  }
+
+  public async grantWorld(accountId: string, worldId: string): Promise<void> {
+    await this.client.execute({
+      sql: `INSERT OR IGNORE INTO kb_account_worlds (account_id, world_id)
+        VALUES (?, ?)`,
+      args: [accountId, worldId],
+    });
+  }
+
+  public async revokeWorld(worldId: string): Promise<void> {
+    await this.client.execute({
+      sql: "DELETE FROM kb_account_worlds WHERE world_id = ?",
+      args: [worldId],
+    });
+  }
+
+  public async getApiKey(keyHash: string): Promise<ApiKeyRow | null> {
+    const result = await this.client.execute({
+      sql: `SELECT ${apiKeyColumns} FROM kb_api_keys WHERE key_hash = ?`,
+      args: [keyHash],
+    });
+    return result.rows.length > 0 ? toApiKeyRow(result.rows[0]) : null;
+  }
+
+  public async listApiKeys(accountId: string): Promise<ApiKeyRow[]> {
+    const result = await this.client.execute({
+      sql: `SELECT ${apiKeyColumns} FROM kb_api_keys WHERE account_id = ?
+        ORDER BY created_at, rowid`,
+      args: [accountId],
+    });
+    return result.rows.map(toApiKeyRow);
+  }
+
+  public async getApiKeyWorlds(keyHash: string): Promise<string[]> {
+    const result = await this.client.execute({
+      sql: `SELECT world_id FROM kb_api_key_worlds WHERE key_hash = ?
+        ORDER BY world_id`,
+      args: [keyHash],
+    });
+    return result.rows.map((row) => String(row.world_id));
+  }
+
+  public async insertApiKey(
+    key: ApiKeyRow,
+    worldIds: string[] = [],
+  ): Promise<void> {
+    await this.client.batch([
+      {
+        sql: `INSERT INTO kb_api_keys (${apiKeyColumns})
+          VALUES (?, ?, ?, ?, ?, ?)`,
+        args: [
+          key.key_hash,
+          key.account_id,
+          key.key_prefix,
+          key.name,
+          key.created_at,
+          key.expires_at,
+        ],
+      },
+      ...worldIds.map((worldId) => ({
+        sql: `INSERT OR IGNORE INTO kb_api_key_worlds (key_hash, world_id)
+          VALUES (?, ?)`,
+        args: [key.key_hash, worldId],
+      })),
+    ], "write");
+  }
+
+  public async removeApiKey(keyHash: string): Promise<void> {
+    await this.client.execute({
+      sql: "DELETE FROM kb_api_keys WHERE key_hash = ?",
+      args: [keyHash],
+    });
+  }
+
+  public async getWorld(worldId: string): Promise<WorldRow | null> {
+    const result = await this.client.execute({
+      sql: `SELECT ${worldColumns} FROM kb_worlds WHERE world_id = ?`,
+      args: [worldId],
+    });
+    return result.rows.length > 0 ? toWorldRow(result.rows[0]) : null;
+  }
+
+  public async listWorlds(accountId?: string): Promise<WorldRow[]> {
+    const result = await this.client.execute({
+      sql: `SELECT ${worldColumns} FROM kb_worlds
+        WHERE deleted_at IS NULL ${
+        accountId === undefined ? "" : "AND account_id = ?"
+      }
+        ORDER BY created_at, world_id`,
+      args: accountId === undefined ? [] : [accountId],
+    });
+    return result.rows.map(toWorldRow);
+  }
+
+  public async setWorld(world: WorldRow): Promise<void> {
+    await this.client.execute({
+      sql: `INSERT OR REPLACE INTO kb_worlds (${worldColumns})
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        world.world_id,
+        world.account_id,
+        world.name,
+        world.description,
+        world.created_at,
+        world.updated_at,
+        world.deleted_at,
+        world.is_public,
+      ],
+    });
+  }
+
+  public async getWorldStorage(
+    worldId: string,
+  ): Promise<WorldStorageRow | null> {
+    const result = await this.client.execute({
+      sql: `SELECT ${storageColumns} FROM kb_world_storage WHERE world_id = ?`,
+      args: [worldId],
+    });
+    return result.rows.length > 0 ? toWorldStorageRow(result.rows[0]) : null;
+  }
+
+  public async setWorldStorage(storage: WorldStorageRow): Promise<void> {
+    await this.client.execute({
+      sql: `INSERT OR REPLACE INTO kb_world_storage (${storageColumns})
+        VALUES (?, ?, ?, ?)`,
+      args: [
+        storage.world_id,
+        storage.account_id,
+        storage.storage_bytes,
+        storage.measured_at,
+      ],
+    });
+  }
+
+  public async getAccountStorage(accountId: string): Promise<number> {
+    const result = await this.client.execute({
+      sql: `SELECT COALESCE(SUM(s.storage_bytes), 0) AS storage_bytes
+        FROM kb_world_storage s
+        JOIN kb_worlds w ON w.world_id = s.world_id
+        WHERE s.account_id = ? AND w.deleted_at IS NULL`,
+      args: [accountId],
+    });
+    return Number(result.rows[0].storage_bytes);
+  }
+
+  public async getUsage(
+    accountId: string,
+    filter: UsageFilter = {},
+  ): Promise<UsageBucketRow[]> {
+    const conditions = ["account_id = ?"];
+    const args: (string | number)[] = [accountId];
+    if (filter.start !== undefined) {
+      conditions.push("bucket_start_ts >= ?");
+      args.push(filter.start);
+    }
+
+    if (filter.end !== undefined) {
+      conditions.push("bucket_start_ts < ?");
+      args.push(filter.end);
+    }
+
+    if (filter.endpoint !== undefined) {
+      conditions.push("endpoint = ?");
+      args.push(filter.endpoint);
+    }
+
+    if (filter.keyPrefix !== undefined) {
+      conditions.push("key_prefix = ?");
+      args.push(filter.keyPrefix);
+    }
+
+    const bucket = rollup(filter.granularity ?? "minute");
+    const result = await this.client.execute({
+      sql: `SELECT ${bucket} AS bucket_start_ts, account_id, key_prefix,
+          endpoint, SUM(request_count) AS request_count,
+          SUM(token_in_count) AS token_in_count,
+          SUM(token_out_count) AS token_out_count
+        FROM kb_usage WHERE ${conditions.join(" AND ")}
+        GROUP BY 1, account_id, key_prefix, endpoint
+        ORDER BY 1, key_prefix, endpoint`,
+      args,
+    });
+    return result.rows.map(toUsageBucketRow);
+  }
+
+  public async addUsage(buckets: UsageBucketRow[]): Promise<void> {
+    await this.client.batch(
+      buckets.map((bucket) => ({
+        sql: `INSERT INTO kb_usage (${usageColumns})
+          SELECT ?, account_id, ?, ?, ?, ?, ? FROM kb_accounts
+          WHERE account_id = ?
+          ON CONFLICT (bucket_start_ts, account_id, key_prefix, endpoint)
+          DO UPDATE SET
+            request_count = request_count + excluded.request_count,
+            token_in_count = token_in_count + excluded.token_in_count,
+            token_out_count = token_out_count + excluded.token_out_count`,
+        args: [
+          bucket.bucket_start_ts,
+          bucket.key_prefix,
+          bucket.endpoint,
+          bucket.request_count,
+          bucket.token_in_count,
+          bucket.token_out_count,
+          bucket.account_id,
+        ],
+      })),
+      "write",
+    );
+  }
+
+  public async getLimit(plan: string): Promise<LimitRow | null> {
+    const result = await this.client.execute({
+      sql: `SELECT ${limitColumns} FROM kb_limits WHERE plan = ?`,
+      args: [plan],
+    });
+    return result.rows.length > 0 ? toLimitRow(result.rows[0]) : null;
+  }
+
+  public async setLimit(limit: LimitRow): Promise<void> {
+    await this.client.execute({
+      sql: `INSERT OR REPLACE INTO kb_limits (${limitColumns})
+        VALUES (?, ?, ?, ?)`,
+      args: [
+        limit.plan,
+        limit.quota_requests_per_min,
+        limit.quota_storage_bytes,
+        limit.allow_reasoning,
+      ],
+    });
+  }
+}
+
+/**
+ * rollup returns the SQL expression of the start of the bucket that
+ * bucket_start_ts rolls up into. Months are calendar months in UTC.
+ */
+function rollup(granularity: UsageGranularity): string {
+  switch (granularity) {
+    case "minute": {
+      return "bucket_start_ts";
+    }
+
+    case "hour": {
+      return "bucket_start_ts - bucket_start_ts % 3600000";
+    }
+
+    case "day": {
+      return "bucket_start_ts - bucket_start_ts % 86400000";
+    }
+
+    case "month": {
+      return `CAST(strftime('%s', bucket_start_ts / 1000, 'unixepoch',
+        'start of month') AS INTEGER) * 1000`;
+    }
+  }
+}
+
+function toAccountRow(row: Row): AccountRow {
+  return {
+    account_id: String(row.account_id),
+    description: nullableString(row.description),
+    plan: String(row.plan),
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+  };
+}
+
+function toApiKeyRow(row: Row): ApiKeyRow {
+  return {
+    key_hash: String(row.key_hash),
+    account_id: String(row.account_id),
+    key_prefix: String(row.key_prefix),
+    name: nullableString(row.name),
+    created_at: Number(row.created_at),
+    expires_at: nullableNumber(row.expires_at),
+  };
+}
+
+function toWorldRow(row: Row): WorldRow {
+  return {
+    world_id: String(row.world_id),
+    account_id: String(row.account_id),
+    name: String(row.name),
+    description: nullableString(row.description),
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+    deleted_at: nullableNumber(row.deleted_at),
+    is_public: Number(row.is_public ?? 0),
+  };
+}
+
+function toWorldStorageRow(row: Row): WorldStorageRow {
+  return {
+    world_id: String(row.world_id),
+    account_id: String(row.account_id),
+    storage_bytes: Number(row.storage_bytes),
+    measured_at: Number(row.measured_at),
+  };
+}
+
+function toUsageBucketRow(row: Row): UsageBucketRow {
+  return {
+    bucket_start_ts: Number(row.bucket_start_ts),
+    account_id: String(row.account_id),
+    key_prefix: String(row.key_prefix ?? ""),
+    endpoint: String(row.endpoint),
+    request_count: Number(row.request_count ?? 0),
+    token_in_count: Number(row.token_in_count ?? 0),
+    token_out_count: Number(row.token_out_count ?? 0),
+  };
+}
+
+function toLimitRow(row: Row): LimitRow {
+  return {
+    plan: String(row.plan),
+    quota_requests_per_min: Number(row.quota_requests_per_min),
+    quota_storage_bytes: Number(row.quota_storage_bytes),
+    allow_reasoning: Number(row.allow_reasoning),
+  };
+}
+
+function nullableString(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+function nullableNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
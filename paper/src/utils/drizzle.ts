@@ -10,13 +10,17 @@ export const float32Array = customType<{
   data: number[];
   config: { dimensions: number };
   configRequired: true;
-  driverData: Buffer;
+  driverData: Buffer | ArrayBuffer;
 }>({
   dataType(config) {
     return `F32_BLOB(${config.dimensions})`;
   },
-  fromDriver(value: Buffer) {
-    return Array.from(new Float32Array(value.buffer));
+  fromDriver(value: Buffer | ArrayBuffer) {
+    // libSQL returns blobs as ArrayBuffers, other drivers as Buffers.
+    const bytes = value instanceof ArrayBuffer
+      ? value
+      : Uint8Array.from(value).buffer;
+    return Array.from(new Float32Array(bytes));
   },
   toDriver(value: number[]) {
     return sql`vector32(${JSON.stringify(value)})`;
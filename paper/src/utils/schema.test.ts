@@ -0,0 +1,80 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { createClient } from "@libsql/client";
+import {
+  applySchema,
+  schemaVersion,
+  SchemaVersionError,
+  statementsSchemaVersion,
+} from "./schema.ts";
+
+Deno.test("applySchema", async (t) => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await t.step("migrates unversioned world databases", async () => {
+      const client = createClient({ url: `file:${dir}/unversioned.db` });
+      // The statements schema before it was versioned.
+      await client.executeMultiple(`
+        CREATE TABLE kb_statements (
+          statement_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          subject TEXT NOT NULL,
+          predicate TEXT NOT NULL,
+          object TEXT NOT NULL,
+          graph TEXT NOT NULL,
+          term_type TEXT NOT NULL DEFAULT 'NamedNode',
+          object_language TEXT NOT NULL DEFAULT '',
+          object_datatype TEXT NOT NULL DEFAULT ''
+        );
+        CREATE TRIGGER kb_statements_ad_bn AFTER DELETE ON kb_statements
+        BEGIN
+          DELETE FROM kb_statements WHERE subject = old.object;
+        END;
+        INSERT INTO kb_statements (subject, predicate, object, graph)
+          VALUES ('http://example.org/s', 'http://example.org/p', 'http://example.org/o', '');
+      `);
+
+      await applySchema(client, "statements");
+      assertEquals(await schemaVersion(client), statementsSchemaVersion);
+      const rows = await client.execute(
+        "SELECT subject_term_type, graph_term_type FROM kb_statements",
+      );
+      assertEquals(
+        rows.rows.map((row) => [row.subject_term_type, row.graph_term_type]),
+        [["NamedNode", "DefaultGraph"]],
+      );
+      const triggers = await client.execute(
+        "SELECT name FROM sqlite_master WHERE name = 'kb_statements_ad_bn'",
+      );
+      assertEquals(triggers.rows.length, 0);
+
+      // Statements are logged from now on.
+      await client.execute("DELETE FROM kb_statements");
+      const changes = await client.execute(
+        "SELECT change_type FROM kb_changes",
+      );
+      assertEquals(changes.rows.map((row) => row.change_type), ["delete"]);
+      client.close();
+    });
+
+    await t.step("stamps new world databases", async () => {
+      const client = createClient({ url: `file:${dir}/new.db` });
+      await applySchema(client, "statements");
+      await applySchema(client, "statements");
+      assertEquals(await schemaVersion(client), statementsSchemaVersion);
+      client.close();
+    });
+
+    await t.step("rejects world databases of later versions", async () => {
+      const client = createClient({ url: `file:${dir}/future.db` });
+      await client.execute(
+        `PRAGMA user_version = ${statementsSchemaVersion + 1}`,
+      );
+      await assertRejects(
+        () => applySchema(client, "statements"),
+        SchemaVersionError,
+      );
+      client.close();
+    });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,147 @@
+import type { Client, InStatement } from "@libsql/client";
+
+/**
+ * Schema names a SQL schema in the sqlite directory.
+ */
+export type Schema = "statements" | "sys";
+
+/**
+ * Migration plans the statements that upgrade a world database by one schema
+ * version.
+ */
+type Migration = (client: Client) => Promise<InStatement[]>;
+
+/**
+ * statementsMigrations upgrade world databases from the schema version of
+ * their index to the next. Version 0 is the unversioned schema that predates
+ * the stamps. Tables, indices, and triggers that a version adds are created
+ * by the schema file afterwards.
+ */
+const statementsMigrations: Migration[] = [
+  // Unversioned databases may lack the term types of subjects and graphs.
+  async (client) => {
+    const result = await client.execute(
+      "SELECT name FROM pragma_table_info('kb_statements')",
+    );
+    const columns = new Set(result.rows.map((row) => String(row.name)));
+    return ["subject_term_type", "graph_term_type"]
+      .filter((column) => !columns.has(column))
+      .flatMap((column) => [
+        `ALTER TABLE kb_statements ADD COLUMN ${column}
+          TEXT NOT NULL DEFAULT 'NamedNode'`,
+        ...(column === "graph_term_type"
+          ? [`UPDATE kb_statements SET graph_term_type = 'DefaultGraph'
+              WHERE graph = ''`]
+          : []),
+      ]);
+  },
+  // Deletes of version 1 cascaded to blank nodes through a trigger. Blank
+  // node substructures are now removed by forgetResource, which only follows
+  // blank nodes that nothing else references.
+  () => Promise.resolve(["DROP TRIGGER IF EXISTS kb_statements_ad_bn"]),
+];
+
+/**
+ * statementsSchemaVersion is the version of the statements schema. World
+ * databases are stamped with it as their user_version, so that files from
+ * other deployments can be checked before they are attached.
+ */
+export const statementsSchemaVersion = statementsMigrations.length;
+
+/**
+ * SchemaVersionError is thrown when a database is stamped with a schema
+ * version that this server does not know.
+ */
+export class SchemaVersionError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = "SchemaVersionError";
+  }
+}
+
+/**
+ * ApplySchemaOptions configures how a schema is applied.
+ */
+export interface ApplySchemaOptions {
+  /**
+   * embeddingDimensions overrides the size of the embedding column of the
+   * statements schema, which defaults to 512.
+   */
+  embeddingDimensions?: number;
+}
+
+/**
+ * applySchema creates the tables, indices, and triggers of a schema if they
+ * do not exist yet. World databases of earlier schema versions are migrated
+ * first, and all are stamped with the current version.
+ */
+export async function applySchema(
+  client: Client,
+  schema: Schema,
+  options: ApplySchemaOptions = {},
+): Promise<void> {
+  let sql = await Deno.readTextFile(
+    new URL(`../../../sqlite/${schema}.sql`, import.meta.url),
+  );
+  if (options.embeddingDimensions !== undefined) {
+    if (
+      !Number.isInteger(options.embeddingDimensions) ||
+      options.embeddingDimensions <= 0
+    ) {
+      throw new RangeError("embeddingDimensions must be a positive integer");
+    }
+
+    sql = sql.replaceAll(
+      /FLOAT32\(\d+\)/g,
+      `FLOAT32(${options.embeddingDimensions})`,
+    );
+  }
+
+  if (schema === "statements") {
+    await migrateStatements(client);
+  }
+
+  await client.executeMultiple(sql);
+}
+
+/**
+ * schemaVersion reads the schema version a database is stamped with, or 0 if
+ * it is not stamped.
+ */
+export async function schemaVersion(client: Client): Promise<number> {
+  const result = await client.execute("PRAGMA user_version");
+  return Number(result.rows[0].user_version);
+}
+
+/**
+ * migrateStatements runs the migrations from the schema version of a world
+ * database to the current one in one transaction and stamps it. Databases
+ * without tables are only stamped, since the schema file creates them whole.
+ */
+async function migrateStatements(client: Client): Promise<void> {
+  const version = await schemaVersion(client);
+  if (version > statementsSchemaVersion) {
+    throw new SchemaVersionError(
+      `World database has schema version ${version}, newer than ${statementsSchemaVersion}`,
+    );
+  }
+
+  if (version === statementsSchemaVersion) {
+    return;
+  }
+
+  const tables = await client.execute(
+    "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'kb_statements'",
+  );
+  const statements: InStatement[] = [];
+  if (tables.rows.length > 0) {
+    for (const migration of statementsMigrations.slice(version)) {
+      statements.push(...await migration(client));
+    }
+  }
+
+  await client.batch([
+    ...statements,
+    `PRAGMA user_version = ${statementsSchemaVersion}`,
+  ], "write");
+}
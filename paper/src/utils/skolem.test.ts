@@ -0,0 +1,33 @@
+import { assert, assertEquals, assertNotEquals } from "@std/assert";
+import { deskolemize, skolemIri, Skolemizer } from "./skolem.ts";
+
+Deno.test("Skolemizer", async (t) => {
+  await t.step("maps labels to stable IRIs within a batch", () => {
+    const skolemizer = new Skolemizer();
+    const iri = skolemizer.skolemize("b0");
+    assert(iri.startsWith("urn:uuid:"));
+    assertEquals(skolemizer.skolemize("b0"), iri);
+    assertNotEquals(new Skolemizer().skolemize("b0"), iri);
+  });
+
+  await t.step("keeps UUID labels", () => {
+    const label = crypto.randomUUID();
+    assertEquals(new Skolemizer().skolemize(label), `urn:uuid:${label}`);
+  });
+
+  await t.step("uses the configured genid base", () => {
+    const base = "https://example.org/.well-known/genid/";
+    const iri = new Skolemizer(base).skolemize("b0");
+    assert(iri.startsWith(base));
+
+    const label = deskolemize(iri, base);
+    assertEquals(skolemIri(label, base), iri);
+  });
+
+  await t.step("deskolemizes foreign IRIs into valid labels", () => {
+    assertEquals(
+      deskolemize("https://other.org/x#1", "urn:uuid:"),
+      "https___other_org_x_1",
+    );
+  });
+});
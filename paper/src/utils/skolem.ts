@@ -0,0 +1,56 @@
+/**
+ * defaultGenidBase is the prefix of skolem IRIs when none is configured.
+ * Servers with a public domain may prefer
+ * `https://<domain>/.well-known/genid/` (RDF 1.1 §3.5).
+ */
+export const defaultGenidBase = "urn:uuid:";
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Skolemizer replaces blank nodes with stable IRIs at ingest. Blank node
+ * labels are scoped to a single Skolemizer: the same label maps to the same
+ * IRI, while labels of other batches map to fresh IRIs.
+ */
+export class Skolemizer {
+  private readonly iris = new Map<string, string>();
+
+  public constructor(public readonly genidBase = defaultGenidBase) {}
+
+  /**
+   * skolemize returns the skolem IRI of a blank node label. Labels that are
+   * already UUIDs, such as those returned by deskolemize, keep their identity
+   * so that exported blank nodes can be written back; other labels are
+   * replaced by a random UUID.
+   */
+  public skolemize(label: string): string {
+    let iri = this.iris.get(label);
+    if (iri === undefined) {
+      iri = this.genidBase + (UUID.test(label) ? label : crypto.randomUUID());
+      this.iris.set(label, iri);
+    }
+
+    return iri;
+  }
+}
+
+/**
+ * skolemIri returns the skolem IRI that a blank node label was read from,
+ * without minting a new one. It is used to look up blank nodes in patterns.
+ */
+export function skolemIri(label: string, genidBase = defaultGenidBase): string {
+  return genidBase + label;
+}
+
+/**
+ * deskolemize returns the blank node label of a skolem IRI. IRIs minted under
+ * another genid base are turned into a label by replacing the characters that
+ * are not allowed in blank node labels.
+ */
+export function deskolemize(iri: string, genidBase = defaultGenidBase): string {
+  if (iri.startsWith(genidBase) && iri.length > genidBase.length) {
+    return iri.slice(genidBase.length);
+  }
+
+  return iri.replaceAll(/[^A-Za-z0-9_-]/g, "_");
+}
@@ -0,0 +1,78 @@
+import { assertEquals } from "@std/assert";
+import * as oxigraph from "oxigraph";
+import { planMerge } from "./merge.ts";
+
+const ex = (name: string) => oxigraph.namedNode(`http://example.org/${name}`);
+const name = ex("name");
+const knows = ex("knows");
+const bob = ex("bob").value;
+
+Deno.test("planMerge", async (t) => {
+  const source = new oxigraph.Store([
+    oxigraph.quad(ex("alice"), name, oxigraph.literal("Alice Liddell")),
+    oxigraph.quad(ex("alice"), knows, ex("bob")),
+    oxigraph.quad(ex("carol"), name, oxigraph.literal("Carol")),
+  ]);
+  const target = new oxigraph.Store([
+    oxigraph.quad(ex("alice"), name, oxigraph.literal("Alice")),
+    oxigraph.quad(ex("alice"), knows, ex("dave")),
+  ]);
+  const values = (quads: oxigraph.Quad[]) =>
+    quads.map((quad) => quad.object.value).sort();
+
+  await t.step("unions statements without functional predicates", () => {
+    const plan = planMerge(source, target, { strategy: "source-wins" });
+    assertEquals(values(plan.insertions), ["Alice Liddell", "Carol", bob]);
+    assertEquals(plan.deletions, []);
+    assertEquals(plan.conflicts, 0);
+  });
+
+  await t.step("keeps both values with union", () => {
+    const plan = planMerge(source, target, {
+      strategy: "union",
+      functionalPredicates: [name.value],
+    });
+    assertEquals(values(plan.insertions), ["Alice Liddell", "Carol", bob]);
+    assertEquals(plan.deletions, []);
+    assertEquals(plan.conflicts, 1);
+  });
+
+  await t.step("replaces target values with source-wins", () => {
+    const plan = planMerge(source, target, {
+      strategy: "source-wins",
+      functionalPredicates: [name.value],
+    });
+    assertEquals(values(plan.insertions), ["Alice Liddell", "Carol", bob]);
+    assertEquals(values(plan.deletions), ["Alice"]);
+    assertEquals(plan.conflicts, 1);
+  });
+
+  await t.step("keeps target values with target-wins", () => {
+    const plan = planMerge(source, target, {
+      strategy: "target-wins",
+      functionalPredicates: [name.value],
+    });
+    assertEquals(values(plan.insertions), ["Carol", bob]);
+    assertEquals(plan.deletions, []);
+    assertEquals(plan.conflicts, 1);
+  });
+
+  await t.step("detects owl:FunctionalProperty declarations", () => {
+    const declared = new oxigraph.Store(target.match());
+    declared.add(
+      oxigraph.quad(
+        name,
+        oxigraph.namedNode(
+          "http://www.w3.org/1999/02/22-rdf-syntax-ns#type",
+        ),
+        oxigraph.namedNode(
+          "http://www.w3.org/2002/07/owl#FunctionalProperty",
+        ),
+      ),
+    );
+
+    const plan = planMerge(source, declared, { strategy: "target-wins" });
+    assertEquals(values(plan.insertions), ["Carol", bob]);
+    assertEquals(plan.conflicts, 1);
+  });
+});
@@ -0,0 +1,129 @@
+import * as oxigraph from "oxigraph";
+import type { UpdateDelta } from "./sparql-update.ts";
+
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
+const OWL_FUNCTIONAL_PROPERTY =
+  "http://www.w3.org/2002/07/owl#FunctionalProperty";
+
+/**
+ * MergeStrategy decides which values win when a functional predicate has
+ * different values in the source and the target of a merge. Statements of
+ * other predicates are always unioned.
+ */
+export type MergeStrategy = "union" | "source-wins" | "target-wins";
+
+/**
+ * MergePlanOptions configures planMerge.
+ */
+export interface MergePlanOptions {
+  strategy: MergeStrategy;
+
+  /**
+   * functionalPredicates are IRIs of predicates with at most one value per
+   * subject and graph, in addition to those declared owl:FunctionalProperty
+   * in either world.
+   */
+  functionalPredicates?: string[];
+}
+
+/**
+ * MergePlan is the delta that merges a source world into a target world.
+ */
+export interface MergePlan extends UpdateDelta {
+  /**
+   * conflicts is the number of subject, functional predicate, and graph
+   * combinations whose values differ between the two worlds.
+   */
+  conflicts: number;
+}
+
+/**
+ * planMerge computes the delta that merges the quads of a source store into
+ * a target store, leaving both unchanged.
+ */
+export function planMerge(
+  source: oxigraph.Store,
+  target: oxigraph.Store,
+  options: MergePlanOptions,
+): MergePlan {
+  const functional = new Set(options.functionalPredicates);
+  for (const store of [source, target]) {
+    for (
+      const quad of store.match(
+        null,
+        oxigraph.namedNode(RDF_TYPE),
+        oxigraph.namedNode(OWL_FUNCTIONAL_PROPERTY),
+        null,
+      )
+    ) {
+      functional.add(quad.subject.value);
+    }
+  }
+
+  const plan: MergePlan = { deletions: [], insertions: [], conflicts: 0 };
+  const resolved = new Set<string>();
+  for (const quad of source.match()) {
+    if (target.has(quad)) {
+      continue;
+    }
+
+    if (!functional.has(quad.predicate.value)) {
+      plan.insertions.push(quad);
+      continue;
+    }
+
+    // Values of a functional predicate are resolved together, once per
+    // subject and graph.
+    const key = JSON.stringify([
+      quad.subject.termType,
+      quad.subject.value,
+      quad.predicate.value,
+      quad.graph.termType,
+      quad.graph.value,
+    ]);
+    if (resolved.has(key)) {
+      continue;
+    }
+
+    resolved.add(key);
+    const sourceValues = source.match(
+      quad.subject,
+      quad.predicate,
+      null,
+      quad.graph,
+    );
+    const targetValues = target.match(
+      quad.subject,
+      quad.predicate,
+      null,
+      quad.graph,
+    );
+    const added = sourceValues.filter((value) => !target.has(value));
+    if (targetValues.length === 0) {
+      plan.insertions.push(...added);
+      continue;
+    }
+
+    plan.conflicts++;
+    switch (options.strategy) {
+      case "union": {
+        plan.insertions.push(...added);
+        break;
+      }
+
+      case "source-wins": {
+        plan.deletions.push(
+          ...targetValues.filter((value) => !source.has(value)),
+        );
+        plan.insertions.push(...added);
+        break;
+      }
+
+      case "target-wins": {
+        break;
+      }
+    }
+  }
+
+  return plan;
+}
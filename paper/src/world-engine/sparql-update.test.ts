@@ -0,0 +1,242 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import * as oxigraph from "oxigraph";
+import { evaluateUpdate, SparqlUpdateError } from "./sparql-update.ts";
+
+const ex = (name: string) => oxigraph.namedNode(`http://example.org/${name}`);
+
+function createStore(): oxigraph.Store {
+  return new oxigraph.Store([
+    oxigraph.quad(ex("alice"), ex("name"), oxigraph.literal("Alice")),
+    oxigraph.quad(ex("alice"), ex("knows"), ex("bob"), ex("g")),
+  ]);
+}
+
+Deno.test("evaluateUpdate", async (t) => {
+  await t.step("INSERT DATA / DELETE DATA", () => {
+    const store = createStore();
+    const delta = evaluateUpdate(
+      store,
+      `PREFIX ex: <http://example.org/>
+      DELETE DATA { ex:alice ex:name "Alice" } ;
+      INSERT DATA { ex:alice ex:name "Alice" ; ex:age 42 }`,
+    );
+    assertEquals(delta.deletions, []);
+    assertEquals(delta.insertions.length, 1);
+    assertEquals(delta.insertions[0].predicate.value, ex("age").value);
+
+    // The store itself is left unchanged.
+    assertEquals(store.size, 2);
+  });
+
+  await t.step("DELETE/INSERT WHERE", () => {
+    const delta = evaluateUpdate(
+      createStore(),
+      `PREFIX ex: <http://example.org/>
+      DELETE { ?s ex:name ?name } INSERT { ?s ex:label ?name }
+      WHERE { ?s ex:name ?name }`,
+    );
+    assertEquals(delta.deletions.map((quad) => quad.predicate.value), [
+      ex("name").value,
+    ]);
+    assertEquals(delta.insertions.map((quad) => quad.predicate.value), [
+      ex("label").value,
+    ]);
+  });
+
+  await t.step("CLEAR / DROP", () => {
+    assertEquals(
+      evaluateUpdate(createStore(), "DROP GRAPH <http://example.org/g>")
+        .deletions.length,
+      1,
+    );
+    assertEquals(
+      evaluateUpdate(createStore(), "CLEAR ALL").deletions.length,
+      2,
+    );
+  });
+
+  await t.step("LOAD of data IRIs", () => {
+    const turtle = encodeURIComponent(
+      "<http://example.org/carol> <http://example.org/knows> _:someone .",
+    );
+    const delta = evaluateUpdate(
+      createStore(),
+      `PREFIX ex: <http://example.org/>
+      LOAD <data:text/turtle,${turtle}> INTO GRAPH <http://example.org/g> ;
+      INSERT DATA { ex:carol ex:name "Carol" }`,
+    );
+    assertEquals(delta.insertions.length, 2);
+    const loaded = delta.insertions.find((quad) =>
+      quad.predicate.value === ex("knows").value
+    )!;
+    assertEquals(loaded.graph.value, ex("g").value);
+
+    // Blank nodes minted by the update are relabeled with UUIDs.
+    assertEquals(loaded.object.termType, "BlankNode");
+    assert(/^[0-9a-f-]{36}$/.test(loaded.object.value));
+  });
+
+  await t.step("LOAD SILENT ignores invalid documents", () => {
+    const delta = evaluateUpdate(
+      createStore(),
+      "LOAD SILENT <data:text/turtle,not%20turtle>",
+    );
+    assertEquals(delta, { deletions: [], insertions: [] });
+  });
+
+  await t.step("operations see the effects of earlier ones", () => {
+    const store = createStore();
+    const delta = evaluateUpdate(
+      store,
+      `PREFIX ex: <http://example.org/>
+      INSERT DATA { ex:bob ex:name "Bob" } ;
+      DELETE { ?s ex:name ?name } INSERT { ?s ex:label ?name }
+      WHERE { ?s ex:name ?name } ;
+      DELETE DATA { ex:alice ex:label "Alice" }`,
+    );
+    assertEquals(delta.deletions.map(String), [
+      '<http://example.org/alice> <http://example.org/name> "Alice"',
+    ]);
+    assertEquals(delta.insertions.map(String), [
+      '<http://example.org/bob> <http://example.org/label> "Bob"',
+    ]);
+    assertEquals(store.size, 2);
+  });
+
+  await t.step("WITH and USING select the graphs", () => {
+    const store = createStore();
+    const withDelta = evaluateUpdate(
+      store,
+      `PREFIX ex: <http://example.org/>
+      WITH ex:g DELETE { ?s ex:knows ?o } INSERT { ?o ex:knows ?s }
+      WHERE { ?s ex:knows ?o }`,
+    );
+    assertEquals(withDelta.deletions.map((quad) => quad.graph.value), [
+      ex("g").value,
+    ]);
+    assertEquals(withDelta.insertions.map(String), [
+      "<http://example.org/bob> <http://example.org/knows> " +
+      "<http://example.org/alice> <http://example.org/g>",
+    ]);
+
+    const usingDelta = evaluateUpdate(
+      store,
+      `PREFIX ex: <http://example.org/>
+      INSERT { ?s ex:friend ?o } USING ex:g WHERE { ?s ex:knows ?o }`,
+    );
+    assertEquals(usingDelta.insertions.map(String), [
+      "<http://example.org/alice> <http://example.org/friend> " +
+      "<http://example.org/bob>",
+    ]);
+  });
+
+  await t.step("stored blank nodes keep their labels", () => {
+    const address = oxigraph.blankNode(crypto.randomUUID());
+    const store = new oxigraph.Store([
+      oxigraph.quad(ex("alice"), ex("address"), address),
+      oxigraph.quad(address, ex("city"), oxigraph.literal("Paris")),
+    ]);
+    const delta = evaluateUpdate(
+      store,
+      `PREFIX ex: <http://example.org/>
+      DELETE { ?a ex:city ?city } INSERT { ?a ex:city "Lyon" ; ex:geo [] }
+      WHERE { ex:alice ex:address ?a . ?a ex:city ?city }`,
+    );
+    assert(delta.deletions[0].subject.equals(address));
+    assertEquals(delta.insertions.length, 2);
+    assert(delta.insertions.every((quad) => quad.subject.equals(address)));
+    const geo = delta.insertions.find((quad) =>
+      quad.predicate.equals(ex("geo"))
+    )!;
+    assertEquals(geo.object.termType, "BlankNode");
+    assert(!geo.object.equals(address));
+  });
+
+  await t.step("ADD / COPY / MOVE / CREATE", () => {
+    const copy = evaluateUpdate(
+      createStore(),
+      "COPY DEFAULT TO GRAPH <http://example.org/g>",
+    );
+    assertEquals(copy.deletions.map((quad) => quad.predicate.value), [
+      ex("knows").value,
+    ]);
+    assertEquals(copy.insertions.map((quad) => quad.graph.value), [
+      ex("g").value,
+    ]);
+
+    const move = evaluateUpdate(
+      createStore(),
+      "MOVE <http://example.org/g> TO DEFAULT",
+    );
+    // The destination is cleared first.
+    assertEquals(move.deletions.length, 2);
+    assertEquals(move.insertions.map(String), [
+      "<http://example.org/alice> <http://example.org/knows> " +
+      "<http://example.org/bob>",
+    ]);
+
+    assertEquals(
+      evaluateUpdate(createStore(), "ADD DEFAULT TO <http://example.org/h>")
+        .insertions.length,
+      1,
+    );
+    assertThrows(
+      () =>
+        evaluateUpdate(createStore(), "CREATE GRAPH <http://example.org/g>"),
+      SparqlUpdateError,
+      "already exists",
+    );
+    assertThrows(
+      () => evaluateUpdate(createStore(), "DROP GRAPH <http://example.org/h>"),
+      SparqlUpdateError,
+      "does not exist",
+    );
+  });
+
+  await t.step("LOAD is only recognized as an operation", () => {
+    const delta = evaluateUpdate(
+      createStore(),
+      `PREFIX ex: <http://example.org/>
+      # LOAD <data:text/turtle,%3Ca%3E%20%3Cb%3E%20%3Cc%3E%20.>
+      INSERT DATA { ex:alice ex:note "LOAD <data:text/turtle,x> ;" }`,
+    );
+    assertEquals(delta.insertions.map((quad) => quad.object.value), [
+      "LOAD <data:text/turtle,x> ;",
+    ]);
+
+    assertThrows(
+      () =>
+        evaluateUpdate(
+          createStore(),
+          "INSERT DATA { <http://example.org/a> <http://example.org/b> " +
+            "<http://example.org/c> } LOAD <data:text/turtle,x>",
+        ),
+      SparqlUpdateError,
+      'Unexpected "LOAD"',
+    );
+    assertThrows(
+      () => evaluateUpdate(createStore(), "LOAD <http://example.org/data>"),
+      SparqlUpdateError,
+      "only data: IRIs",
+    );
+  });
+
+  await t.step("invalid updates throw SparqlUpdateError", () => {
+    assertThrows(
+      () => evaluateUpdate(createStore(), "INSERT DATA { nonsense"),
+      SparqlUpdateError,
+    );
+
+    // Operations applied before the failure are reverted.
+    const store = createStore();
+    assertThrows(
+      () =>
+        evaluateUpdate(
+          store,
+          "CLEAR ALL ; INSERT DATA { <http://example.org/a> ?p ?o }",
+        ),
+      SparqlUpdateError,
+    );
+    assertEquals(store.size, 2);
+  });
+});
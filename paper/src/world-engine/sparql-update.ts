@@ -0,0 +1,679 @@
+import * as oxigraph from "oxigraph";
+
+/**
+ * TOKEN matches the next token of an update: whitespace, a comment, an IRI,
+ * a string, a bracket or separator, or a run of other characters.
+ */
+const TOKEN = new RegExp(
+  [
+    String.raw`\s+`,
+    String.raw`#[^\n\r]*`,
+    String.raw`<[^<>"{}|^\x60\\\x00-\x20]*>`,
+    String.raw`"""(?:[^"\\]|\\.|"(?!""))*"""`,
+    String.raw`'''(?:[^'\\]|\\.|'(?!''))*'''`,
+    String.raw`"(?:[^"\\\n\r]|\\.)*"`,
+    String.raw`'(?:[^'\\\n\r]|\\.)*'`,
+    String.raw`[{}();]`,
+    String.raw`(?:[^\s{}();#"'<\\]|\\.)+`,
+    String.raw`[^]`,
+  ].join("|"),
+  "ys",
+);
+
+/**
+ * SparqlUpdateError is thrown when a SPARQL update cannot be parsed or
+ * evaluated. The world is left unchanged.
+ */
+export class SparqlUpdateError extends Error {
+  public constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "SparqlUpdateError";
+  }
+}
+
+/**
+ * UpdateDelta is the exact set of quads a SPARQL update removes from and adds
+ * to a world.
+ */
+export interface UpdateDelta {
+  deletions: oxigraph.Quad[];
+  insertions: oxigraph.Quad[];
+}
+
+/**
+ * Operation is a parsed SPARQL update operation. Graphs, templates and
+ * patterns keep their source text, which is resolved against the prologue
+ * declared before the operation.
+ */
+type Operation =
+  & { prologue: string }
+  & (
+    | { type: "data"; clause: "INSERT" | "DELETE"; data: string }
+    | {
+      type: "modify";
+      with?: string;
+      deleteTemplate?: string;
+      insertTemplate?: string;
+      using: string;
+      where: string;
+    }
+    | { type: "load"; silent: boolean; iri: string; graph?: string }
+    | { type: "clear"; silent: boolean; graph: string }
+    | { type: "create"; silent: boolean; graph: string }
+    | {
+      type: "copy";
+      mode: "ADD" | "COPY" | "MOVE";
+      from: string;
+      to: string;
+    }
+  );
+
+/**
+ * evaluateUpdate returns the quads a SPARQL update removes from and adds to a
+ * store. DATA operations contribute their quads as written, and DELETE/INSERT
+ * templates are instantiated with the bindings of their WHERE clause, so that
+ * the cost is that of the update rather than of the store.
+ *
+ * Each operation is applied to the store in place so that the following
+ * operations see its effects, and every change is reverted before
+ * evaluateUpdate returns. Blank nodes minted by the update are labeled with
+ * UUIDs so that they keep their identity once skolemized.
+ */
+export function evaluateUpdate(
+  store: oxigraph.Store,
+  update: string,
+): UpdateDelta {
+  // changes maps every quad the update touched to whether it was stored
+  // before the update.
+  const changes = new Map<string, { quad: oxigraph.Quad; stored: boolean }>();
+  const track = (quad: oxigraph.Quad, stored: boolean) => {
+    const key = quad.toString();
+    if (!changes.has(key)) {
+      changes.set(key, { quad, stored });
+    }
+  };
+
+  try {
+    for (const operation of parseUpdate(update)) {
+      const delta = evaluateOperation(store, operation);
+      for (const quad of delta.deletions) {
+        if (store.has(quad)) {
+          track(quad, true);
+          store.delete(quad);
+        }
+      }
+
+      for (const quad of delta.insertions) {
+        if (!store.has(quad)) {
+          track(quad, false);
+          store.add(quad);
+        }
+      }
+    }
+
+    const deletions: oxigraph.Quad[] = [];
+    const insertions: oxigraph.Quad[] = [];
+    for (const { quad, stored } of changes.values()) {
+      if (stored !== store.has(quad)) {
+        (stored ? deletions : insertions).push(quad);
+      }
+    }
+
+    return { deletions, insertions };
+  } catch (error) {
+    if (error instanceof SparqlUpdateError) {
+      throw error;
+    }
+
+    throw new SparqlUpdateError(
+      error instanceof Error ? error.message : String(error),
+      { cause: error },
+    );
+  } finally {
+    for (const { quad, stored } of changes.values()) {
+      if (stored) {
+        store.add(quad);
+      } else {
+        store.delete(quad);
+      }
+    }
+  }
+}
+
+/**
+ * evaluateOperation returns the quads an operation deletes and inserts, in
+ * that order, given the current state of the store.
+ */
+function evaluateOperation(
+  store: oxigraph.Store,
+  operation: Operation,
+): UpdateDelta {
+  const { prologue } = operation;
+  switch (operation.type) {
+    case "data": {
+      const scratch = new oxigraph.Store();
+      scratch.update(`${prologue}\nINSERT DATA ${operation.data}`);
+      const quads = scratch.match();
+      if (operation.clause === "INSERT") {
+        return { deletions: [], insertions: relabelBlankNodes(quads) };
+      }
+
+      assertNoBlankNodes(quads, "DELETE DATA");
+      return { deletions: quads, insertions: [] };
+    }
+
+    case "modify": {
+      return evaluateModify(store, operation);
+    }
+
+    case "load": {
+      try {
+        const iri = resolveIri(prologue, operation.iri);
+        const graph = operation.graph === undefined
+          ? oxigraph.defaultGraph()
+          : resolveIri(prologue, operation.graph);
+        return {
+          deletions: [],
+          insertions: relabelBlankNodes(loadDataIri(iri.value, graph)),
+        };
+      } catch (error) {
+        if (operation.silent) {
+          return { deletions: [], insertions: [] };
+        }
+
+        throw error;
+      }
+    }
+
+    case "clear": {
+      const quads = graphQuads(store, prologue, operation.graph);
+      if (
+        quads.length === 0 && !operation.silent &&
+        !["DEFAULT", "NAMED", "ALL"].includes(operation.graph)
+      ) {
+        throw new SparqlUpdateError(
+          `The graph ${operation.graph} does not exist`,
+        );
+      }
+
+      return { deletions: quads, insertions: [] };
+    }
+
+    case "create": {
+      const quads = graphQuads(store, prologue, operation.graph);
+      if (quads.length > 0 && !operation.silent) {
+        throw new SparqlUpdateError(
+          `The graph ${operation.graph} already exists`,
+        );
+      }
+
+      return { deletions: [], insertions: [] };
+    }
+
+    case "copy": {
+      const from = graphTerm(prologue, operation.from);
+      const to = graphTerm(prologue, operation.to);
+      if (from.equals(to)) {
+        return { deletions: [], insertions: [] };
+      }
+
+      const quads = store.match(null, null, null, from);
+      const insertions = quads.map((quad) =>
+        oxigraph.quad(quad.subject, quad.predicate, quad.object, to)
+      );
+      const cleared = operation.mode === "ADD"
+        ? []
+        : store.match(null, null, null, to);
+      const moved = operation.mode === "MOVE" ? quads : [];
+      return { deletions: [...cleared, ...moved], insertions };
+    }
+  }
+}
+
+/**
+ * evaluateModify instantiates the templates of a DELETE/INSERT operation with
+ * the solutions of its WHERE clause. The templates are instantiated in an
+ * empty store, with the stored blank nodes of the solutions standing in as
+ * IRIs that are mapped back afterwards.
+ */
+function evaluateModify(
+  store: oxigraph.Store,
+  operation: Extract<Operation, { type: "modify" }>,
+): UpdateDelta {
+  const { prologue } = operation;
+  const solutions = store.query(
+    `${prologue}\nSELECT * ${operation.using} WHERE ${operation.where}`,
+    operation.with !== undefined && operation.using === ""
+      ? { default_graph: resolveIri(prologue, operation.with) }
+      : undefined,
+  ) as Map<string, oxigraph.Term>[];
+  if (solutions.length === 0) {
+    return { deletions: [], insertions: [] };
+  }
+
+  const base = `urn:uuid:${crypto.randomUUID()}#`;
+  const blankNodes = new Map<string, oxigraph.Term>();
+  const placeholder = (term: oxigraph.Term) => {
+    if (term.termType !== "BlankNode") {
+      return term.toString();
+    }
+
+    blankNodes.set(base + term.value, term);
+    return `<${base}${term.value}>`;
+  };
+  const restore = <T extends oxigraph.Term>(term: T): T =>
+    (term.termType === "NamedNode"
+      ? blankNodes.get(term.value) ?? term
+      : term) as T;
+
+  const variables = [
+    ...new Set(solutions.flatMap((solution) => [...solution.keys()])),
+  ];
+  const rows = solutions.map((solution) =>
+    `(${
+      variables.map((variable) => {
+        const term = solution.get(variable);
+        return term === undefined ? "UNDEF" : placeholder(term);
+      }).join(" ")
+    })`
+  );
+  const values = `VALUES (${
+    variables.map((variable) => `?${variable}`).join(" ")
+  }) { ${rows.join(" ")} }`;
+  const withClause = operation.with === undefined
+    ? ""
+    : `WITH ${operation.with} `;
+  const instantiate = (template: string | undefined) => {
+    if (template === undefined) {
+      return [];
+    }
+
+    const scratch = new oxigraph.Store();
+    scratch.update(
+      `${prologue}\n${withClause}INSERT ${template} WHERE { ${values} }`,
+    );
+    return scratch.match();
+  };
+
+  const deletions = instantiate(operation.deleteTemplate);
+  assertNoBlankNodes(deletions, "DELETE templates");
+  const insertions = relabelBlankNodes(instantiate(operation.insertTemplate));
+  const restoreQuad = (quad: oxigraph.Quad) =>
+    oxigraph.quad(
+      restore(quad.subject),
+      quad.predicate,
+      restore(quad.object),
+      restore(quad.graph),
+    );
+  return {
+    deletions: deletions.map(restoreQuad),
+    insertions: insertions.map(restoreQuad),
+  };
+}
+
+/**
+ * parseUpdate splits a SPARQL update into its operations. LOAD and the other
+ * keywords are only recognized where an operation starts, so they may appear
+ * freely in IRIs, strings and comments.
+ */
+function parseUpdate(update: string): Operation[] {
+  const tokens = tokenize(update);
+  const operations: Operation[] = [];
+  let prologue = "";
+  let i = 0;
+  const keyword = (offset = 0) => tokens[i + offset]?.text.toUpperCase();
+  const next = () => {
+    const token = tokens[i++];
+    if (token === undefined) {
+      throw new SparqlUpdateError("Unexpected end of update");
+    }
+
+    return token.text;
+  };
+  const expect = (...keywords: string[]) => {
+    for (const expected of keywords) {
+      if (keyword() !== expected) {
+        throw unexpected(tokens[i]?.text, expected);
+      }
+
+      i++;
+    }
+  };
+  const silent = () => {
+    if (keyword() !== "SILENT") {
+      return false;
+    }
+
+    i++;
+    return true;
+  };
+  const group = () => {
+    if (tokens[i]?.text !== "{") {
+      throw unexpected(tokens[i]?.text, "{");
+    }
+
+    const start = tokens[i].index;
+    let depth = 0;
+    do {
+      const text = next();
+      depth += text === "{" ? 1 : text === "}" ? -1 : 0;
+    } while (depth > 0);
+    return update.slice(start, tokens[i - 1].index + 1);
+  };
+  const graphOrDefault = () => {
+    if (keyword() === "DEFAULT") {
+      return next().toUpperCase();
+    }
+
+    if (keyword() === "GRAPH") {
+      i++;
+    }
+
+    return next();
+  };
+
+  while (i < tokens.length) {
+    switch (keyword()) {
+      case "PREFIX": {
+        prologue += `${next()} ${next()} ${next()}\n`;
+        continue;
+      }
+
+      case "BASE": {
+        prologue += `${next()} ${next()}\n`;
+        continue;
+      }
+
+      case "LOAD": {
+        i++;
+        const isSilent = silent();
+        const iri = next();
+        let graph: string | undefined;
+        if (keyword() === "INTO") {
+          expect("INTO", "GRAPH");
+          graph = next();
+        }
+
+        operations.push({
+          prologue,
+          type: "load",
+          silent: isSilent,
+          iri,
+          graph,
+        });
+        break;
+      }
+
+      case "CLEAR":
+      case "DROP": {
+        i++;
+        const isSilent = silent();
+        let graph: string;
+        if (keyword() === "GRAPH") {
+          i++;
+          graph = next();
+        } else {
+          graph = next().toUpperCase();
+          if (!["DEFAULT", "NAMED", "ALL"].includes(graph)) {
+            throw unexpected(graph, "GRAPH, DEFAULT, NAMED or ALL");
+          }
+        }
+
+        operations.push({ prologue, type: "clear", silent: isSilent, graph });
+        break;
+      }
+
+      case "CREATE": {
+        i++;
+        const isSilent = silent();
+        expect("GRAPH");
+        operations.push({
+          prologue,
+          type: "create",
+          silent: isSilent,
+          graph: next(),
+        });
+        break;
+      }
+
+      case "ADD":
+      case "COPY":
+      case "MOVE": {
+        const mode = next().toUpperCase() as "ADD" | "COPY" | "MOVE";
+        silent();
+        const from = graphOrDefault();
+        expect("TO");
+        operations.push({
+          prologue,
+          type: "copy",
+          mode,
+          from,
+          to: graphOrDefault(),
+        });
+        break;
+      }
+
+      case "INSERT":
+      case "DELETE":
+      case "WITH": {
+        if (keyword() !== "WITH" && keyword(1) === "DATA") {
+          const clause = next().toUpperCase() as "INSERT" | "DELETE";
+          i++;
+          operations.push({ prologue, type: "data", clause, data: group() });
+          break;
+        }
+
+        if (keyword() === "DELETE" && keyword(1) === "WHERE") {
+          i += 2;
+          const pattern = group();
+          operations.push({
+            prologue,
+            type: "modify",
+            deleteTemplate: pattern,
+            using: "",
+            where: pattern,
+          });
+          break;
+        }
+
+        let withGraph: string | undefined;
+        if (keyword() === "WITH") {
+          i++;
+          withGraph = next();
+        }
+
+        let deleteTemplate: string | undefined;
+        if (keyword() === "DELETE") {
+          i++;
+          deleteTemplate = group();
+        }
+
+        let insertTemplate: string | undefined;
+        if (keyword() === "INSERT" || deleteTemplate === undefined) {
+          expect("INSERT");
+          insertTemplate = group();
+        }
+
+        let using = "";
+        while (keyword() === "USING") {
+          i++;
+          using += keyword() === "NAMED" ? `FROM ${next()} ` : "FROM ";
+          using += `${next()} `;
+        }
+
+        expect("WHERE");
+        operations.push({
+          prologue,
+          type: "modify",
+          with: withGraph,
+          deleteTemplate,
+          insertTemplate,
+          using,
+          where: group(),
+        });
+        break;
+      }
+
+      default: {
+        throw unexpected(tokens[i].text, "an update operation");
+      }
+    }
+
+    if (i < tokens.length) {
+      expect(";");
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * tokenize splits an update into its tokens, leaving out whitespace and
+ * comments.
+ */
+function tokenize(update: string): { text: string; index: number }[] {
+  const tokens: { text: string; index: number }[] = [];
+  TOKEN.lastIndex = 0;
+  for (
+    let match = TOKEN.exec(update);
+    match !== null;
+    match = TOKEN.exec(update)
+  ) {
+    const [text] = match;
+    if (!/^\s/.test(text) && !text.startsWith("#")) {
+      tokens.push({ text, index: match.index });
+    }
+  }
+
+  return tokens;
+}
+
+function unexpected(
+  text: string | undefined,
+  expected: string,
+): SparqlUpdateError {
+  return new SparqlUpdateError(
+    text === undefined
+      ? `Unexpected end of update, expected ${expected}`
+      : `Unexpected "${text}" in update, expected ${expected}`,
+  );
+}
+
+/**
+ * resolveIri resolves an IRI or prefixed name against a prologue.
+ */
+function resolveIri(prologue: string, text: string): oxigraph.NamedNode {
+  const [solution] = new oxigraph.Store().query(
+    `${prologue}\nSELECT ?iri WHERE { BIND(${text} AS ?iri) }`,
+  ) as Map<string, oxigraph.Term>[];
+  const iri = solution?.get("iri");
+  if (iri?.termType !== "NamedNode") {
+    throw new SparqlUpdateError(`Invalid IRI: ${text}`);
+  }
+
+  return iri;
+}
+
+function graphTerm(
+  prologue: string,
+  graph: string,
+): oxigraph.NamedNode | oxigraph.DefaultGraph {
+  return graph === "DEFAULT"
+    ? oxigraph.defaultGraph()
+    : resolveIri(prologue, graph);
+}
+
+/**
+ * graphQuads returns the quads of a graph, or of the DEFAULT, NAMED or ALL
+ * graphs.
+ */
+function graphQuads(
+  store: oxigraph.Store,
+  prologue: string,
+  graph: string,
+): oxigraph.Quad[] {
+  switch (graph) {
+    case "NAMED": {
+      return store.match().filter((quad) =>
+        quad.graph.termType !== "DefaultGraph"
+      );
+    }
+
+    case "ALL": {
+      return store.match();
+    }
+
+    default: {
+      return store.match(null, null, null, graphTerm(prologue, graph));
+    }
+  }
+}
+
+/**
+ * loadDataIri parses the RDF document of a data: IRI (RFC 2397), since the
+ * store cannot fetch remote documents. Documents without a media type are read
+ * as Turtle.
+ */
+function loadDataIri(
+  iri: string,
+  graph: oxigraph.NamedNode | oxigraph.DefaultGraph,
+): oxigraph.Quad[] {
+  const comma = iri.indexOf(",");
+  if (!iri.startsWith("data:") || comma === -1) {
+    throw new SparqlUpdateError(`Cannot load <${iri}>: only data: IRIs`);
+  }
+
+  const [mediaType, ...parameters] = iri.slice("data:".length, comma)
+    .split(";");
+  const data = decodeURIComponent(iri.slice(comma + 1));
+  const text = parameters.includes("base64")
+    ? new TextDecoder().decode(
+      Uint8Array.from(atob(data), (char) => char.charCodeAt(0)),
+    )
+    : data;
+  return oxigraph.parse(text, {
+    format: mediaType || "text/turtle",
+    to_graph_name: graph,
+  });
+}
+
+/**
+ * relabelBlankNodes gives the blank nodes that an operation minted a UUID
+ * label.
+ */
+function relabelBlankNodes(quads: oxigraph.Quad[]): oxigraph.Quad[] {
+  const labels = new Map<string, oxigraph.BlankNode>();
+  const relabel = <T extends oxigraph.Term>(term: T): T => {
+    if (term.termType !== "BlankNode") {
+      return term;
+    }
+
+    let blankNode = labels.get(term.value);
+    if (blankNode === undefined) {
+      blankNode = oxigraph.blankNode(crypto.randomUUID());
+      labels.set(term.value, blankNode);
+    }
+
+    return blankNode as T;
+  };
+
+  return quads.map((quad) =>
+    oxigraph.quad(
+      relabel(quad.subject),
+      quad.predicate,
+      relabel(quad.object),
+      relabel(quad.graph),
+    )
+  );
+}
+
+function assertNoBlankNodes(quads: oxigraph.Quad[], clause: string): void {
+  const hasBlankNode = quads.some((quad) =>
+    [quad.subject, quad.object, quad.graph].some((term) =>
+      term.termType === "BlankNode"
+    )
+  );
+  if (hasBlankNode) {
+    throw new SparqlUpdateError(`Blank nodes are not allowed in ${clause}`);
+  }
+}
@@ -0,0 +1,212 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { type Client, createClient } from "@libsql/client";
+import { DataFactory } from "rdf-data-factory";
+import { SqliteSearchStore } from "#/search-store/sqlite-search-store.ts";
+import { applySchema } from "#/utils/schema.ts";
+import { SparqlQueryError, WorldEngine } from "./world-engine.ts";
+
+const factory = new DataFactory();
+const ex = (name: string) => factory.namedNode(`http://example.org/${name}`);
+
+Deno.test("WorldEngine", async (t) => {
+  const dir = await Deno.makeTempDir();
+  const clients: Client[] = [];
+  const stores = new Map<string, SqliteSearchStore>();
+  const openStore = async (worldId: string) => {
+    let store = stores.get(worldId);
+    if (store === undefined) {
+      const client = createClient({ url: `file:${dir}/world_${worldId}.db` });
+      clients.push(client);
+      await applySchema(client, "statements");
+      store = new SqliteSearchStore(client, factory, { chunking: false });
+      stores.set(worldId, store);
+    }
+
+    return store;
+  };
+
+  const engine = new WorldEngine({ openStore, maxQuads: 3 });
+  const count = async (worldId: string) => {
+    const result = await engine.query(
+      worldId,
+      "SELECT (COUNT(*) AS ?n) WHERE { ?s ?p ?o }",
+    ) as Map<string, { value: string }>[];
+    return parseInt(result[0].get("n")!.value);
+  };
+
+  try {
+    await t.step("hydrates a world from its search store", async () => {
+      const store = await openStore("a");
+      await store.addStatements([
+        factory.quad(ex("alice"), ex("knows"), ex("bob")),
+      ]);
+
+      assertEquals(await count("a"), 1);
+      assertEquals(await count("a"), 1);
+
+      const stats = await engine.stats();
+      assertEquals(stats.misses, 1);
+      assertEquals(stats.hits, 1);
+      assertEquals(stats.hotWorlds, 1);
+      assert(stats.hydrationTimeMs >= 0);
+    });
+
+    await t.step("writes through to the search store", async () => {
+      const quad = factory.quad(ex("bob"), ex("knows"), ex("carol"));
+      await engine.addQuads("a", [quad]);
+
+      assertEquals(await count("a"), 2);
+      assertEquals((await stores.get("a")!.matchStatements({})).length, 2);
+
+      await engine.deleteQuads("a", [quad]);
+      assertEquals(await count("a"), 1);
+      assertEquals((await stores.get("a")!.matchStatements({})).length, 1);
+    });
+
+    await t.step("serializes results", async () => {
+      const json = await engine.query("a", "SELECT ?o WHERE { ?s ?p ?o }", {
+        resultsFormat: "application/sparql-results+json",
+      });
+      assertEquals(
+        JSON.parse(json as string).results.bindings[0].o.value,
+        "http://example.org/bob",
+      );
+      assertEquals(await engine.query("a", "ASK { ?s ?p ?o }"), true);
+    });
+
+    await t.step("persists SPARQL updates", async () => {
+      const result = await engine.update(
+        "a",
+        `PREFIX ex: <http://example.org/>
+      INSERT { ?s ex:friend [ ex:name "Friend" ] } WHERE { ?s ex:knows ?o }`,
+      );
+      assertEquals(result, { inserted: 2, deleted: 0 });
+
+      const persisted = await stores.get("a")!.matchStatements({});
+      assertEquals(persisted.length, 3);
+      engine.invalidate("a");
+      assertEquals(await count("a"), 3);
+
+      const deleted = await engine.update(
+        "a",
+        `PREFIX ex: <http://example.org/>
+      DELETE WHERE { ?s ex:friend ?f . ?f ex:name ?name }`,
+      );
+      assertEquals(deleted, { inserted: 0, deleted: 2 });
+      assertEquals(await count("a"), 1);
+      assertEquals((await stores.get("a")!.matchStatements({})).length, 1);
+    });
+
+    await t.step("patches blank node writes into the hot world", async () => {
+      const { misses } = await engine.stats();
+      await engine.addQuads("a", [
+        factory.quad(ex("alice"), ex("address"), factory.blankNode("addr")),
+        factory.quad(
+          factory.blankNode("addr"),
+          ex("city"),
+          factory.literal("X"),
+        ),
+      ]);
+
+      const result = await engine.query(
+        "a",
+        "SELECT ?city WHERE { ?s <http://example.org/address> ?a . " +
+          "?a <http://example.org/city> ?city }",
+      ) as Map<string, { value: string }>[];
+      assertEquals(result[0].get("city")!.value, "X");
+      assertEquals((await engine.stats()).misses, misses);
+    });
+
+    await t.step("forgetResource patches the hot world", async () => {
+      const { misses } = await engine.stats();
+      const result = await engine.forgetResource(
+        "a",
+        "http://example.org/alice",
+      );
+      assertEquals(result.statements, 3);
+      assertEquals(await count("a"), 0);
+      assertEquals((await engine.stats()).misses, misses);
+    });
+
+    await t.step("evicts least recently used worlds", async () => {
+      for (const worldId of ["b", "c"]) {
+        await engine.addQuads(worldId, [
+          factory.quad(ex("s"), ex("p"), factory.literal("1")),
+          factory.quad(ex("s"), ex("p"), factory.literal("2")),
+        ]);
+      }
+
+      assertEquals(await count("b"), 2);
+      assertEquals(await count("c"), 2);
+
+      const stats = await engine.stats();
+      assert(stats.evictions > 0);
+      assert(stats.quads <= 3);
+      assertEquals(await count("b"), 2);
+    });
+
+    await t.step("hydrates worlds while another fails to", async () => {
+      const broken = await openStore("broken");
+      broken.matchStatements = () =>
+        new Promise((_, reject) =>
+          setTimeout(() => reject(new Error("unavailable")), 10)
+        );
+
+      const [failed, counted] = await Promise.allSettled([
+        count("broken"),
+        count("d"),
+      ]);
+      assertEquals(failed.status, "rejected");
+      assertEquals(counted.status === "fulfilled" && counted.value, 0);
+
+      // Only queries themselves are rejected as invalid.
+      const error = await assertRejects(() => count("broken"));
+      assert(!(error instanceof SparqlQueryError));
+      await assertRejects(
+        () => engine.query("d", "SELEC * WHERE {}"),
+        SparqlQueryError,
+      );
+    });
+
+    await t.step("keeps blank nodes that other subjects share", async () => {
+      const address = factory.blankNode("address");
+      await engine.addQuads("e", [
+        factory.quad(ex("alice"), ex("address"), address),
+        factory.quad(ex("carol"), ex("address"), address),
+        factory.quad(address, ex("city"), factory.literal("Paris")),
+      ]);
+
+      const deleted = await engine.update(
+        "e",
+        "DELETE WHERE { <http://example.org/alice> <http://example.org/address> ?a }",
+      );
+      assertEquals(deleted, { inserted: 0, deleted: 1 });
+      assertEquals((await stores.get("e")!.matchStatements({})).length, 2);
+      engine.invalidate("e");
+      const cities = await engine.query(
+        "e",
+        "SELECT ?city WHERE { <http://example.org/carol> " +
+          "<http://example.org/address> ?a . ?a <http://example.org/city> ?city }",
+      ) as Map<string, { value: string }>[];
+      assertEquals(cities.map((row) => row.get("city")!.value), ["Paris"]);
+
+      // Blank nodes are stored under their skolemized labels.
+      const [city] = await stores.get("e")!.matchStatements({
+        predicate: ex("city"),
+      });
+      const replaced = await engine.replaceQuads("e", [
+        factory.quad(ex("carol"), ex("name"), factory.literal("Carol")),
+        city,
+      ]);
+      assertEquals(replaced, { inserted: 1, deleted: 1 });
+      assertEquals((await stores.get("e")!.matchStatements({})).length, 2);
+    });
+  } finally {
+    engine.close();
+    for (const client of clients) {
+      client.close();
+    }
+
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,659 @@
+import type * as rdfjs from "@rdfjs/types";
+import * as oxigraph from "oxigraph";
+import type {
+  ForgetOptions,
+  ForgetResult,
+} from "../../../sqlite/statements.ts";
+import type {
+  SearchStore,
+  VersionedPatch,
+} from "#/search-store/search-store.ts";
+import { evaluateUpdate, type UpdateDelta } from "./sparql-update.ts";
+import { type MergePlan, type MergePlanOptions, planMerge } from "./merge.ts";
+import type { SyncChannel, SyncMessage, WorldPatch } from "./world-sync.ts";
+
+const N_QUADS = "application/n-quads";
+
+/**
+ * defaultMaxQuads is the default memory budget of a WorldEngine, in quads
+ * held across all hot worlds.
+ */
+export const defaultMaxQuads = 1_000_000;
+
+/**
+ * SparqlQueryError is thrown when a SPARQL query cannot be parsed or uses a
+ * feature that is not supported.
+ */
+export class SparqlQueryError extends Error {
+  public constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "SparqlQueryError";
+  }
+}
+
+/**
+ * WorldEngineOptions configures a WorldEngine.
+ */
+export interface WorldEngineOptions {
+  /**
+   * openStore opens the search store that persists a world.
+   */
+  openStore: (worldId: string) => SearchStore | Promise<SearchStore>;
+
+  /**
+   * maxQuads is the number of quads that may be held in memory across all
+   * worlds. Least recently used worlds are evicted to stay within budget.
+   */
+  maxQuads?: number;
+
+  /**
+   * channel syncs the hot worlds of this engine with the engines of other
+   * isolates. Hot worlds only see the writes of this engine when unset.
+   */
+  channel?: SyncChannel;
+
+  /**
+   * onError is called with errors that no caller can handle, such as a patch
+   * from another isolate that cannot be applied. Defaults to console.error.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * QueryOptions are the options of a SPARQL query against a world.
+ */
+export interface QueryOptions {
+  /**
+   * resultsFormat serializes the results, e.g.
+   * "application/sparql-results+json" or "application/n-quads". Results are
+   * returned as terms when unset.
+   */
+  resultsFormat?: string;
+}
+
+/**
+ * QueryResult is the result of a SPARQL query: bindings for SELECT, a boolean
+ * for ASK, quads for CONSTRUCT and DESCRIBE, or a string when a results
+ * format is requested.
+ */
+export type QueryResult =
+  | Map<string, rdfjs.Term>[]
+  | boolean
+  | rdfjs.Quad[]
+  | string;
+
+/**
+ * UpdateOptions are the options of a SPARQL update against a world.
+ */
+export interface UpdateOptions {
+  /**
+   * validate is called with the delta of the update before it is persisted.
+   * The update is rejected if validate throws.
+   */
+  validate?: (delta: UpdateDelta) => void | Promise<void>;
+}
+
+/**
+ * MergeOptions are the options of a merge of two worlds.
+ */
+export interface MergeOptions extends MergePlanOptions {
+  /**
+   * dryRun plans the merge without applying it.
+   */
+  dryRun?: boolean;
+
+  /**
+   * validate is called with the planned delta before it is persisted. The
+   * merge is rejected if validate throws.
+   */
+  validate?: (delta: UpdateDelta) => void | Promise<void>;
+}
+
+/**
+ * UpdateResult reports how a write changed a world, as recorded in its change
+ * log.
+ */
+export interface UpdateResult {
+  /**
+   * inserted is the number of quads the write added.
+   */
+  inserted: number;
+
+  /**
+   * deleted is the number of quads the write removed.
+   */
+  deleted: number;
+}
+
+/**
+ * WorldEngineStats are counters of a WorldEngine.
+ */
+export interface WorldEngineStats {
+  /**
+   * hits is the number of operations served by a hot world.
+   */
+  hits: number;
+
+  /**
+   * misses is the number of operations that had to hydrate a world.
+   */
+  misses: number;
+
+  /**
+   * hydrationTimeMs is the total time spent hydrating worlds.
+   */
+  hydrationTimeMs: number;
+
+  /**
+   * evictions is the number of worlds evicted to stay within budget.
+   */
+  evictions: number;
+
+  /**
+   * patches is the number of patches applied to hot worlds.
+   */
+  patches: number;
+
+  /**
+   * gaps is the number of patches that did not follow the version of a hot
+   * world, which had to be dropped instead.
+   */
+  gaps: number;
+
+  /**
+   * hotWorlds is the number of worlds held in memory.
+   */
+  hotWorlds: number;
+
+  /**
+   * quads is the number of quads held in memory.
+   */
+  quads: number;
+}
+
+/**
+ * HotWorld is the in-memory store of a world and the version of the world it
+ * holds.
+ */
+interface HotWorld {
+  store: oxigraph.Store;
+  version: number;
+}
+
+/**
+ * WorldEngine serves SPARQL queries from in-memory Oxigraph stores that are
+ * hydrated from each world's search store on first use. Writes are persisted
+ * to the search store before they are applied in memory, so the search store
+ * remains the source of truth and a hot world can be dropped at any time.
+ *
+ * After each write, the net change is read back from the change log of the
+ * world and applied as a versioned patch to the hot world, which is also
+ * published to the engines of other isolates. A hot world that misses a
+ * patch is dropped and hydrated again.
+ */
+export class WorldEngine {
+  private readonly maxQuads: number;
+
+  /**
+   * hot maps world IDs to their in-memory stores in least recently used
+   * order.
+   */
+  private readonly hot = new Map<string, Promise<HotWorld>>();
+  private readonly stores = new Map<string, Promise<SearchStore>>();
+  private readonly writes = new Map<string, Promise<unknown>>();
+  private readonly unsubscribe: () => void;
+  private readonly counters = {
+    hits: 0,
+    misses: 0,
+    hydrationTimeMs: 0,
+    evictions: 0,
+    patches: 0,
+    gaps: 0,
+  };
+
+  public constructor(private readonly options: WorldEngineOptions) {
+    this.maxQuads = options.maxQuads ?? defaultMaxQuads;
+    this.unsubscribe =
+      options.channel?.subscribe((message) => this.receive(message)) ??
+        (() => {});
+  }
+
+  /**
+   * query runs a SPARQL query against a world in memory.
+   */
+  public async query(
+    worldId: string,
+    query: string,
+    options: QueryOptions = {},
+  ): Promise<QueryResult> {
+    const hot = await this.hydrate(worldId);
+    try {
+      return hot.store.query(query, {
+        results_format: options.resultsFormat,
+      }) as QueryResult;
+    } catch (error) {
+      // Oxigraph rejects queries it cannot parse or evaluate with a plain
+      // Error; failures of the world itself surface from hydrate above.
+      throw new SparqlQueryError(
+        error instanceof Error ? error.message : String(error),
+        { cause: error },
+      );
+    }
+  }
+
+  /**
+   * update runs a SPARQL update against a world. The update is evaluated in
+   * memory, and the resulting delta is persisted to the search store in one
+   * transaction before it is applied to the hot store.
+   */
+  public update(
+    worldId: string,
+    update: string,
+    options: UpdateOptions = {},
+  ): Promise<UpdateResult> {
+    return this.serialize(worldId, async () => {
+      const hot = await this.hydrate(worldId);
+      const version = hot.version;
+      const delta = evaluateUpdate(hot.store, update);
+      await options.validate?.(delta);
+      const store = await this.store(worldId);
+      await store.patchStatements(delta);
+      return await this.commit(worldId, version);
+    });
+  }
+
+  /**
+   * merge merges the quads of a source world into a target world. The merge
+   * is planned against both hot stores and persisted to the target's search
+   * store in one transaction, unless it is a dry run.
+   */
+  public merge(
+    sourceId: string,
+    targetId: string,
+    options: MergeOptions,
+  ): Promise<MergePlan> {
+    return this.serialize(targetId, async () => {
+      const source = await this.hydrate(sourceId);
+      const target = await this.hydrate(targetId);
+      const version = target.version;
+      const plan = planMerge(source.store, target.store, options);
+      if (options.dryRun) {
+        return plan;
+      }
+
+      await options.validate?.(plan);
+      const store = await this.store(targetId);
+      await store.patchStatements(plan);
+      await this.commit(targetId, version);
+      return plan;
+    });
+  }
+
+  /**
+   * addQuads persists quads to a world, then adds them to its hot store.
+   */
+  public addQuads(worldId: string, quads: rdfjs.Quad[]): Promise<void> {
+    return this.serialize(worldId, async () => {
+      const version = await this.version(worldId);
+      const store = await this.store(worldId);
+      await store.addStatements(quads);
+      await this.commit(worldId, version);
+    });
+  }
+
+  /**
+   * replaceQuads replaces all quads of a world in one transaction. Only the
+   * quads that differ are written, so unchanged statements keep their IDs,
+   * chunks, and history.
+   */
+  public replaceQuads(
+    worldId: string,
+    quads: rdfjs.Quad[],
+  ): Promise<UpdateResult> {
+    return this.serialize(worldId, async () => {
+      const version = await this.version(worldId);
+      const store = await this.store(worldId);
+      const current = await store.matchStatements({});
+      const existing = new oxigraph.Store(current as oxigraph.Quad[]);
+      const next = new oxigraph.Store(quads as oxigraph.Quad[]);
+      await store.patchStatements({
+        deletions: current.filter((quad) => !next.has(quad as oxigraph.Quad)),
+        insertions: quads.filter((quad) =>
+          !existing.has(quad as oxigraph.Quad)
+        ),
+      });
+      return await this.commit(worldId, version);
+    });
+  }
+
+  /**
+   * deleteQuads removes quads from a world, then from its hot store.
+   */
+  public deleteQuads(worldId: string, quads: rdfjs.Quad[]): Promise<void> {
+    return this.serialize(worldId, async () => {
+      const version = await this.version(worldId);
+      const store = await this.store(worldId);
+      await store.deleteStatements(quads);
+      await this.commit(worldId, version);
+    });
+  }
+
+  /**
+   * forgetResource removes a resource and its blank node substructures from
+   * a world.
+   */
+  public forgetResource(
+    worldId: string,
+    iri: string,
+    options?: ForgetOptions,
+  ): Promise<ForgetResult> {
+    return this.serialize(worldId, async () => {
+      const version = await this.version(worldId);
+      const store = await this.store(worldId);
+      const result = await store.forgetResource(iri, options);
+      if (!result.dryRun && result.statements > 0) {
+        await this.commit(worldId, version);
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * dump serializes a world, or one graph of it for formats without named
+   * graphs.
+   */
+  public async dump(
+    worldId: string,
+    format: string,
+    graph?: oxigraph.NamedNode | oxigraph.DefaultGraph,
+  ): Promise<string> {
+    const hot = await this.hydrate(worldId);
+    return hot.store.dump({ format, from_graph_name: graph });
+  }
+
+  /**
+   * invalidate drops the hot store of a world, which is hydrated again on
+   * next use.
+   */
+  public invalidate(worldId: string): void {
+    this.hot.delete(worldId);
+  }
+
+  /**
+   * closeWorld drops the hot store of a world and forgets its search store,
+   * for example after its database is removed. The engines of other isolates
+   * drop the world too.
+   */
+  public closeWorld(worldId: string): void {
+    this.hot.delete(worldId);
+    this.stores.delete(worldId);
+    this.options.channel?.publish({ type: "reset", worldId });
+  }
+
+  /**
+   * close drops all hot stores, forgets the opened search stores, and stops
+   * syncing with other isolates. The channel is owned by the caller.
+   */
+  public close(): void {
+    this.unsubscribe();
+    this.hot.clear();
+    this.stores.clear();
+  }
+
+  /**
+   * stats returns the counters of the engine.
+   */
+  public async stats(): Promise<WorldEngineStats> {
+    let quads = 0;
+    for (const store of await Promise.allSettled(this.hot.values())) {
+      if (store.status === "fulfilled") {
+        quads += store.value.store.size;
+      }
+    }
+
+    return { ...this.counters, hotWorlds: this.hot.size, quads };
+  }
+
+  /**
+   * hydrate returns the hot store of a world, loading it from the search
+   * store on a miss.
+   */
+  private async hydrate(worldId: string): Promise<HotWorld> {
+    const cached = this.hot.get(worldId);
+    if (cached !== undefined) {
+      this.counters.hits++;
+      this.hot.delete(worldId);
+      this.hot.set(worldId, cached);
+      return await cached;
+    }
+
+    this.counters.misses++;
+    const loading = (async () => {
+      const start = performance.now();
+      const store = await this.store(worldId);
+      // The version is read first: patches since then are applied on top of
+      // the statements, which may already include some of them.
+      const version = await store.getVersion();
+      // Oxigraph accepts any RDF/JS quads, whichever factory built them.
+      const quads = await store.matchStatements({});
+      const hot = new oxigraph.Store(quads as oxigraph.Quad[]);
+      this.counters.hydrationTimeMs += performance.now() - start;
+      return { store: hot, version };
+    })();
+    this.hot.set(worldId, loading);
+    try {
+      const hot = await loading;
+      await this.evict(worldId);
+      return hot;
+    } catch (error) {
+      if (this.hot.get(worldId) === loading) {
+        this.hot.delete(worldId);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * evict drops least recently used worlds, other than the given one, until
+   * the hot stores fit the memory budget.
+   */
+  private async evict(keep: string): Promise<void> {
+    const worlds = [...this.hot];
+    const loaded = await Promise.allSettled(
+      worlds.map(([, loading]) => loading),
+    );
+    const sizes = new Map<string, number>();
+    let total = 0;
+    worlds.forEach(([worldId], i) => {
+      const world = loaded[i];
+      // Failed hydrations are dropped by the calls that started them.
+      if (world.status === "fulfilled") {
+        sizes.set(worldId, world.value.store.size);
+        total += world.value.store.size;
+      }
+    });
+
+    for (const [worldId, size] of sizes) {
+      if (total <= this.maxQuads) {
+        break;
+      }
+
+      if (worldId === keep) {
+        continue;
+      }
+
+      this.hot.delete(worldId);
+      this.counters.evictions++;
+      total -= size;
+    }
+  }
+
+  /**
+   * version returns the version of a world before a write: that of its hot
+   * store if it is hot, so that a write also catches the hot store up with
+   * writes it missed, or else that of its search store.
+   */
+  private async version(worldId: string): Promise<number> {
+    const cached = this.hot.get(worldId);
+    if (cached !== undefined) {
+      try {
+        return (await cached).version;
+      } catch {
+        // A failed hydration is dropped, so the search store is asked.
+      }
+    }
+
+    return await (await this.store(worldId)).getVersion();
+  }
+
+  /**
+   * commit reads the net change of a persisted write back from the change
+   * log of a world, applies it to the hot store, and publishes it to the
+   * engines of other isolates. Blank nodes are read back under the labels
+   * the search store skolemized them to, so they patch cleanly. The counts
+   * of the patch are returned.
+   */
+  private async commit(
+    worldId: string,
+    version: number,
+  ): Promise<UpdateResult> {
+    const store = await this.store(worldId);
+    const patch = await store.getPatch(version);
+    const result = {
+      inserted: patch.insertions.length,
+      deleted: patch.deletions.length,
+    };
+    if (patch.to === patch.from) {
+      return result;
+    }
+
+    await this.patch(worldId, patch);
+    this.options.channel?.publish({
+      type: "patch",
+      worldId,
+      from: patch.from,
+      to: patch.to,
+      deletions: toNQuads(patch.deletions),
+      insertions: toNQuads(patch.insertions),
+    });
+    return result;
+  }
+
+  /**
+   * patch applies a versioned patch to the hot store of a world, if it is
+   * hot. Patches the hot store is already past are ignored. A patch that
+   * does not start at its version means that patches were missed, so the
+   * hot store is dropped and hydrated again on next use.
+   */
+  private async patch(worldId: string, patch: VersionedPatch): Promise<void> {
+    const cached = this.hot.get(worldId);
+    if (cached === undefined) {
+      return;
+    }
+
+    let hot: HotWorld;
+    try {
+      hot = await cached;
+    } catch {
+      return;
+    }
+
+    if (patch.to <= hot.version) {
+      return;
+    }
+
+    if (patch.from !== hot.version) {
+      this.counters.gaps++;
+      if (this.hot.get(worldId) === cached) {
+        this.hot.delete(worldId);
+      }
+
+      return;
+    }
+
+    // Oxigraph accepts any RDF/JS quads, whichever factory built them.
+    patch.deletions.forEach((quad) => hot.store.delete(quad as oxigraph.Quad));
+    patch.insertions.forEach((quad) => hot.store.add(quad as oxigraph.Quad));
+    hot.version = patch.to;
+    this.counters.patches++;
+  }
+
+  /**
+   * receive handles a message from the engine of another isolate.
+   */
+  private receive(message: SyncMessage): void {
+    switch (message.type) {
+      case "patch": {
+        // Patches are only parsed for worlds that are hot here.
+        const cached = this.hot.get(message.worldId);
+        if (cached === undefined) {
+          break;
+        }
+
+        this.receivePatch(message).catch((error) => {
+          // The hot world missed the patch, so it is hydrated again on next
+          // use.
+          if (this.hot.get(message.worldId) === cached) {
+            this.hot.delete(message.worldId);
+          }
+
+          (this.options.onError ?? console.error)(error);
+        });
+        break;
+      }
+
+      case "reset": {
+        this.hot.delete(message.worldId);
+        this.stores.delete(message.worldId);
+        break;
+      }
+    }
+  }
+
+  /**
+   * receivePatch parses a patch from another isolate and applies it.
+   */
+  private async receivePatch(message: WorldPatch): Promise<void> {
+    await this.patch(message.worldId, {
+      from: message.from,
+      to: message.to,
+      deletions: oxigraph.parse(message.deletions, { format: N_QUADS }),
+      insertions: oxigraph.parse(message.insertions, { format: N_QUADS }),
+    });
+  }
+
+  /**
+   * serialize runs the writes of a world one at a time, so that each update
+   * is evaluated against the result of the previous one.
+   */
+  private serialize<T>(worldId: string, write: () => Promise<T>): Promise<T> {
+    const previous = this.writes.get(worldId) ?? Promise.resolve();
+    const next = previous.then(write, write);
+    const settled = next.catch(() => {});
+    this.writes.set(worldId, settled);
+    settled.then(() => {
+      if (this.writes.get(worldId) === settled) {
+        this.writes.delete(worldId);
+      }
+    });
+    return next;
+  }
+
+  private store(worldId: string): Promise<SearchStore> {
+    let store = this.stores.get(worldId);
+    if (store === undefined) {
+      store = Promise.resolve(this.options.openStore(worldId));
+      this.stores.set(worldId, store);
+    }
+
+    return store;
+  }
+}
+
+function toNQuads(quads: rdfjs.Quad[]): string {
+  return quads.length === 0
+    ? ""
+    : new oxigraph.Store(quads as oxigraph.Quad[]).dump({ format: N_QUADS });
+}
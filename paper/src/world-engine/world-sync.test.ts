@@ -0,0 +1,145 @@
+import { assertEquals } from "@std/assert";
+import { createClient } from "@libsql/client";
+import { DataFactory } from "rdf-data-factory";
+import { SqliteSearchStore } from "#/search-store/sqlite-search-store.ts";
+import { applySchema } from "#/utils/schema.ts";
+import { WorldEngine } from "./world-engine.ts";
+import {
+  BroadcastSyncChannel,
+  MemorySyncBus,
+  type SyncChannel,
+  type SyncMessage,
+} from "./world-sync.ts";
+
+const factory = new DataFactory();
+const ex = (name: string) => factory.namedNode(`http://example.org/${name}`);
+const name = factory.namedNode("http://schema.org/name");
+
+Deno.test("WorldEngine sync", async (t) => {
+  // Both engines share the databases of their worlds, like isolates that
+  // open the same files.
+  const dir = await Deno.makeTempDir();
+  const client = createClient({ url: `file:${dir}/world_w.db` });
+  try {
+    await applySchema(client, "statements");
+    const store = new SqliteSearchStore(client, factory, { chunking: false });
+    const openStore = () => store;
+
+    const bus = new MemorySyncBus();
+    const channel = bus.channel();
+    let dropping = false;
+    const lossy: SyncChannel = {
+      publish: (message) => dropping || channel.publish(message),
+      subscribe: (listener) => channel.subscribe(listener),
+    };
+    const writer = new WorldEngine({ openStore, channel: lossy });
+    const errors: unknown[] = [];
+    const reader = new WorldEngine({
+      openStore,
+      channel: bus.channel(),
+      onError: (error) => errors.push(error),
+    });
+    const names = async () => {
+      const result = await reader.query(
+        "w",
+        "SELECT ?name WHERE { ?s <http://schema.org/name> ?name } ORDER BY ?name",
+      ) as Map<string, { value: string }>[];
+      return result.map((row) => row.get("name")!.value);
+    };
+
+    await t.step("patches the hot worlds of other engines", async () => {
+      await writer.addQuads("w", [
+        factory.quad(ex("alice"), ex("knows"), ex("bob")),
+      ]);
+      assertEquals(await names(), []);
+
+      await writer.addQuads("w", [
+        factory.quad(ex("alice"), name, factory.literal("Alice")),
+        factory.quad(ex("alice"), ex("address"), factory.blankNode("address")),
+        factory.quad(
+          factory.blankNode("address"),
+          name,
+          factory.literal("Home"),
+        ),
+      ]);
+      await writer.update(
+        "w",
+        `PREFIX schema: <http://schema.org/>
+      DELETE { ?s schema:name "Alice" } INSERT { ?s schema:name "Alicia" }
+      WHERE { ?s schema:name "Alice" }`,
+      );
+      assertEquals(await names(), ["Alicia", "Home"]);
+
+      const stats = await reader.stats();
+      assertEquals(stats.misses, 1);
+      assertEquals(stats.patches, 2);
+      assertEquals(stats.gaps, 0);
+    });
+
+    await t.step("hydrates again after a missed patch", async () => {
+      dropping = true;
+      await writer.addQuads("w", [
+        factory.quad(ex("bob"), name, factory.literal("Bob")),
+      ]);
+      dropping = false;
+      await writer.deleteQuads("w", [
+        factory.quad(ex("bob"), name, factory.literal("Bob")),
+        factory.quad(ex("alice"), ex("knows"), ex("bob")),
+      ]);
+
+      assertEquals(await names(), ["Alicia", "Home"]);
+      const stats = await reader.stats();
+      assertEquals(stats.gaps, 1);
+      assertEquals(stats.misses, 2);
+    });
+
+    await t.step(
+      "drops hot worlds that a patch fails to apply to",
+      async () => {
+        const { misses } = await reader.stats();
+        channel.publish({
+          type: "patch",
+          worldId: "w",
+          from: 0,
+          to: Number.MAX_SAFE_INTEGER,
+          deletions: "not N-Quads",
+          insertions: "",
+        });
+
+        assertEquals((await reader.stats()).hotWorlds, 0);
+        assertEquals(errors.length, 1);
+        assertEquals(await names(), ["Alicia", "Home"]);
+        assertEquals((await reader.stats()).misses, misses + 1);
+      },
+    );
+
+    await t.step("drops worlds closed by other engines", async () => {
+      assertEquals((await reader.stats()).hotWorlds, 1);
+      writer.closeWorld("w");
+      assertEquals((await reader.stats()).hotWorlds, 0);
+    });
+
+    writer.close();
+    reader.close();
+  } finally {
+    client.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("BroadcastSyncChannel", async () => {
+  const sender = new BroadcastSyncChannel("worlds-sync-test");
+  const receiver = new BroadcastSyncChannel("worlds-sync-test");
+  const received = new Promise<SyncMessage>((resolve) => {
+    const unsubscribe = receiver.subscribe((message) => {
+      unsubscribe();
+      resolve(message);
+    });
+  });
+
+  const message: SyncMessage = { type: "reset", worldId: "w" };
+  sender.publish(message);
+  assertEquals(await received, message);
+  sender.close();
+  receiver.close();
+});
@@ -0,0 +1,135 @@
+/**
+ * defaultSyncChannelName is the name of the BroadcastChannel that isolates
+ * sync their hot worlds over by default.
+ */
+export const defaultSyncChannelName = "worlds-sync";
+
+/**
+ * WorldPatch is the net change of a write to a world, published after it is
+ * committed so that other isolates can apply it to their hot store of the
+ * world instead of hydrating it again. Versions are IDs in the change log of
+ * the world.
+ */
+export interface WorldPatch {
+  type: "patch";
+  worldId: string;
+
+  /**
+   * from is the version of the world the patch applies to.
+   */
+  from: number;
+
+  /**
+   * to is the version of the world after the patch.
+   */
+  to: number;
+
+  /**
+   * deletions are the deleted quads as N-Quads.
+   */
+  deletions: string;
+
+  /**
+   * insertions are the inserted quads as N-Quads.
+   */
+  insertions: string;
+}
+
+/**
+ * WorldReset tells other isolates to drop a world, for example after its
+ * database is removed, since a new world of the same ID starts its versions
+ * over.
+ */
+export interface WorldReset {
+  type: "reset";
+  worldId: string;
+}
+
+/**
+ * SyncMessage is a message between the hot stores of isolates.
+ */
+export type SyncMessage = WorldPatch | WorldReset;
+
+/**
+ * SyncChannel carries sync messages between isolates. Like a
+ * BroadcastChannel, a channel does not receive the messages it publishes.
+ */
+export interface SyncChannel {
+  /**
+   * publish sends a message to the other channels.
+   */
+  publish(message: SyncMessage): void;
+
+  /**
+   * subscribe calls a listener with the messages of the other channels until
+   * the returned function is called.
+   */
+  subscribe(listener: (message: SyncMessage) => void): () => void;
+}
+
+/**
+ * BroadcastSyncChannel is a SyncChannel over a BroadcastChannel, which
+ * reaches the other isolates of a deployment.
+ */
+export class BroadcastSyncChannel implements SyncChannel {
+  private readonly channel: BroadcastChannel;
+
+  public constructor(name = defaultSyncChannelName) {
+    this.channel = new BroadcastChannel(name);
+  }
+
+  public publish(message: SyncMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  public subscribe(listener: (message: SyncMessage) => void): () => void {
+    const handle = (event: MessageEvent<SyncMessage>) => listener(event.data);
+    this.channel.addEventListener("message", handle);
+    return () => this.channel.removeEventListener("message", handle);
+  }
+
+  /**
+   * close closes the underlying BroadcastChannel.
+   */
+  public close(): void {
+    this.channel.close();
+  }
+}
+
+/**
+ * MemorySyncBus connects SyncChannels within one isolate, for example to run
+ * several engines against the same worlds in tests. Messages are cloned and
+ * delivered synchronously.
+ */
+export class MemorySyncBus {
+  private readonly listeners = new Map<
+    SyncChannel,
+    Set<(message: SyncMessage) => void>
+  >();
+
+  /**
+   * channel opens a channel on the bus.
+   */
+  public channel(): SyncChannel {
+    const listeners = new Set<(message: SyncMessage) => void>();
+    const channel: SyncChannel = {
+      publish: (message) => {
+        for (const [other, listeners] of this.listeners) {
+          if (other === channel) {
+            continue;
+          }
+
+          for (const listener of listeners) {
+            listener(structuredClone(message));
+          }
+        }
+      },
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    };
+    this.listeners.set(channel, listeners);
+    return channel;
+  }
+}
@@ -0,0 +1,164 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import {
+  ConflictError,
+  ForbiddenError,
+  handleResponse,
+  NotFoundError,
+  parseRetryAfter,
+  QuotaExceededError,
+  RateLimitedError,
+  ServerError,
+  UnauthorizedError,
+  ValidationError,
+  WorldsApiError,
+} from "./errors.ts";
+
+const request = { method: "GET", url: "http://worlds.test/worlds/w" };
+
+Deno.test("handleResponse", async (t) => {
+  await t.step("returns ok responses", async () => {
+    const response = new Response("ok", { status: 201 });
+    assertEquals(await handleResponse(request, response), response);
+  });
+
+  await t.step("throws the error class of the status", async () => {
+    const classes: [number, typeof WorldsApiError][] = [
+      [400, ValidationError],
+      [401, UnauthorizedError],
+      [403, ForbiddenError],
+      [404, NotFoundError],
+      [409, ConflictError],
+      [413, QuotaExceededError],
+      [422, ValidationError],
+      [429, RateLimitedError],
+      [500, ServerError],
+      [503, ServerError],
+    ];
+    for (const [status, ErrorClass] of classes) {
+      const error = await assertRejects(
+        () => handleResponse(request, new Response(null, { status })),
+        ErrorClass,
+      );
+      assertEquals(error.status, status);
+      assertEquals(error.name, ErrorClass.name);
+    }
+
+    const error = await assertRejects(
+      () => handleResponse(request, new Response(null, { status: 418 })),
+      WorldsApiError,
+    );
+    assertEquals(error.constructor, WorldsApiError);
+  });
+
+  await t.step("exposes the request and the problem", async () => {
+    const problem = {
+      type: "about:blank",
+      title: "Too Many Requests",
+      status: 429,
+      detail: "Slow down",
+    };
+    const error = await assertRejects(
+      () =>
+        handleResponse(
+          { method: "POST", url: "http://worlds.test/worlds/w" },
+          Response.json(problem, {
+            status: 429,
+            headers: {
+              "Retry-After": "3",
+              "X-RateLimit-Limit": "60",
+              "X-RateLimit-Remaining": "0",
+              "X-RateLimit-Reset": "3",
+            },
+          }),
+        ),
+      RateLimitedError,
+    );
+    assertEquals(error.method, "POST");
+    assertEquals(error.url, "http://worlds.test/worlds/w");
+    assertEquals(error.problem, problem);
+    assertEquals(error.retryAfter, 3_000);
+    assertEquals(error.rateLimit?.limit, 60);
+    assertEquals(error.rateLimit?.remaining, 0);
+    assertEquals(
+      error.message,
+      "POST http://worlds.test/worlds/w failed with status 429: Slow down",
+    );
+  });
+
+  await t.step("tolerates malformed bodies", async () => {
+    const bodies: [string, unknown][] = [
+      ["", null],
+      ["upstream timed out", { detail: "upstream timed out" }],
+      ['{"detail": ', { detail: '{"detail": ' }],
+      ["[1, 2]", { detail: "[1, 2]" }],
+      ["null", { detail: "null" }],
+    ];
+    for (const [body, problem] of bodies) {
+      const error = await assertRejects(
+        () =>
+          handleResponse(
+            request,
+            new Response(body, {
+              status: 502,
+              headers: { "Content-Type": "application/problem+json" },
+            }),
+          ),
+        ServerError,
+      );
+      assertEquals(error.problem, problem);
+      assertEquals(error.retryAfter, null);
+      assertEquals(error.rateLimit, null);
+    }
+
+    const error = await assertRejects(
+      () => handleResponse(request, new Response("", { status: 404 })),
+      NotFoundError,
+    );
+    assertEquals(
+      error.message,
+      "GET http://worlds.test/worlds/w failed with status 404",
+    );
+  });
+
+  await t.step("tolerates unreadable bodies", async () => {
+    const body = new ReadableStream({
+      pull: (controller) => controller.error(new Error("connection reset")),
+    });
+    const error = await assertRejects(
+      () => handleResponse(request, new Response(body, { status: 500 })),
+      ServerError,
+    );
+    assertEquals(error.problem, null);
+  });
+});
+
+Deno.test("parseRetryAfter", async (t) => {
+  const now = Date.parse("2026-01-01T00:00:00Z");
+
+  await t.step("parses delays in seconds", () => {
+    assertEquals(parseRetryAfter("120", now), 120_000);
+    assertEquals(parseRetryAfter("0", now), 0);
+    assertEquals(parseRetryAfter(" 1.5 ", now), 1_500);
+    assertEquals(parseRetryAfter("-5", now), 0);
+  });
+
+  await t.step("parses HTTP dates", () => {
+    assertEquals(
+      parseRetryAfter("Thu, 01 Jan 2026 00:00:30 GMT", now),
+      30_000,
+    );
+    assertEquals(parseRetryAfter("Wed, 31 Dec 2025 23:59:00 GMT", now), 0);
+
+    const retryAfter = parseRetryAfter(
+      new Date(Date.now() + 60_000).toUTCString(),
+    );
+    assert(retryAfter !== null && retryAfter > 58_000 && retryAfter <= 60_000);
+  });
+
+  await t.step("ignores missing and malformed headers", () => {
+    assertEquals(parseRetryAfter(null, now), null);
+    assertEquals(parseRetryAfter("", now), null);
+    assertEquals(parseRetryAfter("  ", now), null);
+    assertEquals(parseRetryAfter("soon", now), null);
+  });
+});
@@ -0,0 +1,251 @@
+import { parseRateLimit, RateLimit } from "./rate-limit.ts";
+
+/**
+ * ProblemDetails is a problem details object (RFC 9457) returned by the Worlds
+ * API in error responses.
+ */
+export interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+}
+
+/**
+ * WorldsRequestInfo identifies the request that produced a response.
+ */
+export interface WorldsRequestInfo {
+  method: string;
+  url: string;
+}
+
+/**
+ * WorldsApiErrorOptions are the options for creating a WorldsApiError.
+ */
+export interface WorldsApiErrorOptions extends WorldsRequestInfo {
+  status: number;
+  problem: ProblemDetails | null;
+  retryAfter: number | null;
+  rateLimit?: RateLimit | null;
+}
+
+/**
+ * WorldsApiError is thrown when the Worlds API responds with an error status.
+ */
+export class WorldsApiError extends Error {
+  /**
+   * status is the HTTP status code of the response.
+   */
+  public readonly status: number;
+
+  /**
+   * problem is the parsed body of the response. Plain text bodies are
+   * wrapped in the detail field.
+   */
+  public readonly problem: ProblemDetails | null;
+
+  /**
+   * method is the HTTP method of the request.
+   */
+  public readonly method: string;
+
+  /**
+   * url is the URL of the request.
+   */
+  public readonly url: string;
+
+  /**
+   * retryAfter is the number of milliseconds the server asked the client to
+   * wait before retrying, if any.
+   */
+  public readonly retryAfter: number | null;
+
+  /**
+   * rateLimit is the rate limit reported by the response, if any.
+   */
+  public readonly rateLimit: RateLimit | null;
+
+  public constructor(message: string, options: WorldsApiErrorOptions) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.problem = options.problem;
+    this.method = options.method;
+    this.url = options.url;
+    this.retryAfter = options.retryAfter;
+    this.rateLimit = options.rateLimit ?? null;
+  }
+}
+
+/**
+ * ValidationError is thrown when the Worlds API rejects a request as malformed
+ * (400 or 422).
+ */
+export class ValidationError extends WorldsApiError {}
+
+/**
+ * UnauthorizedError is thrown when the API key is missing or invalid (401).
+ */
+export class UnauthorizedError extends WorldsApiError {}
+
+/**
+ * ForbiddenError is thrown when the API key may not access a resource (403).
+ */
+export class ForbiddenError extends WorldsApiError {}
+
+/**
+ * NotFoundError is thrown when a resource does not exist (404).
+ */
+export class NotFoundError extends WorldsApiError {}
+
+/**
+ * ConflictError is thrown when a request conflicts with the current state of
+ * a resource (409).
+ */
+export class ConflictError extends WorldsApiError {}
+
+/**
+ * QuotaExceededError is thrown when a request would exceed a plan quota
+ * (413).
+ */
+export class QuotaExceededError extends WorldsApiError {}
+
+/**
+ * RateLimitedError is thrown when the request rate limit is exceeded (429).
+ */
+export class RateLimitedError extends WorldsApiError {}
+
+/**
+ * ServerError is thrown when the Worlds API fails to handle a request (5xx).
+ */
+export class ServerError extends WorldsApiError {}
+
+/**
+ * handleResponse returns the response if it is ok and throws the matching
+ * WorldsApiError otherwise.
+ */
+export async function handleResponse(
+  request: WorldsRequestInfo,
+  response: Response,
+): Promise<Response> {
+  if (response.ok) {
+    return response;
+  }
+
+  throw await createWorldsApiError(request, response);
+}
+
+/**
+ * createWorldsApiError creates the WorldsApiError subclass matching the status
+ * of an error response.
+ */
+export async function createWorldsApiError(
+  request: WorldsRequestInfo,
+  response: Response,
+): Promise<WorldsApiError> {
+  const problem = await parseProblem(response);
+  const options: WorldsApiErrorOptions = {
+    method: request.method,
+    url: request.url,
+    status: response.status,
+    problem,
+    retryAfter: parseRetryAfter(response.headers.get("Retry-After")),
+    rateLimit: parseRateLimit(response.headers),
+  };
+
+  const detail = problem?.detail ? `: ${problem.detail}` : "";
+  const message =
+    `${request.method} ${request.url} failed with status ${response.status}${detail}`;
+  const ErrorClass = errorClassOf(response.status);
+  return new ErrorClass(message, options);
+}
+
+/**
+ * parseRetryAfter parses a Retry-After header into milliseconds. The header
+ * may either be a number of seconds or an HTTP date.
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now(),
+): number | null {
+  if (value === null || value.trim() === "") {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+
+  return Math.max(0, date - now);
+}
+
+function errorClassOf(status: number): typeof WorldsApiError {
+  switch (status) {
+    case 400:
+    case 422: {
+      return ValidationError;
+    }
+
+    case 401: {
+      return UnauthorizedError;
+    }
+
+    case 403: {
+      return ForbiddenError;
+    }
+
+    case 404: {
+      return NotFoundError;
+    }
+
+    case 409: {
+      return ConflictError;
+    }
+
+    case 413: {
+      return QuotaExceededError;
+    }
+
+    case 429: {
+      return RateLimitedError;
+    }
+
+    default: {
+      return status >= 500 ? ServerError : WorldsApiError;
+    }
+  }
+}
+
+async function parseProblem(
+  response: Response,
+): Promise<ProblemDetails | null> {
+  let text: string;
+  try {
+    text = await response.text();
+  } catch {
+    return null;
+  }
+
+  if (text.length === 0) {
+    return null;
+  }
+
+  try {
+    const json = JSON.parse(text);
+    if (typeof json === "object" && json !== null && !Array.isArray(json)) {
+      return json as ProblemDetails;
+    }
+  } catch {
+    // Fall through to treat the body as plain text.
+  }
+
+  return { detail: text };
+}
@@ -0,0 +1,86 @@
+/**
+ * ServerSentEvent is an event of a text/event-stream response.
+ */
+export interface ServerSentEvent {
+  /**
+   * id is the ID of the event, if it has one.
+   */
+  id?: string;
+
+  /**
+   * event is the type of the event. Defaults to "message".
+   */
+  event: string;
+  data: string;
+}
+
+/**
+ * parseEventStream parses a text/event-stream body into events. Comments and
+ * events without data are skipped, unless they set an ID, in which case they
+ * are yielded with empty data. The body is cancelled when the consumer stops
+ * early.
+ */
+export async function* parseEventStream(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let id: string | undefined;
+  let event = "message";
+  let data: string[] = [];
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      buffer += value;
+      const lines = buffer.split("\n");
+      buffer = lines.pop()!;
+      for (const rawLine of lines) {
+        const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+        if (line === "") {
+          if (data.length > 0 || id !== undefined) {
+            yield { id, event, data: data.join("\n") };
+          }
+
+          id = undefined;
+          event = "message";
+          data = [];
+          continue;
+        }
+
+        if (line.startsWith(":")) {
+          continue;
+        }
+
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let fieldValue = colon === -1 ? "" : line.slice(colon + 1);
+        if (fieldValue.startsWith(" ")) {
+          fieldValue = fieldValue.slice(1);
+        }
+
+        switch (field) {
+          case "id": {
+            id = fieldValue;
+            break;
+          }
+
+          case "event": {
+            event = fieldValue;
+            break;
+          }
+
+          case "data": {
+            data.push(fieldValue);
+            break;
+          }
+        }
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
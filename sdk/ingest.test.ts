@@ -0,0 +1,174 @@
+import {
+  assert,
+  assertEquals,
+  assertInstanceOf,
+  assertNotEquals,
+  assertRejects,
+} from "@std/assert";
+import { DataFactory } from "rdf-data-factory";
+import { Writer } from "n3";
+import { ServerError, Worlds } from "./mod.ts";
+import {
+  IngestError,
+  type IngestProgress,
+  type IngestSource,
+} from "./ingest.ts";
+
+const factory = new DataFactory();
+const ex = (name: string) => factory.namedNode(`http://example.org/${name}`);
+
+const quads = Array.from(
+  { length: 25 },
+  (_, i) => factory.quad(ex(`s${i}`), ex("p"), factory.literal(`Value ${i}`)),
+);
+const nquads: string = new Writer({ format: "N-Quads" }).quadsToString(quads);
+const lines = nquads.split("\n").filter((line) => line.length > 0);
+
+/**
+ * fakeWorlds is a client whose requests are recorded instead of sent. The
+ * requests numbered in failing fail with a server error.
+ */
+function fakeWorlds(failing: number[]) {
+  const requests: { method: string; lines: string[] }[] = [];
+  let count = 0;
+  const worlds = new Worlds({
+    baseUrl: "http://worlds.test/v1",
+    apiKey: "sk_world_test",
+    retry: false,
+    fetch: async (request) => {
+      if (failing.includes(++count)) {
+        return new Response("upstream failed", { status: 502 });
+      }
+
+      const body = await request.text();
+      requests.push({
+        method: request.method,
+        lines: body.split("\n").filter((line) => line.length > 0),
+      });
+      return new Response(null, { status: 204 });
+    },
+  });
+  return { worlds, requests };
+}
+
+Deno.test("Worlds.ingest", async (t) => {
+  const sources: [string, () => IngestSource][] = [
+    ["a string", () => nquads],
+    ["quads", () => quads],
+    [
+      "a stream",
+      () => ReadableStream.from([nquads.slice(0, 100), nquads.slice(100)]),
+    ],
+  ];
+
+  for (const [name, source] of sources) {
+    await t.step(`resumes ${name} after a failed batch`, async () => {
+      // The third batch fails on the first run.
+      const { worlds, requests } = fakeWorlds([3]);
+      const progress: IngestProgress[] = [];
+      const options = {
+        batchSize: 4,
+        onProgress: (p: IngestProgress) => progress.push(p),
+      };
+
+      const error = await assertRejects(
+        () => worlds.ingest("w", source(), options),
+        IngestError,
+      );
+      assertInstanceOf(error.cause, ServerError);
+      assertEquals(error.progress.quads, 8);
+      assertEquals(error.progress.batches, 2);
+      assertEquals(progress.at(-1), error.progress);
+
+      const result = await worlds.ingest("w", source(), {
+        ...options,
+        resumeFrom: error.progress,
+      });
+      assertEquals(result.quads, 25);
+      assertEquals(result.batches, 7);
+      assertEquals(
+        result.bytes,
+        new TextEncoder().encode(nquads).byteLength,
+      );
+
+      // Every quad was sent exactly once and in order.
+      assertEquals(requests.flatMap((request) => request.lines), lines);
+      assertEquals(
+        requests.map((request) => request.lines.length),
+        [4, 4, 4, 4, 4, 4, 1],
+      );
+    });
+  }
+
+  await t.step("resumes a replacement with additions", async () => {
+    const { worlds, requests } = fakeWorlds([2]);
+    const options = { batchSize: 10, replace: true };
+    const error = await assertRejects(
+      () => worlds.ingest("w", nquads, options),
+      IngestError,
+    );
+    await worlds.ingest("w", nquads, {
+      ...options,
+      resumeFrom: error.progress,
+    });
+
+    // The world is only replaced by the first batch.
+    assertEquals(requests.map((request) => request.method), [
+      "PUT",
+      "POST",
+      "POST",
+    ]);
+    assertEquals(requests.flatMap((request) => request.lines), lines);
+  });
+
+  await t.step(
+    "labels blank nodes alike across batches and resumes",
+    async () => {
+      const source = [
+        "<http://example.org/alice> <http://example.org/address> _:home .",
+        "<http://example.org/bob> <http://example.org/address> _:home .",
+        '_:home <http://example.org/city> "Paris" .',
+        '_:work <http://example.org/city> "Lyon" .',
+        "<http://example.org/alice> <http://example.org/office> _:work .",
+      ].join("\n");
+      const { worlds, requests } = fakeWorlds([2]);
+      const options = { batchSize: 2 };
+      const error = await assertRejects(
+        () => worlds.ingest("w", source, options),
+        IngestError,
+      );
+      await worlds.ingest("w", source, {
+        ...options,
+        resumeFrom: error.progress,
+      });
+
+      const labels = requests.flatMap((request) => request.lines).map((line) =>
+        line.match(/_:([^\s]+)/)![1]
+      );
+      assertEquals(labels.length, 5);
+      assert(labels.every((label) => /^[0-9a-f-]{36}$/.test(label)));
+      assertEquals(new Set(labels.slice(0, 3)).size, 1);
+      assertEquals(labels[3], labels[4]);
+      assertNotEquals(labels[0], labels[3]);
+    },
+  );
+
+  await t.step("releases a stream source after a failure", async () => {
+    let cancelled = false;
+    let index = 0;
+    const stream = new ReadableStream<string>({
+      pull: (controller) =>
+        controller.enqueue(`${lines[index++ % lines.length]}\n`),
+      cancel: () => {
+        cancelled = true;
+      },
+    });
+    const { worlds } = fakeWorlds([1]);
+    await assertRejects(
+      () => worlds.ingest("w", stream, { batchSize: 4 }),
+      IngestError,
+    );
+    assert(cancelled);
+    assertEquals(stream.locked, false);
+  });
+});
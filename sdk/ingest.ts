@@ -0,0 +1,296 @@
+import type * as rdfjs from "@rdfjs/types";
+import { Parser, StreamParser, Writer } from "n3";
+import { once } from "node:events";
+import type { RequestOptions } from "./transport.ts";
+import { defaultDataFactory } from "./sparql.ts";
+
+/**
+ * IngestSource is a source of quads to ingest into a world: a serialized
+ * dataset, a stream of a serialized dataset, or quads.
+ */
+export type IngestSource =
+  | string
+  | ReadableStream<Uint8Array | string>
+  | AsyncIterable<rdfjs.Quad>
+  | Iterable<rdfjs.Quad>;
+
+/**
+ * IngestProgress reports how much of a source has been acknowledged by the
+ * Worlds API.
+ */
+export interface IngestProgress {
+  /**
+   * quads is the number of quads acknowledged so far.
+   */
+  quads: number;
+
+  /**
+   * bytes is the number of N-Quads bytes acknowledged so far.
+   */
+  bytes: number;
+
+  /**
+   * batches is the number of batches acknowledged so far.
+   */
+  batches: number;
+
+  /**
+   * blankNodeSeed seeds the labels given to the blank nodes of the source, so
+   * that a resumed ingestion labels them alike.
+   */
+  blankNodeSeed: string;
+}
+
+/**
+ * IngestOptions are the options for ingesting a source into a world.
+ */
+export interface IngestOptions extends RequestOptions {
+  /**
+   * encoding is the content type of string and stream sources. Defaults to
+   * application/n-quads.
+   */
+  encoding?: string;
+
+  /**
+   * batchSize is the maximum number of quads sent per request.
+   */
+  batchSize?: number;
+
+  /**
+   * maxBatchBytes is the maximum size of a request body in bytes.
+   */
+  maxBatchBytes?: number;
+
+  /**
+   * replace replaces the contents of the world with the source instead of
+   * adding to it.
+   */
+  replace?: boolean;
+
+  /**
+   * resumeFrom is the progress of a previous, failed ingestion of the same
+   * source. Quads that were already acknowledged are skipped.
+   */
+  resumeFrom?: IngestProgress;
+
+  /**
+   * onProgress is called after every acknowledged batch.
+   */
+  onProgress?: (progress: IngestProgress) => void;
+}
+
+/**
+ * IngestBatch is a batch of quads serialized as N-Quads.
+ */
+export interface IngestBatch {
+  data: string;
+  quads: number;
+  bytes: number;
+}
+
+/**
+ * IngestError is thrown when a batch fails. Pass its progress as resumeFrom to
+ * continue from the last acknowledged batch.
+ */
+export class IngestError extends Error {
+  public constructor(
+    public readonly progress: IngestProgress,
+    options?: ErrorOptions,
+  ) {
+    super(
+      `Ingestion failed after ${progress.batches} batches (${progress.quads} quads)`,
+      options,
+    );
+    this.name = "IngestError";
+  }
+}
+
+export const defaultBatchSize = 10_000;
+export const defaultMaxBatchBytes = 4 * 1024 * 1024;
+
+const formats: Record<string, string> = {
+  "application/n-quads": "N-Quads",
+  "application/n-triples": "N-Triples",
+  "text/turtle": "Turtle",
+  "application/trig": "TriG",
+  "text/n3": "N3",
+};
+
+/**
+ * ingestBatches reads quads from a source and groups them into N-Quads
+ * batches bounded by quad count and size, skipping the first skip quads.
+ *
+ * Blank node labels are scoped to a single batch by the Worlds API, except
+ * for UUID labels, which it skolemizes to the same IRI in every batch. Blank
+ * nodes are therefore relabeled with UUIDs derived from the seed and from
+ * their order of appearance, so that every batch, and every resumed
+ * ingestion with the same seed, refers to them alike.
+ */
+export async function* ingestBatches(
+  source: IngestSource,
+  options: IngestOptions = {},
+  skip = 0,
+  blankNodeSeed: string = crypto.randomUUID(),
+): AsyncGenerator<IngestBatch> {
+  const batchSize = options.batchSize ?? defaultBatchSize;
+  const maxBatchBytes = options.maxBatchBytes ?? defaultMaxBatchBytes;
+  const writer = new Writer({ format: "N-Quads" });
+  const encoder = new TextEncoder();
+  const labels = new Map<string, rdfjs.BlankNode>();
+  const relabel = async <T extends rdfjs.Term>(term: T): Promise<T> => {
+    if (term.termType !== "BlankNode") {
+      return term;
+    }
+
+    let blankNode = labels.get(term.value);
+    if (blankNode === undefined) {
+      blankNode = defaultDataFactory.blankNode(
+        await blankNodeUuid(blankNodeSeed, labels.size),
+      );
+      labels.set(term.value, blankNode);
+    }
+
+    return blankNode as T;
+  };
+
+  let lines: string[] = [];
+  let bytes = 0;
+  let index = 0;
+  for await (const quad of readQuads(source, options.encoding)) {
+    // Skipped quads are relabeled too, so that labels follow the source.
+    const [subject, object, graph] = [
+      await relabel(quad.subject),
+      await relabel(quad.object),
+      await relabel(quad.graph),
+    ];
+    if (index++ < skip) {
+      continue;
+    }
+
+    const line = writer.quadToString(subject, quad.predicate, object, graph);
+    const size = encoder.encode(line).byteLength;
+    if (
+      lines.length > 0 &&
+      (lines.length >= batchSize || bytes + size > maxBatchBytes)
+    ) {
+      yield { data: lines.join(""), quads: lines.length, bytes };
+      lines = [];
+      bytes = 0;
+    }
+
+    lines.push(line);
+    bytes += size;
+  }
+
+  if (lines.length > 0) {
+    yield { data: lines.join(""), quads: lines.length, bytes };
+  }
+}
+
+/**
+ * readQuads iterates the quads of a source.
+ */
+async function* readQuads(
+  source: IngestSource,
+  encoding = "application/n-quads",
+): AsyncGenerator<rdfjs.Quad> {
+  if (typeof source === "string") {
+    yield* new Parser({
+      format: formatOf(encoding),
+      factory: defaultDataFactory,
+    }).parse(source);
+    return;
+  }
+
+  if (source instanceof ReadableStream) {
+    yield* parseStream(source, formatOf(encoding));
+    return;
+  }
+
+  yield* source;
+}
+
+/**
+ * parseStream parses a stream as it is read. The stream is cancelled and
+ * released once parsing ends, including when the consumer stops early.
+ */
+async function* parseStream(
+  stream: ReadableStream<Uint8Array | string>,
+  format: string,
+): AsyncGenerator<rdfjs.Quad> {
+  const parser = new StreamParser({ format, factory: defaultDataFactory });
+  const reader = stream.getReader();
+  const stopped = new AbortController();
+  const pump = (async () => {
+    const decoder = new TextDecoder();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        const text = typeof value === "string"
+          ? value
+          : decoder.decode(value, { stream: true });
+        if (!parser.write(text)) {
+          await once(parser, "drain", { signal: stopped.signal });
+        }
+      }
+
+      if (!stopped.signal.aborted) {
+        parser.end(decoder.decode());
+      }
+    } catch (error) {
+      parser.destroy(error as Error);
+    }
+  })();
+
+  try {
+    for await (const quad of parser) {
+      yield quad as rdfjs.Quad;
+    }
+  } finally {
+    stopped.abort();
+    // A failed source rejects the cancellation with the error it already
+    // failed the parser with.
+    await reader.cancel().catch(() => {});
+    await pump;
+    reader.releaseLock();
+  }
+}
+
+/**
+ * blankNodeUuid derives the UUID of the nth blank node of a source from a
+ * seed, in the manner of a name-based UUID (RFC 9562, version 5).
+ */
+async function blankNodeUuid(seed: string, n: number): Promise<string> {
+  const hash = new Uint8Array(
+    await crypto.subtle.digest(
+      "SHA-1",
+      new TextEncoder().encode(`${seed}:${n}`),
+    ),
+  );
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = Array.from(
+    hash.subarray(0, 16),
+    (byte) => byte.toString(16).padStart(2, "0"),
+  ).join("");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+}
+
+function formatOf(encoding: string): string {
+  const format = formats[encoding.split(";")[0].trim().toLowerCase()];
+  if (format === undefined) {
+    throw new TypeError(`Unsupported encoding for ingestion: ${encoding}`);
+  }
+
+  return format;
+}
@@ -1,10 +1,20 @@
 import {
+  ApiKey,
+  CreateApiKeyInput,
+  CreatedApiKey,
   Limit,
   UsageBucket,
+  UsageQuery,
   WorldMetadata,
   WorldsAccount,
 } from "./types/mod.ts";
 import { Worlds, WorldsOptions } from "./worlds.ts";
+import { RequestOptions } from "./transport.ts";
+
+/**
+ * UsageOptions are the options for reading the usage of an account.
+ */
+export interface UsageOptions extends RequestOptions, UsageQuery {}
 
 /**
  * InternalWorlds is a TypeScript SDK for internal/owner-only operations
@@ -18,44 +28,32 @@ export class InternalWorlds extends Worlds {
   /**
    * createAccount creates a new account in the Worlds API.
    */
-  public async createAccount(account: WorldsAccount): Promise<WorldsAccount> {
+  public async createAccount(
+    account: WorldsAccount,
+    options?: RequestOptions,
+  ): Promise<WorldsAccount> {
     const url = new URL(`${this.options.baseUrl}/accounts`);
-    const response = await fetch(url, {
+    const response = await this.request(url, {
       method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.options.apiKey}`,
-        "Content-Type": "application/json",
-      },
+      headers: { "Content-Type": "application/json" },
       body: JSON.stringify(account),
-    });
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
+    }, options);
     return await response.json();
   }
 
   /**
    * getAccount retrieves an account from the Worlds API.
    */
-  public async getAccount(accountId: string): Promise<WorldsAccount | null> {
+  public async getAccount(
+    accountId: string,
+    options?: RequestOptions,
+  ): Promise<WorldsAccount | null> {
     const url = new URL(`${this.options.baseUrl}/accounts/${accountId}`);
-    const response = await fetch(
-      url,
-      {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-        },
-      },
-    );
-    if (!response.ok) {
-      // Return null if the account does not exist.
-      if (response.status === 404) {
-        return null;
-      }
 
-      throw new Error(`HTTP error! status: ${response.status}`);
+    // Return null if the account does not exist.
+    const response = await this.requestOrNull(url, { method: "GET" }, options);
+    if (response === null) {
+      return null;
     }
 
     return await response.json();
@@ -64,41 +62,27 @@ export class InternalWorlds extends Worlds {
   /**
    * updateAccount updates an existing account in the Worlds API.
    */
-  public async updateAccount(account: WorldsAccount): Promise<void> {
+  public async updateAccount(
+    account: WorldsAccount,
+    options?: RequestOptions,
+  ): Promise<void> {
     const url = new URL(`${this.options.baseUrl}/accounts/${account.id}`);
-    const response = await fetch(
-      url,
-      {
-        method: "PUT",
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(account),
-      },
-    );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+    await this.request(url, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(account),
+    }, options);
   }
 
   /**
    * removeAccount removes an account from the Worlds API.
    */
-  public async removeAccount(accountId: string): Promise<void> {
+  public async removeAccount(
+    accountId: string,
+    options?: RequestOptions,
+  ): Promise<void> {
     const url = new URL(`${this.options.baseUrl}/accounts/${accountId}`);
-    const response = await fetch(
-      url,
-      {
-        method: "DELETE",
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-        },
-      },
-    );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+    await this.request(url, { method: "DELETE" }, options);
   }
 
   /**
@@ -107,22 +91,12 @@ export class InternalWorlds extends Worlds {
    */
   public async getWorldsByAccount(
     accountId: string,
+    options?: RequestOptions,
   ): Promise<WorldMetadata[]> {
     const url = new URL(
       `${this.options.baseUrl}/accounts/${accountId}/worlds`,
     );
-    const response = await fetch(
-      url,
-      {
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-        },
-      },
-    );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
+    const response = await this.request(url, {}, options);
     return await response.json();
   }
 
@@ -130,80 +104,116 @@ export class InternalWorlds extends Worlds {
    * listAccounts retrieves all accounts from the Worlds API.
    * This is an admin-only operation.
    */
-  public async listAccounts(): Promise<WorldsAccount[]> {
+  public async listAccounts(
+    options?: RequestOptions,
+  ): Promise<WorldsAccount[]> {
     const url = new URL(`${this.options.baseUrl}/accounts`);
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${this.options.apiKey}`,
-      },
-    });
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
+    const response = await this.request(url, {}, options);
     return await response.json();
   }
+
   /**
-   * rotateAccountKey rotates the API key for an account.
+   * rotateAccountKey rotates the API key for an account. Named API keys are
+   * kept.
    */
-  public async rotateAccountKey(accountId: string): Promise<WorldsAccount> {
+  public async rotateAccountKey(
+    accountId: string,
+    options?: RequestOptions,
+  ): Promise<WorldsAccount> {
     const url = new URL(
       `${this.options.baseUrl}/accounts/${accountId}/rotate`,
     );
-    const response = await fetch(
-      url,
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-        },
-      },
-    );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+    const response = await this.request(url, { method: "POST" }, options);
+    return await response.json();
+  }
+
+  /**
+   * createApiKey creates a named API key for an account. The secret of the
+   * key is only returned here.
+   */
+  public async createApiKey(
+    accountId: string,
+    input: CreateApiKeyInput,
+    options?: RequestOptions,
+  ): Promise<CreatedApiKey> {
+    const url = new URL(`${this.options.baseUrl}/accounts/${accountId}/keys`);
+    const response = await this.request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    }, options);
+    return await response.json();
+  }
 
+  /**
+   * listApiKeys lists the API keys of an account without their secrets.
+   */
+  public async listApiKeys(
+    accountId: string,
+    options?: RequestOptions,
+  ): Promise<ApiKey[]> {
+    const url = new URL(`${this.options.baseUrl}/accounts/${accountId}/keys`);
+    const response = await this.request(url, {}, options);
     return await response.json();
   }
+
   /**
-   * getUsage retrieves the usage buckets for an account.
+   * revokeApiKey revokes the API key of an account with the given prefix.
    */
-  public async getUsage(accountId: string): Promise<UsageBucket[]> {
-    const url = new URL(`${this.options.baseUrl}/usage/${accountId}`);
-    const response = await fetch(
-      url,
-      {
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-        },
-      },
+  public async revokeApiKey(
+    accountId: string,
+    prefix: string,
+    options?: RequestOptions,
+  ): Promise<void> {
+    const url = new URL(
+      `${this.options.baseUrl}/accounts/${accountId}/keys/${prefix}`,
     );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+    await this.request(url, { method: "DELETE" }, options);
+  }
 
+  /**
+   * getUsage retrieves the usage buckets for an account, optionally filtered
+   * by time range, endpoint, and API key, and rolled up.
+   */
+  public async getUsage(
+    accountId: string,
+    options?: UsageOptions,
+  ): Promise<UsageBucket[]> {
+    const url = usageUrl(this.options.baseUrl, accountId, options);
+    const response = await this.request(url, {}, options);
     return await response.json();
   }
 
+  /**
+   * exportUsage exports the usage buckets for an account as CSV or JSON for
+   * billing.
+   */
+  public async exportUsage(
+    accountId: string,
+    format: "csv" | "json",
+    options?: UsageOptions,
+  ): Promise<string> {
+    const url = usageUrl(this.options.baseUrl, accountId, options);
+    const response = await this.request(url, {
+      headers: {
+        "Accept": format === "csv" ? "text/csv" : "application/json",
+      },
+    }, options);
+    return await response.text();
+  }
+
   /**
    * getLimits retrieves the limits for a plan.
    */
-  public async getLimits(plan: string): Promise<Limit | null> {
+  public async getLimits(
+    plan: string,
+    options?: RequestOptions,
+  ): Promise<Limit | null> {
     const url = new URL(`${this.options.baseUrl}/limits/${plan}`);
-    const response = await fetch(
-      url,
-      {
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-        },
-      },
-    );
-    if (response.status === 404) {
+    const response = await this.requestOrNull(url, {}, options);
+    if (response === null) {
       return null;
     }
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
 
     return await response.json();
   }
@@ -211,21 +221,44 @@ export class InternalWorlds extends Worlds {
   /**
    * setLimits sets the limits for a plan.
    */
-  public async setLimits(limit: Limit): Promise<void> {
+  public async setLimits(
+    limit: Limit,
+    options?: RequestOptions,
+  ): Promise<void> {
     const url = new URL(`${this.options.baseUrl}/limits/${limit.plan}`);
-    const response = await fetch(
-      url,
-      {
-        method: "PUT",
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(limit),
-      },
-    );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+    await this.request(url, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(limit),
+    }, options);
+  }
+}
+
+function usageUrl(
+  baseUrl: string,
+  accountId: string,
+  query: UsageQuery = {},
+): URL {
+  const url = new URL(`${baseUrl}/usage/${accountId}`);
+  if (query.start !== undefined) {
+    url.searchParams.set("start", String(query.start));
   }
+
+  if (query.end !== undefined) {
+    url.searchParams.set("end", String(query.end));
+  }
+
+  if (query.endpoint !== undefined) {
+    url.searchParams.set("endpoint", query.endpoint);
+  }
+
+  if (query.keyPrefix !== undefined) {
+    url.searchParams.set("key", query.keyPrefix);
+  }
+
+  if (query.granularity !== undefined) {
+    url.searchParams.set("granularity", query.granularity);
+  }
+
+  return url;
 }
@@ -1,3 +1,10 @@
 export * from "./worlds.ts";
 export * from "./internal-worlds.ts";
+export * from "./errors.ts";
+export * from "./transport.ts";
+export * from "./rate-limit.ts";
+export * from "./sparql.ts";
+export * from "./events.ts";
+export * from "./ingest.ts";
+export * from "./world-store.ts";
 export * from "./types/mod.ts";
@@ -0,0 +1,44 @@
+/**
+ * RateLimit is the request rate limit reported by the X-RateLimit-* headers
+ * of a Worlds API response.
+ */
+export interface RateLimit {
+  /**
+   * limit is the number of requests allowed per window.
+   */
+  limit: number;
+
+  /**
+   * remaining is the number of requests left in the current window.
+   */
+  remaining: number;
+
+  /**
+   * reset is when the current window ends, in milliseconds since the epoch.
+   */
+  reset: number;
+}
+
+/**
+ * parseRateLimit parses the X-RateLimit-Limit, X-RateLimit-Remaining, and
+ * X-RateLimit-Reset headers. The reset header is in seconds since the epoch.
+ * Returns null if any of them is missing or malformed.
+ */
+export function parseRateLimit(headers: Headers): RateLimit | null {
+  const limit = parseCount(headers.get("X-RateLimit-Limit"));
+  const remaining = parseCount(headers.get("X-RateLimit-Remaining"));
+  const reset = parseCount(headers.get("X-RateLimit-Reset"));
+  if (limit === null || remaining === null || reset === null) {
+    return null;
+  }
+
+  return { limit, remaining, reset: reset * 1000 };
+}
+
+function parseCount(value: string | null): number | null {
+  if (value === null || !/^\d+$/.test(value.trim())) {
+    return null;
+  }
+
+  return Number(value);
+}
@@ -0,0 +1,226 @@
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { DataFactory } from "rdf-data-factory";
+import {
+  parseSparqlResponse,
+  parseSparqlResultsJson,
+  sparqlAccept,
+  sparqlQueryForm,
+  type SparqlResultsJson,
+} from "./sparql.ts";
+
+const factory = new DataFactory();
+const XSD = "http://www.w3.org/2001/XMLSchema#";
+const RDF = "http://www.w3.org/1999/02/22-rdf-syntax-ns#";
+
+Deno.test("parseSparqlResultsJson", async (t) => {
+  await t.step("parses SELECT bindings", () => {
+    const result = parseSparqlResultsJson({
+      head: { vars: ["s", "name", "nick", "age", "friend", "quote"] },
+      results: {
+        bindings: [
+          {
+            s: { type: "uri", value: "http://example.org/alice" },
+            name: { type: "literal", value: "Alice" },
+            nick: { type: "literal", value: "Ali", "xml:lang": "en-GB" },
+            age: { type: "literal", value: "7", datatype: `${XSD}integer` },
+            friend: { type: "bnode", value: "b0" },
+            quote: {
+              type: "triple",
+              value: {
+                subject: { type: "uri", value: "http://example.org/alice" },
+                predicate: { type: "uri", value: "http://schema.org/age" },
+                object: {
+                  type: "typed-literal",
+                  value: "7",
+                  datatype: `${XSD}integer`,
+                },
+              },
+            },
+          },
+          { s: { type: "uri", value: "http://example.org/bob" } },
+        ],
+      },
+    });
+
+    assert(result.type === "select");
+    assertEquals(result.variables, [
+      "s",
+      "name",
+      "nick",
+      "age",
+      "friend",
+      "quote",
+    ]);
+    const [alice, bob] = result.bindings;
+    assert(alice.s?.equals(factory.namedNode("http://example.org/alice")));
+    assert(alice.name?.equals(factory.literal("Alice")));
+    assertEquals(
+      alice.name?.termType === "Literal" && alice.name.datatype.value,
+      `${XSD}string`,
+    );
+    assert(alice.nick?.equals(factory.literal("Ali", "en-GB")));
+    assertEquals(
+      alice.nick?.termType === "Literal" && alice.nick.datatype.value,
+      `${RDF}langString`,
+    );
+    assert(
+      alice.age?.equals(
+        factory.literal("7", factory.namedNode(`${XSD}integer`)),
+      ),
+    );
+    assert(alice.friend?.equals(factory.blankNode("b0")));
+    assert(
+      alice.quote?.equals(
+        factory.quad(
+          factory.namedNode("http://example.org/alice"),
+          factory.namedNode("http://schema.org/age"),
+          factory.literal("7", factory.namedNode(`${XSD}integer`)),
+        ),
+      ),
+    );
+
+    // Unbound variables are absent.
+    assertEquals(Object.keys(bob), ["s"]);
+  });
+
+  await t.step("parses empty SELECT results", () => {
+    assertEquals(
+      parseSparqlResultsJson({
+        head: { vars: ["s"] },
+        results: { bindings: [] },
+      }),
+      { type: "select", variables: ["s"], bindings: [] },
+    );
+  });
+
+  await t.step("parses ASK results", () => {
+    assertEquals(parseSparqlResultsJson({ head: {}, boolean: true }), {
+      type: "ask",
+      boolean: true,
+    });
+    assertEquals(parseSparqlResultsJson({ head: {}, boolean: false }), {
+      type: "ask",
+      boolean: false,
+    });
+  });
+
+  await t.step("rejects malformed documents", () => {
+    const documents = [
+      null,
+      {},
+      { head: null, boolean: true },
+      { head: {} },
+      { head: {}, boolean: "true" },
+      { head: { vars: ["s"] }, results: {} },
+      { head: { vars: ["s"] }, results: { bindings: {} } },
+    ];
+    for (const document of documents) {
+      assertThrows(
+        () => parseSparqlResultsJson(document as SparqlResultsJson),
+        Error,
+        "Malformed SPARQL results",
+      );
+    }
+  });
+
+  await t.step("rejects malformed terms", () => {
+    const terms = [
+      null,
+      { value: "http://example.org/alice" },
+      { type: "iri", value: "http://example.org/alice" },
+      { type: "uri" },
+      { type: "literal", value: 7 },
+      { type: "bnode", value: null },
+      { type: "triple", value: null },
+      {
+        type: "triple",
+        value: {
+          subject: { type: "uri", value: "http://example.org/alice" },
+          predicate: { type: "uri" },
+          object: { type: "literal", value: "Alice" },
+        },
+      },
+    ];
+    for (const term of terms) {
+      assertThrows(
+        () =>
+          parseSparqlResultsJson({
+            head: { vars: ["s"] },
+            results: { bindings: [{ s: term }] },
+          } as SparqlResultsJson),
+        Error,
+        "Malformed SPARQL term",
+      );
+    }
+  });
+});
+
+Deno.test("parseSparqlResponse", async (t) => {
+  await t.step("parses quads", async () => {
+    const result = await parseSparqlResponse(
+      new Response(
+        '<http://example.org/alice> <http://schema.org/name> "Alice"@en .\n',
+        { headers: { "Content-Type": "application/n-triples" } },
+      ),
+    );
+    assert(result.type === "quads");
+    assertEquals(result.quads.length, 1);
+    assert(
+      result.quads[0].equals(
+        factory.quad(
+          factory.namedNode("http://example.org/alice"),
+          factory.namedNode("http://schema.org/name"),
+          factory.literal("Alice", "en"),
+        ),
+      ),
+    );
+  });
+
+  await t.step("parses results", async () => {
+    const result = await parseSparqlResponse(
+      Response.json({ head: {}, boolean: true }, {
+        headers: { "Content-Type": "application/sparql-results+json" },
+      }),
+    );
+    assertEquals(result, { type: "ask", boolean: true });
+  });
+
+  await t.step("rejects malformed payloads", async () => {
+    await assertRejects(
+      () =>
+        parseSparqlResponse(
+          new Response('{"head": {', {
+            headers: { "Content-Type": "application/sparql-results+json" },
+          }),
+        ),
+      SyntaxError,
+    );
+    await assertRejects(
+      () =>
+        parseSparqlResponse(
+          new Response("<http://example.org/alice> .\n", {
+            headers: { "Content-Type": "application/n-quads" },
+          }),
+        ),
+      Error,
+    );
+  });
+});
+
+Deno.test("sparqlQueryForm", () => {
+  assertEquals(sparqlQueryForm("SELECT * WHERE { ?s ?p ?o }"), "SELECT");
+  assertEquals(sparqlQueryForm("ask { ?s ?p ?o }"), "ASK");
+  assertEquals(
+    sparqlQueryForm(
+      `# CONSTRUCT in a comment
+      BASE <http://example.org/>
+      PREFIX ex: <http://example.org/#>
+      DESCRIBE ex:alice`,
+    ),
+    "DESCRIBE",
+  );
+  assertEquals(sparqlQueryForm("INSERT DATA { <a> <b> <c> }"), null);
+
+  assertEquals(sparqlAccept("ASK"), "application/sparql-results+json");
+  assertEquals(sparqlAccept("CONSTRUCT"), "application/n-quads");
+});
@@ -0,0 +1,307 @@
+import type * as rdfjs from "@rdfjs/types";
+import { DataFactory } from "rdf-data-factory";
+import { Parser } from "n3";
+
+/**
+ * defaultDataFactory is the DataFactory used when none is configured.
+ */
+export const defaultDataFactory: rdfjs.DataFactory = new DataFactory();
+
+/**
+ * SparqlQueryForm is the form of a SPARQL query.
+ */
+export type SparqlQueryForm = "SELECT" | "ASK" | "CONSTRUCT" | "DESCRIBE";
+
+/**
+ * SparqlBinding maps the variables of a solution to RDF/JS terms. Unbound
+ * variables are absent.
+ */
+export type SparqlBinding<V extends string = string> = Partial<
+  Record<V, rdfjs.Term>
+>;
+
+/**
+ * SparqlSelectResult is the result of a SELECT query.
+ */
+export interface SparqlSelectResult<V extends string = string> {
+  type: "select";
+  variables: V[];
+  bindings: SparqlBinding<V>[];
+}
+
+/**
+ * SparqlAskResult is the result of an ASK query.
+ */
+export interface SparqlAskResult {
+  type: "ask";
+  boolean: boolean;
+}
+
+/**
+ * SparqlQuadsResult is the result of a CONSTRUCT or DESCRIBE query.
+ */
+export interface SparqlQuadsResult {
+  type: "quads";
+  quads: rdfjs.Quad[];
+}
+
+/**
+ * SparqlResult is the result of a SPARQL query, discriminated by type.
+ */
+export type SparqlResult<V extends string = string> =
+  | SparqlSelectResult<V>
+  | SparqlAskResult
+  | SparqlQuadsResult;
+
+/**
+ * SparqlResultsJson is a SPARQL 1.1 Query Results JSON document.
+ */
+export interface SparqlResultsJson {
+  head: { vars?: string[]; link?: string[] };
+  results?: { bindings: Array<Record<string, SparqlJsonTerm>> };
+  boolean?: boolean;
+}
+
+/**
+ * SparqlJsonTerm is an RDF term in a SPARQL 1.1 Query Results JSON document.
+ */
+export type SparqlJsonTerm =
+  | { type: "uri"; value: string }
+  | { type: "bnode"; value: string }
+  | {
+    type: "literal" | "typed-literal";
+    value: string;
+    "xml:lang"?: string;
+    datatype?: string;
+  }
+  | {
+    type: "triple";
+    value: {
+      subject: SparqlJsonTerm;
+      predicate: SparqlJsonTerm;
+      object: SparqlJsonTerm;
+    };
+  };
+
+const SPARQL_RESULTS_JSON = "application/sparql-results+json";
+const N_QUADS = "application/n-quads";
+
+/**
+ * sparqlQueryForm detects the form of a SPARQL query by skipping its comments
+ * and prologue. Queries of unknown form resolve to null.
+ */
+export function sparqlQueryForm(query: string): SparqlQueryForm | null {
+  const match = stripComments(query).match(
+    /^\s*(?:(?:BASE\s*<[^>]*>|PREFIX\s+[^\s:]*:\s*<[^>]*>)\s*)*(SELECT|ASK|CONSTRUCT|DESCRIBE)\b/i,
+  );
+  if (match === null) {
+    return null;
+  }
+
+  return match[1].toUpperCase() as SparqlQueryForm;
+}
+
+/**
+ * sparqlAccept is the Accept header to send for a query of the given form.
+ */
+export function sparqlAccept(form: SparqlQueryForm | null): string {
+  switch (form) {
+    case "SELECT":
+    case "ASK": {
+      return SPARQL_RESULTS_JSON;
+    }
+
+    case "CONSTRUCT":
+    case "DESCRIBE": {
+      return N_QUADS;
+    }
+
+    default: {
+      return `${SPARQL_RESULTS_JSON}, ${N_QUADS};q=0.9`;
+    }
+  }
+}
+
+/**
+ * parseSparqlResponse parses the response of a SPARQL query according to its
+ * content type.
+ */
+export async function parseSparqlResponse(
+  response: Response,
+  df: rdfjs.DataFactory = defaultDataFactory,
+): Promise<SparqlResult> {
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (
+    contentType.includes("n-quads") || contentType.includes("n-triples")
+  ) {
+    return { type: "quads", quads: parseNQuads(await response.text(), df) };
+  }
+
+  return parseSparqlResultsJson(await response.json(), df);
+}
+
+/**
+ * parseSparqlResultsJson converts a SPARQL 1.1 Query Results JSON document
+ * into a typed result. Malformed documents are rejected.
+ */
+export function parseSparqlResultsJson(
+  json: SparqlResultsJson,
+  df: rdfjs.DataFactory = defaultDataFactory,
+): SparqlSelectResult | SparqlAskResult {
+  if (typeof json?.head !== "object" || json.head === null) {
+    throw new Error("Malformed SPARQL results: missing head");
+  }
+
+  if (typeof json.boolean === "boolean") {
+    return { type: "ask", boolean: json.boolean };
+  }
+
+  if (!Array.isArray(json.results?.bindings)) {
+    throw new Error("Malformed SPARQL results: missing boolean or bindings");
+  }
+
+  return {
+    type: "select",
+    variables: json.head.vars ?? [],
+    bindings: json.results.bindings.map((binding) => {
+      const terms: SparqlBinding = {};
+      for (const [variable, term] of Object.entries(binding)) {
+        terms[variable] = parseSparqlJsonTerm(term, df);
+      }
+
+      return terms;
+    }),
+  };
+}
+
+/**
+ * parseSparqlJsonTerm converts a SPARQL JSON term into an RDF/JS term.
+ * Malformed terms are rejected.
+ */
+export function parseSparqlJsonTerm(
+  term: SparqlJsonTerm,
+  df: rdfjs.DataFactory = defaultDataFactory,
+): rdfjs.Term {
+  const value: unknown = term?.value;
+  const valid = term?.type === "triple"
+    ? typeof value === "object" && value !== null
+    : typeof value === "string";
+  if (!valid) {
+    throw new Error(`Malformed SPARQL term: ${JSON.stringify(term)}`);
+  }
+
+  switch (term.type) {
+    case "uri": {
+      return df.namedNode(term.value);
+    }
+
+    case "bnode": {
+      return df.blankNode(term.value);
+    }
+
+    case "literal":
+    case "typed-literal": {
+      if (term["xml:lang"]) {
+        return df.literal(term.value, term["xml:lang"]);
+      }
+
+      return df.literal(
+        term.value,
+        term.datatype ? df.namedNode(term.datatype) : undefined,
+      );
+    }
+
+    case "triple": {
+      return df.quad(
+        parseSparqlJsonTerm(term.value.subject, df) as rdfjs.Quad_Subject,
+        parseSparqlJsonTerm(term.value.predicate, df) as rdfjs.Quad_Predicate,
+        parseSparqlJsonTerm(term.value.object, df) as rdfjs.Quad_Object,
+      );
+    }
+
+    default: {
+      throw new Error(`Malformed SPARQL term: ${JSON.stringify(term)}`);
+    }
+  }
+}
+
+/**
+ * parseNQuads parses an N-Quads or N-Triples document into RDF/JS quads.
+ */
+export function parseNQuads(
+  data: string,
+  df: rdfjs.DataFactory = defaultDataFactory,
+): rdfjs.Quad[] {
+  return new Parser({ format: "N-Quads", factory: df }).parse(data);
+}
+
+/**
+ * formatSparqlTerm formats a named node or literal as a SPARQL term. Blank
+ * nodes and variables cannot be referenced by value and are rejected.
+ */
+export function formatSparqlTerm(term: rdfjs.Term): string {
+  switch (term.termType) {
+    case "NamedNode": {
+      if (/[\s<>"{}|^`\\]/.test(term.value)) {
+        throw new Error(`Invalid IRI: ${term.value}`);
+      }
+
+      return `<${term.value}>`;
+    }
+
+    case "Literal": {
+      const value = JSON.stringify(term.value);
+      if (term.language) {
+        return `${value}@${term.language}`;
+      }
+
+      return `${value}^^${formatSparqlTerm(term.datatype)}`;
+    }
+
+    default: {
+      throw new Error(`Cannot format ${term.termType} as a SPARQL term`);
+    }
+  }
+}
+
+/**
+ * stripComments removes comments from a SPARQL query, leaving IRIs and string
+ * literals that contain "#" intact.
+ */
+function stripComments(query: string): string {
+  let result = "";
+  let quote: string | null = null;
+  let inIri = false;
+  for (let i = 0; i < query.length; i++) {
+    const char = query[i];
+    if (quote !== null) {
+      if (char === "\\") {
+        result += char + (query[++i] ?? "");
+        continue;
+      }
+
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (inIri) {
+      if (char === ">") {
+        inIri = false;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "<") {
+      inIri = true;
+    } else if (char === "#") {
+      while (i < query.length && query[i] !== "\n") {
+        i++;
+      }
+
+      result += "\n";
+      continue;
+    }
+
+    result += char;
+  }
+
+  return result;
+}
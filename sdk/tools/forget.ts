@@ -0,0 +1,86 @@
+import { tool } from "ai";
+import { z } from "zod";
+import type { World } from "../worlds.ts";
+
+/**
+ * forgetInputSchema is the input schema of the forget tool.
+ */
+export const forgetInputSchema = z.object({
+  subject: z.string().describe(
+    "IRI of the entity to forget, e.g. https://example.org/people/ethan.",
+  ),
+  predicate: z.string().optional().describe(
+    "IRI of a single property to forget. Omit to forget the whole entity.",
+  ),
+});
+
+/**
+ * ForgetInput is the input of the forget tool.
+ */
+export type ForgetInput = z.infer<typeof forgetInputSchema>;
+
+/**
+ * ForgetOutput is the output of the forget tool.
+ */
+export interface ForgetOutput {
+  /**
+   * subject is the IRI of the entity that was forgotten.
+   */
+  subject: string;
+
+  /**
+   * predicate is the IRI of the property that was forgotten, if any.
+   */
+  predicate?: string;
+
+  /**
+   * statements is the number of statements removed when the whole entity was
+   * forgotten.
+   */
+  statements?: number;
+}
+
+/**
+ * createForgetTool creates a tool that deletes knowledge about an entity from
+ * a World. Forgetting a whole entity also removes its blank-node
+ * substructures. Forgetting a single property removes only the statements of
+ * that property: blank nodes among its values keep their own statements.
+ */
+export function createForgetTool(world: World) {
+  return tool({
+    description:
+      "Delete knowledge about an entity from long-term memory, either " +
+      "entirely or for a single property.",
+    inputSchema: forgetInputSchema,
+    execute: async (
+      input: ForgetInput,
+      { abortSignal },
+    ): Promise<ForgetOutput> => {
+      const subject = iri(input.subject);
+      if (input.predicate === undefined) {
+        const result = await world.forgetResource(input.subject, {
+          signal: abortSignal,
+        });
+        return { subject: input.subject, statements: result.statements };
+      }
+
+      await world.update(
+        `DELETE WHERE { ${subject} ${iri(input.predicate)} ?o . }`,
+        { signal: abortSignal },
+      );
+      return { subject: input.subject, predicate: input.predicate };
+    },
+  });
+}
+
+/**
+ * iri formats a value as a SPARQL IRI reference, rejecting values that could
+ * escape it.
+ */
+function iri(value: string): string {
+  if (value.length === 0 || /[\s<>"{}|^`\\]/.test(value)) {
+    throw new Error(`Invalid IRI: ${value}`);
+  }
+
+  return `<${value}>`;
+}
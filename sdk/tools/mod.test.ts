@@ -0,0 +1,239 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { createClient } from "@libsql/client";
+import type { Tool } from "ai";
+import { WorldsServer } from "../../paper/src/server/server.ts";
+import { InternalWorlds, Worlds } from "../mod.ts";
+import {
+  createTools,
+  forgetInputSchema,
+  recallInputSchema,
+  rememberInputSchema,
+  SCHEMA_TEXT,
+} from "./mod.ts";
+
+const baseUrl = "http://localhost/v1";
+const adminApiKey = "sk_world_admin";
+const ex = (name: string) => `http://example.org/${name}`;
+const SCHEMA_NAME = "https://schema.org/name";
+const XSD_INTEGER = "http://www.w3.org/2001/XMLSchema#integer";
+
+/**
+ * run calls a tool the way a model would, after the AISDK has parsed its
+ * input.
+ */
+async function run<INPUT, OUTPUT>(
+  tool: Tool<INPUT, OUTPUT>,
+  input: INPUT,
+): Promise<OUTPUT> {
+  const execute = tool.execute!;
+  // Newer versions of the AISDK also pass a context to tools.
+  const options = {
+    toolCallId: "call",
+    messages: [],
+    context: {},
+  } as Parameters<
+    typeof execute
+  >[1];
+  return await execute(input, options) as OUTPUT;
+}
+
+Deno.test("createTools", async (t) => {
+  const dataDir = await Deno.makeTempDir();
+  const sys = createClient({ url: ":memory:" });
+  const server = new WorldsServer({ sys, adminApiKey, dataDir });
+  const transport = { fetch: server.fetch, retry: false as const };
+  try {
+    const admin = new InternalWorlds({
+      baseUrl,
+      apiKey: adminApiKey,
+      ...transport,
+    });
+    const { apiKey } = await admin.createAccount({
+      id: "acme",
+      apiKey: "",
+      description: "Acme Corp",
+      plan: "free",
+      accessControl: { worlds: [] },
+    });
+    const options = { baseUrl, apiKey, ...transport };
+    const tools = createTools({ ...options, worldId: "memory" });
+    const worlds = new Worlds(options);
+    await worlds.setWorld("memory", "", "application/n-quads");
+    const statements = async (subject: string) => {
+      const nquads = await worlds.getWorld("memory", "application/n-quads");
+      return (nquads ?? "").split("\n").filter((line) =>
+        line.startsWith(`<${subject}>`)
+      ).sort();
+    };
+
+    await t.step("remember stores facts", async () => {
+      const output = await run(
+        tools.remember,
+        rememberInputSchema.parse({
+          facts: [
+            { subject: ex("alice"), predicate: SCHEMA_NAME, object: "Alice" },
+            {
+              subject: ex("alice"),
+              predicate: ex("knows"),
+              object: ex("bob"),
+              objectType: "iri",
+            },
+            {
+              subject: ex("alice"),
+              predicate: ex("motto"),
+              object: "Curiouser and curiouser",
+              language: "en",
+            },
+            {
+              subject: ex("alice"),
+              predicate: ex("age"),
+              object: "7",
+              datatype: XSD_INTEGER,
+            },
+          ],
+        }),
+      );
+      assertEquals(output, { statements: 4, textSubject: undefined });
+      assertEquals(await statements(ex("alice")), [
+        `<${ex("alice")}> <${ex("age")}> "7"^^<${XSD_INTEGER}> .`,
+        `<${ex("alice")}> <${ex("knows")}> <${ex("bob")}> .`,
+        `<${ex("alice")}> <${ex("motto")}> "Curiouser and curiouser"@en .`,
+        `<${ex("alice")}> <${SCHEMA_NAME}> "Alice" .`,
+      ]);
+    });
+
+    let textSubject = "";
+    await t.step("remember stores text", async () => {
+      const output = await run(
+        tools.remember,
+        rememberInputSchema.parse({
+          text: "Alice followed the White Rabbit down the hole.",
+        }),
+      );
+      assertEquals(output.statements, 2);
+      textSubject = output.textSubject ?? "";
+      assert(textSubject.startsWith("urn:uuid:"));
+      const [, text] = await statements(textSubject);
+      assertEquals(
+        text,
+        `<${textSubject}> <${SCHEMA_TEXT}> "Alice followed the White Rabbit down the hole." .`,
+      );
+
+      assertEquals(
+        await run(tools.remember, rememberInputSchema.parse({})),
+        { statements: 0, textSubject: undefined },
+      );
+    });
+
+    await t.step("recall finds remembered facts and passages", async () => {
+      const output = await run(
+        tools.recall,
+        recallInputSchema.parse({ query: "rabbit" }),
+      );
+      assertEquals(output.facts[0], {
+        subject: textSubject,
+        predicate: SCHEMA_TEXT,
+        object: "Alice followed the White Rabbit down the hole.",
+        score: output.facts[0].score,
+      });
+      assertEquals(
+        output.passages.map((passage) => passage.content),
+        ["Alice followed the White Rabbit down the hole."],
+      );
+    });
+
+    await t.step("recall returns at most limit results", async () => {
+      await run(
+        tools.remember,
+        rememberInputSchema.parse({
+          facts: ["Carroll", "Lewis", "Dodgson"].map((name) => ({
+            subject: ex(name.toLowerCase()),
+            predicate: ex("favorite"),
+            object: `Alice, said ${name}`,
+          })),
+        }),
+      );
+
+      const all = await run(
+        tools.recall,
+        recallInputSchema.parse({ query: "alice" }),
+      );
+      assert(all.facts.length > 2);
+      assert(all.facts.length <= 5);
+      assert(all.passages.length > 2);
+
+      const limited = await run(
+        tools.recall,
+        recallInputSchema.parse({ query: "alice", limit: 2 }),
+      );
+      assertEquals(limited.facts, all.facts.slice(0, 2));
+      assertEquals(limited.passages, all.passages.slice(0, 2));
+
+      // Limits beyond the default of the server are searched for.
+      await run(
+        tools.remember,
+        rememberInputSchema.parse({
+          facts: Array.from({ length: 10 }, (_, i) => ({
+            subject: ex(`reader${i}`),
+            predicate: ex("favorite"),
+            object: `Alice, said reader ${i}`,
+          })),
+        }),
+      );
+      const many = await run(
+        tools.recall,
+        recallInputSchema.parse({ query: "alice", limit: 20 }),
+      );
+      assert(many.facts.length > 10);
+      assert(many.passages.length > 10);
+    });
+
+    await t.step("forget removes a single property", async () => {
+      assertEquals(
+        await run(
+          tools.forget,
+          forgetInputSchema.parse({
+            subject: ex("alice"),
+            predicate: ex("motto"),
+          }),
+        ),
+        { subject: ex("alice"), predicate: ex("motto") },
+      );
+      assertEquals((await statements(ex("alice"))).length, 3);
+      const { facts } = await run(
+        tools.recall,
+        recallInputSchema.parse({ query: "curiouser" }),
+      );
+      assertEquals(facts, []);
+    });
+
+    await t.step("forget removes a whole entity", async () => {
+      assertEquals(
+        await run(
+          tools.forget,
+          forgetInputSchema.parse({ subject: ex("alice") }),
+        ),
+        { subject: ex("alice"), statements: 3 },
+      );
+      assertEquals(await statements(ex("alice")), []);
+      assertEquals((await statements(ex("carroll"))).length, 1);
+
+      await assertRejects(
+        () =>
+          run(
+            tools.forget,
+            forgetInputSchema.parse({
+              subject: ex("alice"),
+              predicate: "> } ; DROP ALL ; {",
+            }),
+          ),
+        Error,
+        "Invalid IRI",
+      );
+    });
+  } finally {
+    await server.close();
+    sys.close();
+    await Deno.remove(dataDir, { recursive: true });
+  }
+});
@@ -1 +1,31 @@
-// TODO: Implement tools.
+import { World, WorldsOptions } from "../worlds.ts";
+import { createRememberTool } from "./remember.ts";
+import { createRecallTool } from "./recall.ts";
+import { createForgetTool } from "./forget.ts";
+
+export * from "./remember.ts";
+export * from "./recall.ts";
+export * from "./forget.ts";
+
+/**
+ * CreateToolsOptions are the options for creating the Worlds AISDK tools.
+ */
+export interface CreateToolsOptions extends WorldsOptions {
+  /**
+   * worldId is the ID of the World the tools operate on.
+   */
+  worldId: string;
+}
+
+/**
+ * createTools creates the remember, recall, and forget AISDK tools for a
+ * World.
+ */
+export function createTools(options: CreateToolsOptions) {
+  const world = new World(options);
+  return {
+    remember: createRememberTool(world),
+    recall: createRecallTool(world),
+    forget: createForgetTool(world),
+  };
+}
@@ -0,0 +1,80 @@
+import { tool } from "ai";
+import { z } from "zod";
+import type { World } from "../worlds.ts";
+
+/**
+ * recallInputSchema is the input schema of the recall tool.
+ */
+export const recallInputSchema = z.object({
+  query: z.string().describe(
+    "What to look for, in natural language or keywords.",
+  ),
+  limit: z.number().int().min(1).max(50).default(5).describe(
+    "Maximum number of facts and passages to return.",
+  ),
+});
+
+/**
+ * RecallInput is the input of the recall tool.
+ */
+export type RecallInput = z.infer<typeof recallInputSchema>;
+
+/**
+ * RecallOutput is the compact context returned by the recall tool.
+ */
+export interface RecallOutput {
+  /**
+   * facts are the statements that matched the query, best first.
+   */
+  facts: Array<{
+    subject: string;
+    predicate: string;
+    object: string;
+    score: number;
+  }>;
+
+  /**
+   * passages are the text chunks that matched the query, best first.
+   */
+  passages: Array<{
+    statementId: number;
+    content: string;
+    score: number;
+  }>;
+}
+
+/**
+ * createRecallTool creates a tool that runs a hybrid search over the
+ * statements and chunks of a World.
+ */
+export function createRecallTool(world: World) {
+  return tool({
+    description:
+      "Search long-term memory for facts and passages relevant to a query.",
+    inputSchema: recallInputSchema,
+    execute: async (
+      input: RecallInput,
+      { abortSignal },
+    ): Promise<RecallOutput> => {
+      const options = { limit: input.limit, signal: abortSignal };
+      const [statements, chunks] = await Promise.all([
+        world.searchStatements(input.query, options),
+        world.searchChunks(input.query, options),
+      ]);
+
+      return {
+        facts: statements.map(({ item, score }) => ({
+          subject: item.subject,
+          predicate: item.predicate,
+          object: item.object,
+          score,
+        })),
+        passages: chunks.map(({ item, score }) => ({
+          statementId: item.statementId,
+          content: item.content,
+          score,
+        })),
+      };
+    },
+  });
+}
@@ -0,0 +1,134 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { DataFactory } from "rdf-data-factory";
+import { Writer } from "n3";
+import type * as rdfjs from "@rdfjs/types";
+import type { World } from "../worlds.ts";
+
+const factory = new DataFactory();
+
+/**
+ * SCHEMA_TEXT is the predicate used to store free text in a World.
+ */
+export const SCHEMA_TEXT = "https://schema.org/text";
+
+/**
+ * SCHEMA_DATE_CREATED is the predicate used to timestamp free text in a World.
+ */
+export const SCHEMA_DATE_CREATED = "https://schema.org/dateCreated";
+
+const XSD_DATE_TIME = "http://www.w3.org/2001/XMLSchema#dateTime";
+
+/**
+ * rememberInputSchema is the input schema of the remember tool.
+ */
+export const rememberInputSchema = z.object({
+  facts: z.array(
+    z.object({
+      subject: z.string().describe(
+        "IRI of the entity the fact is about, e.g. https://example.org/people/ethan.",
+      ),
+      predicate: z.string().describe(
+        "IRI of the property, e.g. https://schema.org/name.",
+      ),
+      object: z.string().describe(
+        'Value of the fact. An IRI when objectType is "iri", text otherwise.',
+      ),
+      objectType: z.enum(["iri", "literal"]).default("literal").describe(
+        'Whether the object is another entity ("iri") or a value ("literal").',
+      ),
+      language: z.string().optional().describe(
+        'Language tag of a literal object, e.g. "en".',
+      ),
+      datatype: z.string().optional().describe(
+        "Datatype IRI of a literal object, e.g. http://www.w3.org/2001/XMLSchema#integer.",
+      ),
+    }),
+  ).optional().describe("Structured facts to store as statements."),
+  text: z.string().optional().describe(
+    "Unstructured text to store, such as a note or a summary of the conversation.",
+  ),
+});
+
+/**
+ * RememberInput is the input of the remember tool.
+ */
+export type RememberInput = z.infer<typeof rememberInputSchema>;
+
+/**
+ * RememberOutput is the output of the remember tool.
+ */
+export interface RememberOutput {
+  /**
+   * statements is the number of statements sent to the World.
+   */
+  statements: number;
+
+  /**
+   * textSubject is the IRI under which the text was stored, if any.
+   */
+  textSubject?: string;
+}
+
+/**
+ * createRememberTool creates a tool that stores facts or free text in a World.
+ */
+export function createRememberTool(world: World) {
+  return tool({
+    description:
+      "Store knowledge in long-term memory. Use facts for structured " +
+      "subject-predicate-object statements and text for anything else.",
+    inputSchema: rememberInputSchema,
+    execute: async (
+      input: RememberInput,
+      { abortSignal },
+    ): Promise<RememberOutput> => {
+      const quads = (input.facts ?? []).map((fact) =>
+        factory.quad(
+          factory.namedNode(fact.subject),
+          factory.namedNode(fact.predicate),
+          fact.objectType === "iri"
+            ? factory.namedNode(fact.object)
+            : factory.literal(
+              fact.object,
+              fact.language ??
+                (fact.datatype ? factory.namedNode(fact.datatype) : undefined),
+            ),
+        )
+      );
+
+      let textSubject: string | undefined;
+      if (input.text !== undefined && input.text.length > 0) {
+        textSubject = `urn:uuid:${crypto.randomUUID()}`;
+        const subject = factory.namedNode(textSubject);
+        quads.push(
+          factory.quad(
+            subject,
+            factory.namedNode(SCHEMA_TEXT),
+            factory.literal(input.text),
+          ),
+          factory.quad(
+            subject,
+            factory.namedNode(SCHEMA_DATE_CREATED),
+            factory.literal(
+              new Date().toISOString(),
+              factory.namedNode(XSD_DATE_TIME),
+            ),
+          ),
+        );
+      }
+
+      if (quads.length > 0) {
+        await world.addQuads(serialize(quads), "application/n-quads", {
+          signal: abortSignal,
+        });
+      }
+
+      return { statements: quads.length, textSubject };
+    },
+  });
+}
+
+function serialize(quads: rdfjs.Quad[]): string {
+  return new Writer({ format: "N-Quads" }).quadsToString(quads);
+}
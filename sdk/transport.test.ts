@@ -0,0 +1,131 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { send, type TransportOptions } from "./transport.ts";
+
+const url = new URL("http://worlds.test/worlds/w");
+
+/**
+ * fakeFetch answers requests with the given results in turn and records the
+ * methods of the requests.
+ */
+function fakeFetch(results: (Response | Error)[]) {
+  const methods: string[] = [];
+  const fetch = (request: Request) => {
+    methods.push(request.method);
+    const result = results[methods.length - 1];
+    return result instanceof Error
+      ? Promise.reject(result)
+      : Promise.resolve(result);
+  };
+  return { fetch, methods };
+}
+
+Deno.test("send", async (t) => {
+  const retry = { baseDelay: 0, maxDelay: 1_000 };
+
+  await t.step(
+    "retries idempotent requests on retryable statuses",
+    async () => {
+      const { fetch, methods } = fakeFetch([
+        new Response(null, { status: 503 }),
+        new Response(null, { status: 429, headers: { "Retry-After": "0" } }),
+        new Response("ok"),
+      ]);
+      const response = await send({ fetch, retry }, url, { method: "GET" });
+      assertEquals(response.status, 200);
+      assertEquals(methods, ["GET", "GET", "GET"]);
+    },
+  );
+
+  await t.step("returns the response once retries are used up", async () => {
+    const { fetch, methods } = fakeFetch([
+      new Response(null, { status: 503 }),
+      new Response(null, { status: 503 }),
+    ]);
+    const transport: TransportOptions = {
+      fetch,
+      retry: { ...retry, maxRetries: 1 },
+    };
+    const response = await send(transport, url, { method: "PUT" });
+    assertEquals(response.status, 503);
+    assertEquals(methods.length, 2);
+  });
+
+  await t.step(
+    "does not retry before a Retry-After longer than maxDelay",
+    async () => {
+      const { fetch, methods } = fakeFetch([
+        new Response(null, { status: 429, headers: { "Retry-After": "60" } }),
+        new Response("ok"),
+      ]);
+      const response = await send({ fetch, retry }, url, { method: "GET" });
+      assertEquals(response.status, 429);
+      assertEquals(response.headers.get("Retry-After"), "60");
+      assertEquals(methods.length, 1);
+    },
+  );
+
+  await t.step("retries idempotent requests on network errors", async () => {
+    const { fetch, methods } = fakeFetch([
+      new TypeError("connection reset"),
+      new Response("ok"),
+    ]);
+    const response = await send({ fetch, retry }, url, { method: "DELETE" });
+    assertEquals(response.status, 200);
+    assertEquals(methods, ["DELETE", "DELETE"]);
+  });
+
+  await t.step("throws the last network error", async () => {
+    const { fetch, methods } = fakeFetch([
+      new TypeError("connection reset"),
+      new TypeError("connection refused"),
+    ]);
+    await assertRejects(
+      () =>
+        send({ fetch, retry: { ...retry, maxRetries: 1 } }, url, {
+          method: "GET",
+        }),
+      TypeError,
+      "connection refused",
+    );
+    assertEquals(methods.length, 2);
+  });
+
+  await t.step("does not retry other methods or errors", async () => {
+    const post = fakeFetch([new TypeError("connection reset")]);
+    await assertRejects(
+      () => send({ fetch: post.fetch, retry }, url, { method: "POST" }),
+      TypeError,
+    );
+    assertEquals(post.methods.length, 1);
+
+    const failing = fakeFetch([new Error("hook failed")]);
+    await assertRejects(
+      () => send({ fetch: failing.fetch, retry }, url, { method: "GET" }),
+      Error,
+      "hook failed",
+    );
+    assertEquals(failing.methods.length, 1);
+
+    const disabled = fakeFetch([new Response(null, { status: 503 })]);
+    const response = await send({ fetch: disabled.fetch, retry: false }, url, {
+      method: "GET",
+    });
+    assertEquals(response.status, 503);
+    assertEquals(disabled.methods.length, 1);
+  });
+
+  await t.step("limits the timeout of streams to the headers", async () => {
+    let signal: AbortSignal | undefined;
+    const fetch = (request: Request) => {
+      signal = request.signal;
+      return Promise.resolve(new Response("ok"));
+    };
+    await send({ fetch, timeout: 10 }, url, {}, { streaming: true });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    assertEquals(signal?.aborted, false);
+
+    await send({ fetch, timeout: 10 }, url, {});
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    assertEquals((signal?.reason as DOMException).name, "TimeoutError");
+  });
+});
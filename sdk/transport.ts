@@ -0,0 +1,271 @@
+import { parseRetryAfter } from "./errors.ts";
+
+/**
+ * RetryPolicy configures how failed requests are retried.
+ */
+export interface RetryPolicy {
+  /**
+   * maxRetries is the maximum number of retries after the first attempt.
+   */
+  maxRetries: number;
+
+  /**
+   * methods are the HTTP methods that may be retried, both on the statuses
+   * below and on network errors. Only idempotent methods should be listed.
+   */
+  methods: string[];
+
+  /**
+   * statuses are the response statuses that trigger a retry.
+   */
+  statuses: number[];
+
+  /**
+   * baseDelay is the delay in milliseconds before the first retry. The delay
+   * doubles with every retry.
+   */
+  baseDelay: number;
+
+  /**
+   * maxDelay is the maximum delay in milliseconds between two attempts. A
+   * response whose Retry-After header asks for a longer delay is not retried.
+   */
+  maxDelay: number;
+}
+
+/**
+ * defaultRetryPolicy retries idempotent requests twice on 429 and 503.
+ */
+export const defaultRetryPolicy: RetryPolicy = {
+  maxRetries: 2,
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+  statuses: [429, 503],
+  baseDelay: 250,
+  maxDelay: 10_000,
+};
+
+/**
+ * WorldsHooks are callbacks invoked around every attempt of a request, for
+ * example to add tracing headers or to record latency.
+ */
+export interface WorldsHooks {
+  /**
+   * onRequest is called before a request is sent. Headers of the request may
+   * be modified.
+   */
+  onRequest?: (request: Request) => void | Promise<void>;
+
+  /**
+   * onResponse is called after a response is received.
+   */
+  onResponse?: (
+    response: Response,
+    request: Request,
+  ) => void | Promise<void>;
+}
+
+/**
+ * TransportOptions configure how the SDK talks to the network.
+ */
+export interface TransportOptions {
+  /**
+   * fetch is the fetch implementation used to send requests. Defaults to the
+   * global fetch.
+   */
+  fetch?: (request: Request) => Promise<Response>;
+
+  /**
+   * timeout is the default time budget in milliseconds of a call, including
+   * retries.
+   */
+  timeout?: number;
+
+  /**
+   * retry is the retry policy. Set to false to disable retries.
+   */
+  retry?: Partial<RetryPolicy> | false;
+
+  /**
+   * hooks are callbacks invoked around every attempt of a request.
+   */
+  hooks?: WorldsHooks;
+}
+
+/**
+ * RequestOptions are the per-call options of every SDK method.
+ */
+export interface RequestOptions {
+  /**
+   * signal aborts the call when aborted.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * timeout is the time budget in milliseconds of the call, including
+   * retries. Overrides the default timeout.
+   */
+  timeout?: number;
+}
+
+/**
+ * SendOptions are the options of a single call to send.
+ */
+export interface SendOptions extends RequestOptions {
+  /**
+   * streaming limits the timeout to the time until the response headers
+   * arrive, for responses whose body streams for as long as it is read.
+   */
+  streaming?: boolean;
+}
+
+/**
+ * send sends a request using the configured transport, retrying it according
+ * to the retry policy. The last response is returned regardless of its
+ * status, and the last network error is thrown.
+ */
+export async function send(
+  transport: TransportOptions,
+  url: URL,
+  init: RequestInit,
+  options: SendOptions = {},
+): Promise<Response> {
+  const fetchFn = transport.fetch ?? ((request: Request) => fetch(request));
+  const policy: RetryPolicy | null = transport.retry === false
+    ? null
+    : { ...defaultRetryPolicy, ...transport.retry };
+  const deadline = timeoutSignal(
+    options.timeout ?? transport.timeout,
+    options.streaming ?? false,
+  );
+  const signal = combineSignals(options.signal, deadline?.signal);
+
+  // Streamed bodies can only be sent once.
+  const method = (init.method ?? "GET").toUpperCase();
+  const retryable = policy !== null && policy.methods.includes(method) &&
+    !(init.body instanceof ReadableStream);
+
+  try {
+    for (let attempt = 0;; attempt++) {
+      const request = new Request(url, { ...init, signal });
+      await transport.hooks?.onRequest?.(request);
+      let response: Response;
+      try {
+        response = await fetchFn(request);
+      } catch (error) {
+        // fetch rejects with a TypeError when the network fails.
+        if (
+          !retryable || policy === null || attempt >= policy.maxRetries ||
+          !(error instanceof TypeError)
+        ) {
+          throw error;
+        }
+
+        await sleep(backoffDelay(policy, attempt), signal);
+        continue;
+      }
+
+      await transport.hooks?.onResponse?.(response, request);
+
+      if (
+        !retryable || policy === null || attempt >= policy.maxRetries ||
+        !policy.statuses.includes(response.status)
+      ) {
+        return response;
+      }
+
+      const delay = retryDelay(policy, attempt, response);
+      if (delay === null) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      await sleep(delay, signal);
+    }
+  } finally {
+    deadline?.clear();
+  }
+}
+
+/**
+ * retryDelay computes the delay before the next attempt, preferring the delay
+ * requested by the server. It returns null if the server asks for a longer
+ * delay than the policy allows, since retrying earlier would fail again.
+ */
+function retryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  response: Response,
+): number | null {
+  const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+  if (retryAfter !== null) {
+    return retryAfter <= policy.maxDelay ? retryAfter : null;
+  }
+
+  return backoffDelay(policy, attempt);
+}
+
+/**
+ * backoffDelay computes an exponential delay with jitter before the next
+ * attempt.
+ */
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const backoff = policy.baseDelay * 2 ** attempt;
+  const jitter = Math.random() * policy.baseDelay;
+  return Math.min(backoff + jitter, policy.maxDelay);
+}
+
+function combineSignals(
+  ...signals: (AbortSignal | undefined)[]
+): AbortSignal | undefined {
+  const defined = signals.filter((signal) => signal !== undefined);
+  return defined.length > 0 ? AbortSignal.any(defined) : undefined;
+}
+
+/**
+ * timeoutSignal returns a signal that aborts with a TimeoutError once the
+ * timeout elapses. A clearable timeout stops counting when cleared, which
+ * send does once the response headers arrive.
+ */
+function timeoutSignal(
+  timeout: number | undefined,
+  clearable: boolean,
+): { signal: AbortSignal; clear: () => void } | undefined {
+  if (timeout === undefined) {
+    return undefined;
+  }
+
+  if (!clearable) {
+    return { signal: AbortSignal.timeout(timeout), clear: () => {} };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () =>
+      controller.abort(new DOMException("Signal timed out.", "TimeoutError")),
+    timeout,
+  );
+  return { signal: controller.signal, clear: () => clearTimeout(timer) };
+}
+
+/**
+ * sleep resolves after a delay in milliseconds, or rejects with the reason of
+ * the signal once it aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * ApiKey describes a named API key of an account without its secret.
+ */
+export interface ApiKey {
+  /**
+   * prefix identifies the key. It is the first 8 characters after
+   * "sk_world_" in the secret.
+   */
+  prefix: string;
+
+  /**
+   * accountId is the ID of the account the key belongs to.
+   */
+  accountId: string;
+
+  /**
+   * name is a user-defined label of the key, e.g. "CI/CD Pipeline". The
+   * account key created with the account has no name.
+   */
+  name: string | null;
+
+  /**
+   * worlds are the IDs of the worlds the key is scoped to. An empty list
+   * means every world the account may access.
+   */
+  worlds: string[];
+
+  /**
+   * createdAt is when the key was created, in milliseconds since the epoch.
+   */
+  createdAt: number;
+
+  /**
+   * expiresAt is when the key stops working, in milliseconds since the
+   * epoch, or null if it never expires.
+   */
+  expiresAt: number | null;
+}
+
+/**
+ * CreateApiKeyInput describes an API key to create.
+ */
+export interface CreateApiKeyInput {
+  /**
+   * name is a user-defined label of the key.
+   */
+  name: string;
+
+  /**
+   * ttl is the lifetime of the key in milliseconds. The key never expires
+   * if unset.
+   */
+  ttl?: number;
+
+  /**
+   * worlds are the IDs of the worlds the key is scoped to. The key may
+   * access every world of the account if unset or empty.
+   */
+  worlds?: string[];
+}
+
+/**
+ * CreatedApiKey is a newly created API key. Its secret is only returned
+ * once, at creation.
+ */
+export interface CreatedApiKey extends ApiKey {
+  /**
+   * apiKey is the secret key.
+   */
+  apiKey: string;
+}
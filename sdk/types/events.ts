@@ -0,0 +1,44 @@
+import type { WorldDiff } from "./history.ts";
+import type { WorldMetadata } from "./world.ts";
+
+/**
+ * WorldPatchEvent reports the quads one operation added to and removed from
+ * a World. Deletions are applied before insertions.
+ */
+export interface WorldPatchEvent extends WorldDiff {
+  type: "patch";
+
+  /**
+   * changeId is the last change of the patch in the change log of the World.
+   * Pass it as since to resume the feed after this event.
+   */
+  changeId: number;
+  operationId: string;
+  keyPrefix: string;
+  createdAt: number;
+}
+
+/**
+ * WorldMetadataEvent reports new metadata of a World.
+ */
+export interface WorldMetadataEvent {
+  type: "metadata";
+  metadata: WorldMetadata;
+}
+
+/**
+ * WorldDeletedEvent reports that a World was removed. It is the last event of
+ * the feed.
+ */
+export interface WorldDeletedEvent {
+  type: "deleted";
+  worldId: string;
+}
+
+/**
+ * WorldEvent is an event of the live change feed of a World.
+ */
+export type WorldEvent =
+  | WorldPatchEvent
+  | WorldMetadataEvent
+  | WorldDeletedEvent;
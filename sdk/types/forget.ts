@@ -0,0 +1,19 @@
+/**
+ * ForgetResult reports what forgetting a resource removed from a World.
+ */
+export interface ForgetResult {
+  /**
+   * statements is the number of statements removed.
+   */
+  statements: number;
+
+  /**
+   * chunks is the number of chunks removed with the statements.
+   */
+  chunks: number;
+
+  /**
+   * dryRun is true if nothing was actually removed.
+   */
+  dryRun: boolean;
+}
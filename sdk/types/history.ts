@@ -0,0 +1,58 @@
+import type { Statement } from "./statement.ts";
+
+/**
+ * Change is an entry of the change log of a World: a statement that was
+ * inserted or deleted.
+ */
+export interface Change {
+  changeId: number;
+  type: "insert" | "delete";
+
+  /**
+   * operationId groups the changes made by one request.
+   */
+  operationId: string;
+
+  /**
+   * keyPrefix is the prefix of the API key that made the change.
+   */
+  keyPrefix: string;
+  createdAt: number;
+  statement: Statement;
+}
+
+/**
+ * Snapshot is a named point in the history of a World.
+ */
+export interface Snapshot {
+  snapshotId: string;
+  worldId: string;
+  name: string;
+
+  /**
+   * changeId is the last change included in the snapshot.
+   */
+  changeId: number;
+  createdAt: number;
+}
+
+/**
+ * WorldPoint names a state of a World: a snapshot ID, or a time as a Date or
+ * in milliseconds since the epoch.
+ */
+export type WorldPoint = string | number | Date;
+
+/**
+ * WorldDiff is the difference between two states of a World, in N-Quads.
+ */
+export interface WorldDiff {
+  /**
+   * insertions are the quads in the later state only.
+   */
+  insertions: string;
+
+  /**
+   * deletions are the quads in the earlier state only.
+   */
+  deletions: string;
+}
@@ -0,0 +1,40 @@
+import type { WorldDiff } from "./history.ts";
+
+/**
+ * MergeStrategy decides which values win when a functional predicate has
+ * different values in the source and the target of a merge: "union" keeps
+ * both, "source-wins" replaces the target's values, and "target-wins" keeps
+ * them. Statements of other predicates are always unioned.
+ */
+export type MergeStrategy = "union" | "source-wins" | "target-wins";
+
+/**
+ * MergeResult reports how merging a source World changed a target World.
+ */
+export interface MergeResult {
+  /**
+   * inserted is the number of quads added to the target.
+   */
+  inserted: number;
+
+  /**
+   * deleted is the number of quads removed from the target.
+   */
+  deleted: number;
+
+  /**
+   * conflicts is the number of subjects whose functional predicates have
+   * different values in the two Worlds, counted per predicate and graph.
+   */
+  conflicts: number;
+
+  /**
+   * dryRun is true if nothing was actually changed.
+   */
+  dryRun: boolean;
+
+  /**
+   * diff lists the quads a dry run would add and remove, in N-Quads.
+   */
+  diff?: WorldDiff;
+}
@@ -1,7 +1,15 @@
 export * from "./account.ts";
+export * from "./api-key.ts";
 export * from "./world.ts";
 
 export * from "./search.ts";
 export * from "./statement.ts";
 export * from "./chunk.ts";
+export * from "./forget.ts";
+export * from "./update.ts";
+export * from "./merge.ts";
+export * from "./history.ts";
+export * from "./events.ts";
 export * from "./usage.ts";
+export * from "./storage.ts";
+export * from "./settings.ts";
@@ -0,0 +1,32 @@
+/**
+ * ChunkingSettings configures how the text literals of a world are split into
+ * chunks. Unset options use the defaults of the server.
+ */
+export interface ChunkingSettings {
+  /**
+   * chunkSize is the maximum length of a chunk in characters.
+   */
+  chunkSize?: number;
+
+  /**
+   * chunkOverlap is the number of characters that adjacent chunks share.
+   */
+  chunkOverlap?: number;
+
+  /**
+   * separators are the separators that text is split at, tried in order.
+   */
+  separators?: string[];
+}
+
+/**
+ * WorldSettings are the settings of a world.
+ */
+export interface WorldSettings {
+  /**
+   * chunking configures how text literals are split into chunks, or is false
+   * to store statements without chunks. Changes apply to later writes;
+   * chunks that are already stored are kept.
+   */
+  chunking: ChunkingSettings | false;
+}
@@ -0,0 +1,31 @@
+/**
+ * StorageUsage reports the storage of a world and of its account against the
+ * storage quota of the account's plan.
+ */
+export interface StorageUsage {
+  /**
+   * worldId is the ID of the world.
+   */
+  worldId: string;
+
+  /**
+   * accountId is the ID of the account that owns the world.
+   */
+  accountId: string;
+
+  /**
+   * worldBytes is the storage of the world in bytes, including statements,
+   * chunks, vectors, and full-text indices.
+   */
+  worldBytes: number;
+
+  /**
+   * accountBytes is the storage of all worlds of the account in bytes.
+   */
+  accountBytes: number;
+
+  /**
+   * quotaBytes is the storage quota of the account's plan in bytes.
+   */
+  quotaBytes: number;
+}
@@ -0,0 +1,14 @@
+/**
+ * UpdateResult reports how a SPARQL update changed a World.
+ */
+export interface UpdateResult {
+  /**
+   * inserted is the number of quads the update added.
+   */
+  inserted: number;
+
+  /**
+   * deleted is the number of quads the update removed.
+   */
+  deleted: number;
+}
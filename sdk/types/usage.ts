@@ -4,12 +4,59 @@
 export interface UsageBucket {
   bucketStartTs: number;
   accountId: string;
+
+  /**
+   * keyPrefix identifies the API key that incurred the usage.
+   */
+  keyPrefix: string;
+
+  /**
+   * endpoint is the route of the requests, e.g. "GET /worlds/:world".
+   */
   endpoint: string;
   requestCount: number;
   tokenInCount: number;
   tokenOutCount: number;
 }
 
+/**
+ * UsageGranularity is the size of the buckets usage is rolled up into.
+ * Buckets are stored per minute; hours, days, and months are in UTC.
+ */
+export type UsageGranularity = "minute" | "hour" | "day" | "month";
+
+/**
+ * UsageQuery filters and rolls up usage buckets.
+ */
+export interface UsageQuery {
+  /**
+   * start is the inclusive lower bound of the bucket start, in milliseconds
+   * since the epoch.
+   */
+  start?: number;
+
+  /**
+   * end is the exclusive upper bound of the bucket start, in milliseconds
+   * since the epoch.
+   */
+  end?: number;
+
+  /**
+   * endpoint only includes the usage of one route.
+   */
+  endpoint?: string;
+
+  /**
+   * keyPrefix only includes the usage of one API key.
+   */
+  keyPrefix?: string;
+
+  /**
+   * granularity rolls buckets up. Defaults to "minute".
+   */
+  granularity?: UsageGranularity;
+}
+
 /**
  * Limit represents an access control limit configuration.
  */
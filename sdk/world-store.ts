@@ -0,0 +1,265 @@
+import type * as rdfjs from "@rdfjs/types";
+import { EventEmitter } from "node:events";
+import { Readable } from "node:stream";
+import type { World } from "./worlds.ts";
+import { defaultDataFactory, formatSparqlTerm } from "./sparql.ts";
+
+/**
+ * deleteBatchSize is the maximum number of quads per DELETE DATA update.
+ */
+const deleteBatchSize = 1_000;
+
+/**
+ * WorldStore exposes a World as an RDF/JS Store so that it can be consumed by
+ * Comunica, N3.js tooling, and SHACL validators without exporting the whole
+ * graph first.
+ *
+ * Blank nodes cannot be referenced across requests, so blank nodes in match
+ * patterns are filtered client-side and quads with blank nodes cannot be
+ * removed by value.
+ */
+export class WorldStore implements rdfjs.Store {
+  private readonly df: rdfjs.DataFactory;
+
+  public constructor(private readonly world: World) {
+    this.df = world.options.dataFactory ?? defaultDataFactory;
+  }
+
+  public match(
+    subject?: rdfjs.Term | null,
+    predicate?: rdfjs.Term | null,
+    object?: rdfjs.Term | null,
+    graph?: rdfjs.Term | null,
+  ): rdfjs.Stream<rdfjs.Quad> {
+    return Readable.from(
+      this.matchQuads(subject, predicate, object, graph),
+      { objectMode: true },
+    );
+  }
+
+  public import(stream: rdfjs.Stream<rdfjs.Quad>): EventEmitter {
+    return settle(this.world.ingest(iterate(stream)));
+  }
+
+  public remove(stream: rdfjs.Stream<rdfjs.Quad>): EventEmitter {
+    return settle((async () => {
+      let batch: rdfjs.Quad[] = [];
+      for await (const quad of iterate(stream)) {
+        batch.push(quad);
+        if (batch.length >= deleteBatchSize) {
+          await this.world.update(deleteData(batch));
+          batch = [];
+        }
+      }
+
+      if (batch.length > 0) {
+        await this.world.update(deleteData(batch));
+      }
+    })());
+  }
+
+  public removeMatches(
+    subject?: rdfjs.Term | null,
+    predicate?: rdfjs.Term | null,
+    object?: rdfjs.Term | null,
+    graph?: rdfjs.Term | null,
+  ): EventEmitter {
+    return settle((async () => {
+      const triple = [
+        position(subject, "s", true),
+        position(predicate, "p", true),
+        position(object, "o", true),
+      ].join(" ");
+      const operations: string[] = [];
+      if (!isBound(graph) || graph.termType === "DefaultGraph") {
+        operations.push(`DELETE WHERE { ${triple} . }`);
+      }
+
+      if (!isBound(graph) || graph.termType !== "DefaultGraph") {
+        const g = position(graph, "g", true);
+        operations.push(`DELETE WHERE { GRAPH ${g} { ${triple} . } }`);
+      }
+
+      await this.world.update(operations.join(" ;\n"));
+    })());
+  }
+
+  public deleteGraph(graph: rdfjs.Quad_Graph | string): EventEmitter {
+    return settle((async () => {
+      if (typeof graph !== "string" && graph.termType === "DefaultGraph") {
+        await this.world.update("DROP SILENT DEFAULT");
+        return;
+      }
+
+      const iri = typeof graph === "string"
+        ? formatSparqlTerm(this.df.namedNode(graph))
+        : formatSparqlTerm(graph);
+      await this.world.update(`DROP SILENT GRAPH ${iri}`);
+    })());
+  }
+
+  private async *matchQuads(
+    subject?: rdfjs.Term | null,
+    predicate?: rdfjs.Term | null,
+    object?: rdfjs.Term | null,
+    graph?: rdfjs.Term | null,
+  ): AsyncGenerator<rdfjs.Quad> {
+    const triple = [
+      position(subject, "s"),
+      position(predicate, "p"),
+      position(object, "o"),
+    ].join(" ");
+    let where: string;
+    if (!isBound(graph)) {
+      where = `{ ${triple} } UNION { GRAPH ?g { ${triple} } }`;
+    } else if (graph.termType === "DefaultGraph") {
+      where = triple;
+    } else {
+      where = `GRAPH ${position(graph, "g")} { ${triple} }`;
+    }
+
+    const result = await this.world.query(`SELECT * WHERE { ${where} }`);
+    if (result.type !== "select") {
+      throw new Error(`Unexpected ${result.type} result`);
+    }
+
+    for (const binding of result.bindings) {
+      const quad = this.df.quad(
+        resolve(subject, binding.s) as rdfjs.Quad_Subject,
+        resolve(predicate, binding.p) as rdfjs.Quad_Predicate,
+        resolve(object, binding.o) as rdfjs.Quad_Object,
+        (resolve(graph, binding.g) ??
+          this.df.defaultGraph()) as rdfjs.Quad_Graph,
+      );
+      if (
+        matchesBlank(subject, quad.subject) &&
+        matchesBlank(object, quad.object) && matchesBlank(graph, quad.graph)
+      ) {
+        yield quad;
+      }
+    }
+  }
+}
+
+function isBound(
+  term: rdfjs.Term | null | undefined,
+): term is Exclude<rdfjs.Term, rdfjs.Variable> {
+  return term !== null && term !== undefined && term.termType !== "Variable";
+}
+
+/**
+ * position formats a pattern position as a SPARQL term, or as a variable if
+ * the term is unbound. Blank nodes become variables unless strict is set, in
+ * which case they are rejected.
+ */
+function position(
+  term: rdfjs.Term | null | undefined,
+  variable: string,
+  strict = false,
+): string {
+  if (!isBound(term)) {
+    return `?${variable}`;
+  }
+
+  if (term.termType === "BlankNode" && !strict) {
+    return `?${variable}`;
+  }
+
+  return formatSparqlTerm(term);
+}
+
+function resolve(
+  term: rdfjs.Term | null | undefined,
+  bound: rdfjs.Term | undefined,
+): rdfjs.Term | undefined {
+  return isBound(term) && term.termType !== "BlankNode" ? term : bound;
+}
+
+function matchesBlank(
+  pattern: rdfjs.Term | null | undefined,
+  term: rdfjs.Term,
+): boolean {
+  return pattern?.termType !== "BlankNode" || pattern.equals(term);
+}
+
+/**
+ * deleteData formats quads as a DELETE DATA update.
+ */
+function deleteData(quads: rdfjs.Quad[]): string {
+  const triples = (quad: rdfjs.Quad) =>
+    [quad.subject, quad.predicate, quad.object].map(formatSparqlTerm).join(" ");
+  const graphs = new Map<string, string[]>();
+  for (const quad of quads) {
+    const key = quad.graph.termType === "DefaultGraph"
+      ? ""
+      : formatSparqlTerm(quad.graph);
+    const lines = graphs.get(key) ?? [];
+    lines.push(`${triples(quad)} .`);
+    graphs.set(key, lines);
+  }
+
+  const blocks = [...graphs].map(([graph, lines]) =>
+    graph === "" ? lines.join("\n") : `GRAPH ${graph} {\n${lines.join("\n")}\n}`
+  );
+  return `DELETE DATA {\n${blocks.join("\n")}\n}`;
+}
+
+/**
+ * iterate turns an RDF/JS stream into an async iterable.
+ */
+async function* iterate(
+  stream: rdfjs.Stream<rdfjs.Quad>,
+): AsyncGenerator<rdfjs.Quad> {
+  const buffer: rdfjs.Quad[] = [];
+  let done = false;
+  let failure: unknown = null;
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  stream.on("data", (quad: rdfjs.Quad) => {
+    buffer.push(quad);
+    notify();
+  });
+  stream.on("end", () => {
+    done = true;
+    notify();
+  });
+  stream.on("error", (error: unknown) => {
+    failure = error;
+    done = true;
+    notify();
+  });
+
+  while (true) {
+    if (buffer.length > 0) {
+      yield buffer.shift()!;
+      continue;
+    }
+
+    if (failure !== null) {
+      throw failure;
+    }
+
+    if (done) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => wake = resolve);
+  }
+}
+
+/**
+ * settle returns an event emitter that emits "end" when the promise resolves
+ * and "error" when it rejects.
+ */
+function settle(promise: Promise<unknown>): EventEmitter {
+  const emitter = new EventEmitter();
+  promise.then(
+    () => emitter.emit("end"),
+    (error) => emitter.emit("error", error),
+  );
+  return emitter;
+}
@@ -1,17 +1,187 @@
-import { Chunk, RankedResult, Statement, WorldMetadata } from "./types/mod.ts";
+import type * as rdfjs from "@rdfjs/types";
+import {
+  Change,
+  Chunk,
+  ForgetResult,
+  MergeResult,
+  MergeStrategy,
+  RankedResult,
+  Snapshot,
+  Statement,
+  StorageUsage,
+  UpdateResult,
+  WorldDiff,
+  WorldEvent,
+  WorldMetadata,
+  WorldPoint,
+  WorldSettings,
+} from "./types/mod.ts";
+import {
+  handleResponse,
+  NotFoundError,
+  RateLimitedError,
+  ServerError,
+  WorldsApiError,
+} from "./errors.ts";
+import {
+  RequestOptions,
+  send,
+  SendOptions,
+  sleep,
+  TransportOptions,
+} from "./transport.ts";
+import { parseEventStream } from "./events.ts";
+import { parseRateLimit, RateLimit } from "./rate-limit.ts";
+import {
+  parseSparqlResponse,
+  sparqlAccept,
+  sparqlQueryForm,
+  SparqlResult,
+} from "./sparql.ts";
+import {
+  ingestBatches,
+  IngestError,
+  IngestOptions,
+  IngestProgress,
+  IngestSource,
+} from "./ingest.ts";
+
+const N_QUADS = "application/n-quads";
 
 /**
  * WorldsOptions are the options for the Worlds API SDK.
  */
-export interface WorldsOptions {
+export interface WorldsOptions extends TransportOptions {
   baseUrl: string;
   apiKey: string;
+
+  /**
+   * dataFactory creates the RDF/JS terms of parsed results.
+   */
+  dataFactory?: rdfjs.DataFactory;
+}
+
+/**
+ * GetWorldOptions are the options for getting a world.
+ */
+export interface GetWorldOptions extends RequestOptions {
+  /**
+   * at gets the world as it was at a snapshot or a time instead of now.
+   */
+  at?: WorldPoint;
+}
+
+/**
+ * ChangesOptions are the options for reading the change log of a world.
+ */
+export interface ChangesOptions extends RequestOptions {
+  /**
+   * since only returns changes after this change ID.
+   */
+  since?: number;
+
+  /**
+   * limit is the maximum number of changes to return.
+   */
+  limit?: number;
+}
+
+/**
+ * SearchOptions are the options for searching the statements or chunks of a
+ * world.
+ */
+export interface SearchOptions extends RequestOptions {
+  /**
+   * limit is the maximum number of results to return. Defaults to the limit
+   * of the server.
+   */
+  limit?: number;
+}
+
+/**
+ * WatchOptions are the options for following the change feed of a world.
+ */
+export interface WatchOptions extends RequestOptions {
+  /**
+   * since resumes the feed after the patch with this change ID. The feed
+   * starts with the next change if unset.
+   */
+  since?: number;
+
+  /**
+   * reconnectDelay is the delay in milliseconds before reconnecting after
+   * the connection drops. Defaults to one second.
+   */
+  reconnectDelay?: number;
+}
+
+/**
+ * ForgetOptions are the options for forgetting a resource.
+ */
+export interface ForgetOptions extends RequestOptions {
+  /**
+   * dryRun reports what would be removed without removing it.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * ForkOptions are the options for forking a world.
+ */
+export interface ForkOptions extends RequestOptions {
+  /**
+   * worldId is the ID of the new world. A random ID is chosen if unset.
+   */
+  worldId?: string;
+
+  /**
+   * name is the name of the new world. Defaults to the name of the source.
+   */
+  name?: string;
+}
+
+/**
+ * ImportWorldOptions are the options for importing a world database.
+ */
+export interface ImportWorldOptions extends RequestOptions {
+  /**
+   * worldId is the ID of the new world. A random ID is chosen if unset.
+   */
+  worldId?: string;
+
+  /**
+   * name is the name of the new world. Defaults to its ID.
+   */
+  name?: string;
+}
+
+/**
+ * MergeOptions are the options for merging a world into another.
+ */
+export interface MergeOptions extends RequestOptions {
+  /**
+   * dryRun reports the diff of the merge without applying it.
+   */
+  dryRun?: boolean;
+
+  /**
+   * functionalPredicates are IRIs of predicates with at most one value per
+   * subject, in addition to those declared owl:FunctionalProperty in either
+   * world.
+   */
+  functionalPredicates?: string[];
 }
 
 /**
  * Worlds is a TypeScript SDK for the Worlds API.
  */
 export class Worlds {
+  /**
+   * rateLimit is the rate limit reported by the latest response, or null if
+   * the server has not reported one yet.
+   */
+  public rateLimit: RateLimit | null = null;
+
   public constructor(
     public readonly options: WorldsOptions,
   ) {}
@@ -19,43 +189,31 @@ export class Worlds {
   /**
    * getWorlds gets all worlds from the Worlds API.
    */
-  public async getWorlds(): Promise<WorldMetadata[]> {
+  public async getWorlds(options?: RequestOptions): Promise<WorldMetadata[]> {
     const url = new URL(`${this.options.baseUrl}/worlds`);
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${this.options.apiKey}`,
-      },
-    });
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
+    const response = await this.request(url, {}, options);
     return await response.json();
   }
 
   /**
-   * getWorld gets a world from the Worlds API.
+   * getWorld gets a world from the Worlds API, optionally as it was at a
+   * snapshot or a time.
    */
   public async getWorld(
     worldId: string,
     encoding: string,
+    options?: GetWorldOptions,
   ): Promise<string | null> {
     const url = new URL(`${this.options.baseUrl}/worlds/${worldId}`);
-    const response = await fetch(
-      url,
-      {
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-          "Accept": encoding,
-        },
-      },
-    );
-    if (response.status === 404) {
-      return null;
+    if (options?.at !== undefined) {
+      url.searchParams.set("at", pointParam(options.at));
     }
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    const response = await this.requestOrNull(url, {
+      headers: { "Accept": encoding },
+    }, options);
+    if (response === null) {
+      return null;
     }
 
     return await response.text();
@@ -68,22 +226,14 @@ export class Worlds {
     worldId: string,
     world: string,
     encoding: string,
+    options?: RequestOptions,
   ): Promise<void> {
     const url = new URL(`${this.options.baseUrl}/worlds/${worldId}`);
-    const response = await fetch(
-      url,
-      {
-        method: "PUT",
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-          "Content-Type": encoding,
-        },
-        body: world,
-      },
-    );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+    await this.request(url, {
+      method: "PUT",
+      headers: { "Content-Type": encoding },
+      body: world,
+    }, options);
   }
 
   /**
@@ -93,99 +243,122 @@ export class Worlds {
     worldId: string,
     data: string,
     encoding: string,
+    options?: RequestOptions,
   ): Promise<void> {
     const url = new URL(`${this.options.baseUrl}/worlds/${worldId}`);
-    const response = await fetch(
-      url,
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-          "Content-Type": encoding,
-        },
-        body: data,
-      },
+    await this.request(url, {
+      method: "POST",
+      headers: { "Content-Type": encoding },
+      body: data,
+    }, options);
+  }
+
+  /**
+   * ingest streams a source into a world in bounded batches of N-Quads. With
+   * replace, the first batch replaces the world and later batches are added
+   * to it. If a batch fails, an IngestError carrying the acknowledged progress
+   * is thrown; pass it as resumeFrom to continue where ingestion stopped.
+   */
+  public async ingest(
+    worldId: string,
+    source: IngestSource,
+    options: IngestOptions = {},
+  ): Promise<IngestProgress> {
+    const progress: IngestProgress = {
+      quads: 0,
+      bytes: 0,
+      batches: 0,
+      blankNodeSeed: crypto.randomUUID(),
+      ...options.resumeFrom,
+    };
+    const batches = ingestBatches(
+      source,
+      options,
+      progress.quads,
+      progress.blankNodeSeed,
     );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    for await (const batch of batches) {
+      try {
+        if (options.replace && progress.batches === 0) {
+          await this.setWorld(worldId, batch.data, N_QUADS, options);
+        } else {
+          await this.addQuads(worldId, batch.data, N_QUADS, options);
+        }
+      } catch (error) {
+        throw new IngestError({ ...progress }, { cause: error });
+      }
+
+      progress.quads += batch.quads;
+      progress.bytes += batch.bytes;
+      progress.batches++;
+      options.onProgress?.({ ...progress });
+    }
+
+    // An empty source still replaces the world.
+    if (options.replace && progress.batches === 0) {
+      await this.setWorld(worldId, "", N_QUADS, options);
     }
+
+    return progress;
   }
 
   /**
    * removeWorld removes a world from the Worlds API.
    */
-  public async removeWorld(worldId: string): Promise<void> {
+  public async removeWorld(
+    worldId: string,
+    options?: RequestOptions,
+  ): Promise<void> {
     const url = new URL(`${this.options.baseUrl}/worlds/${worldId}`);
-    const response = await fetch(
-      url,
-      {
-        method: "DELETE",
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-        },
-      },
-    );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+    await this.request(url, { method: "DELETE" }, options);
   }
 
   /**
    * queryWorld executes a SPARQL query against a world in the Worlds API.
-   * Uses POST with application/sparql-query for robustness.
+   * Uses POST with application/sparql-query for robustness. The Accept header
+   * follows the query form: SELECT and ASK results are returned as typed
+   * bindings and booleans, CONSTRUCT and DESCRIBE results as quads.
    */
   public async queryWorld(
     worldId: string,
     query: string,
-    // deno-lint-ignore no-explicit-any
-  ): Promise<any> {
+    options?: RequestOptions,
+  ): Promise<SparqlResult> {
     const url = new URL(
       `${this.options.baseUrl}/worlds/${worldId}/sparql`,
     );
-    const response = await fetch(
-      url,
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-          "Content-Type": "application/sparql-query",
-          "Accept": "application/sparql-results+json",
-        },
-        body: query,
+    const response = await this.request(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/sparql-query",
+        "Accept": sparqlAccept(sparqlQueryForm(query)),
       },
-    );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const json = await response.json();
-    return json;
+      body: query,
+    }, options);
+    return await parseSparqlResponse(response, this.options.dataFactory);
   }
 
   /**
-   * updateWorld executes a SPARQL update against a world in the Worlds API.
+   * updateWorld executes a SPARQL update against a world in the Worlds API
+   * and reports how many quads it inserted and deleted.
    */
   public async updateWorld(
     worldId: string,
     update: string,
-  ): Promise<void> {
+    options?: RequestOptions,
+  ): Promise<UpdateResult> {
     const url = new URL(
       `${this.options.baseUrl}/worlds/${worldId}/sparql`,
     );
-    const response = await fetch(
-      url,
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-          "Content-Type": "application/sparql-update",
-        },
-        body: update,
+    const response = await this.request(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/sparql-update",
+        "Accept": "application/json",
       },
-    );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+      body: update,
+    }, options);
+    return await response.json();
   }
 
   /**
@@ -194,22 +367,296 @@ export class Worlds {
   public async updateMetadata(
     worldId: string,
     metadata: WorldMetadata,
+    options?: RequestOptions,
   ): Promise<void> {
     const url = new URL(`${this.options.baseUrl}/worlds/${worldId}`);
-    const response = await fetch(
-      url,
-      {
-        method: "PATCH",
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(metadata),
-      },
-    );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    await this.request(url, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(metadata),
+    }, options);
+  }
+
+  /**
+   * getWorldSettings gets the settings of a world.
+   */
+  public async getWorldSettings(
+    worldId: string,
+    options?: RequestOptions,
+  ): Promise<WorldSettings> {
+    const url = new URL(`${this.options.baseUrl}/worlds/${worldId}/settings`);
+    const response = await this.request(url, {}, options);
+    return await response.json();
+  }
+
+  /**
+   * updateWorldSettings updates the given settings of a world and returns all
+   * of its settings.
+   */
+  public async updateWorldSettings(
+    worldId: string,
+    settings: Partial<WorldSettings>,
+    options?: RequestOptions,
+  ): Promise<WorldSettings> {
+    const url = new URL(`${this.options.baseUrl}/worlds/${worldId}/settings`);
+    const response = await this.request(url, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(settings),
+    }, options);
+    return await response.json();
+  }
+
+  /**
+   * forkWorld creates a new world under the same account with a copy of the
+   * statements, chunks, and metadata of a world.
+   */
+  public async forkWorld(
+    sourceId: string,
+    options: ForkOptions = {},
+  ): Promise<WorldMetadata> {
+    const url = new URL(`${this.options.baseUrl}/worlds/${sourceId}/fork`);
+    const response = await this.request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ worldId: options.worldId, name: options.name }),
+    }, options);
+    return await response.json();
+  }
+
+  /**
+   * mergeWorld merges the statements of a source world into a target world
+   * in one transaction. The strategy resolves conflicting values of
+   * functional predicates.
+   */
+  public async mergeWorld(
+    sourceId: string,
+    targetId: string,
+    strategy: MergeStrategy,
+    options: MergeOptions = {},
+  ): Promise<MergeResult> {
+    const url = new URL(`${this.options.baseUrl}/worlds/${targetId}/merge`);
+    const response = await this.request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        sourceId,
+        strategy,
+        dryRun: options.dryRun ?? false,
+        functionalPredicates: options.functionalPredicates,
+      }),
+    }, options);
+    return await response.json();
+  }
+
+  /**
+   * forgetResource removes every statement about a resource from a world,
+   * including its blank node substructures, in one transaction.
+   */
+  public async forgetResource(
+    worldId: string,
+    iri: string,
+    options?: ForgetOptions,
+  ): Promise<ForgetResult> {
+    const url = new URL(`${this.options.baseUrl}/worlds/${worldId}/forget`);
+    const response = await this.request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ iri, dryRun: options?.dryRun ?? false }),
+    }, options);
+    return await response.json();
+  }
+
+  /**
+   * getChanges gets the change log of a world, oldest first.
+   */
+  public async getChanges(
+    worldId: string,
+    options: ChangesOptions = {},
+  ): Promise<Change[]> {
+    const url = new URL(`${this.options.baseUrl}/worlds/${worldId}/changes`);
+    if (options.since !== undefined) {
+      url.searchParams.set("since", String(options.since));
+    }
+
+    if (options.limit !== undefined) {
+      url.searchParams.set("limit", String(options.limit));
+    }
+
+    const response = await this.request(url, {}, options);
+    return await response.json();
+  }
+
+  /**
+   * createSnapshot names the current state of a world, so that it can be
+   * read, diffed, and restored later.
+   */
+  public async createSnapshot(
+    worldId: string,
+    name: string,
+    options?: RequestOptions,
+  ): Promise<Snapshot> {
+    const url = new URL(`${this.options.baseUrl}/worlds/${worldId}/snapshots`);
+    const response = await this.request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    }, options);
+    return await response.json();
+  }
+
+  /**
+   * listSnapshots lists the snapshots of a world, oldest first.
+   */
+  public async listSnapshots(
+    worldId: string,
+    options?: RequestOptions,
+  ): Promise<Snapshot[]> {
+    const url = new URL(`${this.options.baseUrl}/worlds/${worldId}/snapshots`);
+    const response = await this.request(url, {}, options);
+    return await response.json();
+  }
+
+  /**
+   * diffWorld gets the quads that differ between two states of a world. The
+   * later state defaults to now.
+   */
+  public async diffWorld(
+    worldId: string,
+    from: WorldPoint,
+    to?: WorldPoint,
+    options?: RequestOptions,
+  ): Promise<WorldDiff> {
+    const url = new URL(`${this.options.baseUrl}/worlds/${worldId}/diff`);
+    url.searchParams.set("from", pointParam(from));
+    if (to !== undefined) {
+      url.searchParams.set("to", pointParam(to));
+    }
+
+    const response = await this.request(url, {}, options);
+    return await response.json();
+  }
+
+  /**
+   * restoreWorld rolls a world back to a snapshot in one transaction. The
+   * restore is itself logged, so it can be undone by restoring a later
+   * snapshot.
+   */
+  public async restoreWorld(
+    worldId: string,
+    snapshotId: string,
+    options?: RequestOptions,
+  ): Promise<UpdateResult> {
+    const url = new URL(`${this.options.baseUrl}/worlds/${worldId}/restore`);
+    const response = await this.request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ snapshotId }),
+    }, options);
+    return await response.json();
+  }
+
+  /**
+   * watchWorld follows the live change feed of a world. Network errors, rate
+   * limits, and server errors are followed by a reconnect that resumes where
+   * the feed left off, so no patch is missed. The feed ends when the world is
+   * deleted, throws once the signal aborts, and throws on other errors. The
+   * timeout bounds each connection until the feed opens, not the feed itself.
+   */
+  public async *watchWorld(
+    worldId: string,
+    options: WatchOptions = {},
+  ): AsyncGenerator<WorldEvent> {
+    let since = options.since;
+    while (true) {
+      const url = new URL(`${this.options.baseUrl}/worlds/${worldId}/events`);
+      if (since !== undefined) {
+        url.searchParams.set("since", String(since));
+      }
+
+      try {
+        const response = await this.request(url, {
+          headers: { "Accept": "text/event-stream" },
+        }, { ...options, streaming: true });
+        for await (const message of parseEventStream(response.body!)) {
+          // Patches carry their change ID as event ID, and the feed opens
+          // with the change ID it starts after, even before any patch.
+          if (message.id !== undefined) {
+            since = Number(message.id);
+          }
+
+          if (message.data === "") {
+            continue;
+          }
+
+          const event = JSON.parse(message.data) as WorldEvent;
+          yield event;
+          if (event.type === "deleted") {
+            return;
+          }
+        }
+      } catch (error) {
+        if (options.signal?.aborted || !isTransient(error)) {
+          throw error;
+        }
+      }
+
+      await sleep(options.reconnectDelay ?? 1_000, options.signal);
+    }
+  }
+
+  /**
+   * getStorageUsage gets the storage of a world and of its account against
+   * the storage quota of the account's plan.
+   */
+  public async getStorageUsage(
+    worldId: string,
+    options?: RequestOptions,
+  ): Promise<StorageUsage> {
+    const url = new URL(`${this.options.baseUrl}/worlds/${worldId}/storage`);
+    const response = await this.request(url, {}, options);
+    return await response.json();
+  }
+
+  /**
+   * exportWorldDatabase streams a consistent snapshot of the database of a
+   * world as a SQLite file, with its chunks, embeddings, full-text indices,
+   * and history, so that it can be run offline or imported elsewhere.
+   */
+  public async exportWorldDatabase(
+    worldId: string,
+    options?: RequestOptions,
+  ): Promise<ReadableStream<Uint8Array>> {
+    const url = new URL(`${this.options.baseUrl}/worlds/${worldId}/database`);
+    const response = await this.request(url, {}, options);
+    return response.body!;
+  }
+
+  /**
+   * importWorldDatabase creates a new world from an exported SQLite file.
+   * The file must have the schema version of the server or an earlier one,
+   * and its embeddings must have been produced by the server's embedding
+   * model.
+   */
+  public async importWorldDatabase(
+    file: Blob | BufferSource | ReadableStream<Uint8Array>,
+    options: ImportWorldOptions = {},
+  ): Promise<WorldMetadata> {
+    const url = new URL(`${this.options.baseUrl}/worlds`);
+    if (options.worldId !== undefined) {
+      url.searchParams.set("worldId", options.worldId);
+    }
+
+    if (options.name !== undefined) {
+      url.searchParams.set("name", options.name);
     }
+
+    const response = await this.request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/vnd.sqlite3" },
+      body: file,
+    }, options);
+    return await response.json();
   }
 
   /**
@@ -218,24 +665,15 @@ export class Worlds {
   public async getStatement(
     worldId: string,
     statementId: number,
+    options?: RequestOptions,
   ): Promise<Statement | null> {
     const url = new URL(
       `${this.options.baseUrl}/worlds/${worldId}/statements/${statementId}`,
     );
-    const response = await fetch(
-      url,
-      {
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-        },
-      },
-    );
-    if (response.status === 404) {
+    const response = await this.requestOrNull(url, {}, options);
+    if (response === null) {
       return null;
     }
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
 
     return await response.json();
   }
@@ -246,23 +684,16 @@ export class Worlds {
   public async searchStatements(
     worldId: string,
     query: string,
+    options?: SearchOptions,
   ): Promise<RankedResult<Statement>[]> {
     const url = new URL(
       `${this.options.baseUrl}/worlds/${worldId}/statements`,
     );
     url.searchParams.set("query", query);
-    const response = await fetch(
-      url,
-      {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-        },
-      },
-    );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    if (options?.limit !== undefined) {
+      url.searchParams.set("limit", String(options.limit));
     }
+    const response = await this.request(url, { method: "GET" }, options);
     return await response.json();
   }
 
@@ -272,26 +703,16 @@ export class Worlds {
   public async getChunk(
     worldId: string,
     chunkId: number,
+    options?: RequestOptions,
   ): Promise<Chunk | null> {
     const url = new URL(
       `${this.options.baseUrl}/worlds/${worldId}/chunks/${chunkId}`,
     );
-    const response = await fetch(
-      url,
-      {
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-        },
-      },
-    );
-    if (response.status === 404) {
+    const response = await this.requestOrNull(url, {}, options);
+    if (response === null) {
       return null;
     }
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
     return await response.json();
   }
 
@@ -301,26 +722,61 @@ export class Worlds {
   public async searchChunks(
     worldId: string,
     query: string,
+    options?: SearchOptions,
   ): Promise<RankedResult<Chunk>[]> {
     const url = new URL(
       `${this.options.baseUrl}/worlds/${worldId}/chunks`,
     );
     url.searchParams.set("query", query);
-    const response = await fetch(
+    if (options?.limit !== undefined) {
+      url.searchParams.set("limit", String(options.limit));
+    }
+    const response = await this.request(url, { method: "GET" }, options);
+    return await response.json();
+  }
+
+  /**
+   * request sends an authenticated request to the Worlds API. It throws a
+   * WorldsApiError if the response is not ok.
+   */
+  protected async request(
+    url: URL,
+    init: RequestInit = {},
+    options?: SendOptions,
+  ): Promise<Response> {
+    const headers = new Headers(init.headers);
+    headers.set("Authorization", `Bearer ${this.options.apiKey}`);
+    const response = await send(
+      this.options,
       url,
-      {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${this.options.apiKey}`,
-        },
-      },
+      { ...init, headers },
+      options,
+    );
+    this.rateLimit = parseRateLimit(response.headers) ?? this.rateLimit;
+    return await handleResponse(
+      { method: init.method ?? "GET", url: url.toString() },
+      response,
     );
+  }
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+  /**
+   * requestOrNull is like request, but resolves to null if the resource does
+   * not exist.
+   */
+  protected async requestOrNull(
+    url: URL,
+    init: RequestInit = {},
+    options?: RequestOptions,
+  ): Promise<Response | null> {
+    try {
+      return await this.request(url, init, options);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
 
-    return await response.json();
+      throw error;
+    }
   }
 }
 
@@ -337,83 +793,280 @@ export class World {
   }
 
   /**
-   * get gets the world.
+   * rateLimit is the rate limit reported by the latest response about the
+   * world.
+   */
+  public get rateLimit(): RateLimit | null {
+    return this.worlds.rateLimit;
+  }
+
+  /**
+   * get gets the world, optionally as it was at a snapshot or a time.
    */
-  public get(encoding: string): Promise<string | null> {
-    return this.worlds.getWorld(this.options.worldId, encoding);
+  public get(
+    encoding: string,
+    options?: GetWorldOptions,
+  ): Promise<string | null> {
+    return this.worlds.getWorld(this.options.worldId, encoding, options);
   }
 
   /**
    * set sets the world.
    */
-  public set(world: string, encoding: string): Promise<void> {
-    return this.worlds.setWorld(this.options.worldId, world, encoding);
+  public set(
+    world: string,
+    encoding: string,
+    options?: RequestOptions,
+  ): Promise<void> {
+    return this.worlds.setWorld(this.options.worldId, world, encoding, options);
   }
 
   /**
    * addQuads adds quads to the world.
    */
-  public addQuads(data: string, encoding: string): Promise<void> {
-    return this.worlds.addQuads(this.options.worldId, data, encoding);
+  public addQuads(
+    data: string,
+    encoding: string,
+    options?: RequestOptions,
+  ): Promise<void> {
+    return this.worlds.addQuads(this.options.worldId, data, encoding, options);
+  }
+
+  /**
+   * ingest streams a source into the world in bounded batches.
+   */
+  public ingest(
+    source: IngestSource,
+    options?: IngestOptions,
+  ): Promise<IngestProgress> {
+    return this.worlds.ingest(this.options.worldId, source, options);
   }
 
   /**
    * remove removes the world.
    */
-  public remove(): Promise<void> {
-    return this.worlds.removeWorld(this.options.worldId);
+  public remove(options?: RequestOptions): Promise<void> {
+    return this.worlds.removeWorld(this.options.worldId, options);
   }
 
   /**
    * query executes a SPARQL query against the world.
    */
-  // deno-lint-ignore no-explicit-any
-  public query(query: string): Promise<any> {
-    return this.worlds.queryWorld(this.options.worldId, query);
+  public query(
+    query: string,
+    options?: RequestOptions,
+  ): Promise<SparqlResult> {
+    return this.worlds.queryWorld(this.options.worldId, query, options);
   }
 
   /**
    * update executes a SPARQL update against the world.
    */
-  public update(update: string): Promise<void> {
-    return this.worlds.updateWorld(this.options.worldId, update);
+  public update(
+    update: string,
+    options?: RequestOptions,
+  ): Promise<UpdateResult> {
+    return this.worlds.updateWorld(this.options.worldId, update, options);
+  }
+
+  /**
+   * forgetResource removes every statement about a resource from the world,
+   * including its blank node substructures.
+   */
+  public forgetResource(
+    iri: string,
+    options?: ForgetOptions,
+  ): Promise<ForgetResult> {
+    return this.worlds.forgetResource(this.options.worldId, iri, options);
+  }
+
+  /**
+   * fork creates a new world with a copy of the world.
+   */
+  public fork(options?: ForkOptions): Promise<WorldMetadata> {
+    return this.worlds.forkWorld(this.options.worldId, options);
+  }
+
+  /**
+   * merge merges the statements of a source world into the world.
+   */
+  public merge(
+    sourceId: string,
+    strategy: MergeStrategy,
+    options?: MergeOptions,
+  ): Promise<MergeResult> {
+    return this.worlds.mergeWorld(
+      sourceId,
+      this.options.worldId,
+      strategy,
+      options,
+    );
+  }
+
+  /**
+   * getChanges gets the change log of the world, oldest first.
+   */
+  public getChanges(options?: ChangesOptions): Promise<Change[]> {
+    return this.worlds.getChanges(this.options.worldId, options);
+  }
+
+  /**
+   * createSnapshot names the current state of the world.
+   */
+  public createSnapshot(
+    name: string,
+    options?: RequestOptions,
+  ): Promise<Snapshot> {
+    return this.worlds.createSnapshot(this.options.worldId, name, options);
+  }
+
+  /**
+   * listSnapshots lists the snapshots of the world, oldest first.
+   */
+  public listSnapshots(options?: RequestOptions): Promise<Snapshot[]> {
+    return this.worlds.listSnapshots(this.options.worldId, options);
+  }
+
+  /**
+   * diff gets the quads that differ between two states of the world.
+   */
+  public diff(
+    from: WorldPoint,
+    to?: WorldPoint,
+    options?: RequestOptions,
+  ): Promise<WorldDiff> {
+    return this.worlds.diffWorld(this.options.worldId, from, to, options);
+  }
+
+  /**
+   * restore rolls the world back to a snapshot.
+   */
+  public restore(
+    snapshotId: string,
+    options?: RequestOptions,
+  ): Promise<UpdateResult> {
+    return this.worlds.restoreWorld(this.options.worldId, snapshotId, options);
+  }
+
+  /**
+   * watch follows the live change feed of the world.
+   */
+  public watch(options?: WatchOptions): AsyncIterable<WorldEvent> {
+    return this.worlds.watchWorld(this.options.worldId, options);
+  }
+
+  /**
+   * getStorageUsage gets the storage of the world and of its account.
+   */
+  public getStorageUsage(options?: RequestOptions): Promise<StorageUsage> {
+    return this.worlds.getStorageUsage(this.options.worldId, options);
+  }
+
+  /**
+   * exportDatabase streams a snapshot of the database of the world as a
+   * SQLite file.
+   */
+  public exportDatabase(
+    options?: RequestOptions,
+  ): Promise<ReadableStream<Uint8Array>> {
+    return this.worlds.exportWorldDatabase(this.options.worldId, options);
   }
 
   /**
    * searchStatements searches for statements in the world.
    */
-  public searchStatements(query: string): Promise<RankedResult<Statement>[]> {
-    return this.worlds.searchStatements(this.options.worldId, query);
+  public searchStatements(
+    query: string,
+    options?: SearchOptions,
+  ): Promise<RankedResult<Statement>[]> {
+    return this.worlds.searchStatements(this.options.worldId, query, options);
   }
 
   /**
    * getStatement gets a specific statement.
    */
-  public getStatement(statementId: number): Promise<Statement | null> {
-    return this.worlds.getStatement(this.options.worldId, statementId);
+  public getStatement(
+    statementId: number,
+    options?: RequestOptions,
+  ): Promise<Statement | null> {
+    return this.worlds.getStatement(this.options.worldId, statementId, options);
   }
 
   /**
    * searchChunks searches for chunks in the world.
    */
-  public searchChunks(query: string): Promise<RankedResult<Chunk>[]> {
-    return this.worlds.searchChunks(this.options.worldId, query);
+  public searchChunks(
+    query: string,
+    options?: SearchOptions,
+  ): Promise<RankedResult<Chunk>[]> {
+    return this.worlds.searchChunks(this.options.worldId, query, options);
   }
 
   /**
    * getChunk gets a specific chunk.
    */
-  public getChunk(chunkId: number): Promise<Chunk | null> {
-    return this.worlds.getChunk(this.options.worldId, chunkId);
+  public getChunk(
+    chunkId: number,
+    options?: RequestOptions,
+  ): Promise<Chunk | null> {
+    return this.worlds.getChunk(this.options.worldId, chunkId, options);
   }
 
   /**
    * updateMetadata updates the world's metadata.
    */
-  public updateMetadata(metadata: WorldMetadata): Promise<void> {
+  public updateMetadata(
+    metadata: WorldMetadata,
+    options?: RequestOptions,
+  ): Promise<void> {
     return this.worlds.updateMetadata(
       this.options.worldId,
       metadata,
+      options,
     );
   }
+
+  /**
+   * getSettings gets the world's settings.
+   */
+  public getSettings(options?: RequestOptions): Promise<WorldSettings> {
+    return this.worlds.getWorldSettings(this.options.worldId, options);
+  }
+
+  /**
+   * updateSettings updates the given settings of the world.
+   */
+  public updateSettings(
+    settings: Partial<WorldSettings>,
+    options?: RequestOptions,
+  ): Promise<WorldSettings> {
+    return this.worlds.updateWorldSettings(
+      this.options.worldId,
+      settings,
+      options,
+    );
+  }
+}
+
+/**
+ * pointParam encodes a world point as a query parameter: snapshot IDs as is
+ * and times in milliseconds since the epoch.
+ */
+function pointParam(point: WorldPoint): string {
+  return point instanceof Date ? String(point.getTime()) : String(point);
+}
+
+/**
+ * isTransient reports whether a failed connection to the change feed may
+ * succeed when retried: network errors, which fetch and reads of a dropped
+ * body reject with as TypeError, timeouts, rate limits, and server errors.
+ * Aborts and malformed events are not.
+ */
+function isTransient(error: unknown): boolean {
+  if (error instanceof WorldsApiError) {
+    return error instanceof RateLimitedError || error instanceof ServerError;
+  }
+
+  return error instanceof TypeError ||
+    (error instanceof DOMException && error.name === "TimeoutError");
 }
@@ -15,6 +15,11 @@ CREATE TABLE IF NOT EXISTS kb_statements (
   -- NOTE: 'BlankNode' subjects/objects MUST be skolemized (e.g., .well-known/genid/...) 
   -- to ensure stable identity across storage and sessions.
   term_type TEXT NOT NULL DEFAULT 'NamedNode',
+  -- Term types of the subject ('NamedNode', 'BlankNode') and the graph
+  -- ('NamedNode', 'BlankNode', 'DefaultGraph'), so that every term kind
+  -- round-trips. The DefaultGraph is stored as the empty string.
+  subject_term_type TEXT NOT NULL DEFAULT 'NamedNode',
+  graph_term_type TEXT NOT NULL DEFAULT 'NamedNode',
   object_language TEXT NOT NULL DEFAULT '',
   object_datatype TEXT NOT NULL DEFAULT '',
   CONSTRAINT kb_statement_unique UNIQUE (
@@ -22,16 +27,86 @@ CREATE TABLE IF NOT EXISTS kb_statements (
   )
 );
 
--- Trigger for Recursive Cascading Deletes of Blank Nodes
--- NOTE: Requires 'PRAGMA recursive_triggers = ON;' in the connection setup.
-CREATE TRIGGER IF NOT EXISTS kb_statements_ad_bn AFTER DELETE ON kb_statements
-WHEN old.term_type = 'BlankNode' OR OLD.object LIKE 'urn:uuid:%' OR OLD.object LIKE '.well-known/genid/%'
+-- Change Log
+-- kb_changes: Knowledge Base Changes
+-- Append-only log of statement inserts and deletes, written by the triggers
+-- below so that every write path, including cascades, is recorded in the same
+-- transaction. Past states of the World are rebuilt by undoing the changes
+-- made since.
+CREATE TABLE IF NOT EXISTS kb_changes (
+  change_id INTEGER PRIMARY KEY AUTOINCREMENT,
+  change_type TEXT NOT NULL, -- 'insert' or 'delete'
+  operation_id TEXT NOT NULL DEFAULT '',
+  key_prefix TEXT NOT NULL DEFAULT '',
+  created_at INTEGER NOT NULL,
+  statement_id INTEGER NOT NULL,
+  subject TEXT NOT NULL,
+  predicate TEXT NOT NULL,
+  object TEXT NOT NULL,
+  graph TEXT NOT NULL,
+  term_type TEXT NOT NULL,
+  subject_term_type TEXT NOT NULL,
+  graph_term_type TEXT NOT NULL,
+  object_language TEXT NOT NULL,
+  object_datatype TEXT NOT NULL
+);
+
+-- kb_change_origin: Knowledge Base Change Origin
+-- Holds the origin of the changes of the current write transaction: writers
+-- set the single row at the start of a transaction and clear it at the end.
+-- Changes made without an origin are logged with empty IDs.
+CREATE TABLE IF NOT EXISTS kb_change_origin (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  operation_id TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+-- kb_statements_ai_log: Knowledge Base Statements After Insert Log
+CREATE TRIGGER IF NOT EXISTS kb_statements_ai_log AFTER INSERT ON kb_statements
 BEGIN
-  -- If we deleted a statement where the Object was a Blank Node (Skolemized),
-  -- we must recursively delete all statements where that Blank Node is the Subject.
-  DELETE FROM kb_statements WHERE subject = old.object;
+  INSERT INTO kb_changes (
+    change_type, operation_id, key_prefix, created_at, statement_id, subject,
+    predicate, object, graph, term_type, subject_term_type, graph_term_type,
+    object_language, object_datatype
+  )
+  SELECT 'insert', COALESCE(origin.operation_id, ''),
+    COALESCE(origin.key_prefix, ''),
+    COALESCE(origin.created_at, CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    new.statement_id, new.subject, new.predicate, new.object, new.graph,
+    new.term_type, new.subject_term_type, new.graph_term_type,
+    new.object_language, new.object_datatype
+  FROM (SELECT 1) LEFT JOIN kb_change_origin AS origin;
 END;
 
+-- kb_statements_ad_log: Knowledge Base Statements After Delete Log
+CREATE TRIGGER IF NOT EXISTS kb_statements_ad_log AFTER DELETE ON kb_statements
+BEGIN
+  INSERT INTO kb_changes (
+    change_type, operation_id, key_prefix, created_at, statement_id, subject,
+    predicate, object, graph, term_type, subject_term_type, graph_term_type,
+    object_language, object_datatype
+  )
+  SELECT 'delete', COALESCE(origin.operation_id, ''),
+    COALESCE(origin.key_prefix, ''),
+    COALESCE(origin.created_at, CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    old.statement_id, old.subject, old.predicate, old.object, old.graph,
+    old.term_type, old.subject_term_type, old.graph_term_type,
+    old.object_language, old.object_datatype
+  FROM (SELECT 1) LEFT JOIN kb_change_origin AS origin;
+END;
+
+-- Snapshots
+-- kb_snapshots: Knowledge Base Snapshots
+-- Named points in the change log. A snapshot stores no statements: the World
+-- at a snapshot is the World after the change it points to.
+CREATE TABLE IF NOT EXISTS kb_snapshots (
+  snapshot_id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  change_id INTEGER NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
 -- Chunks Table (Linked to kb_statements)
 -- We use FLOAT32(512) for TensorFlow USE embeddings.
 -- kb_chunks: Knowledge Base Chunks
@@ -43,6 +118,15 @@ CREATE TABLE IF NOT EXISTS kb_chunks (
   FOREIGN KEY(statement_id) REFERENCES kb_statements(statement_id) ON DELETE CASCADE
 );
 
+-- World Settings
+-- kb_settings: Knowledge Base Settings
+-- Key/value settings of the World, e.g. the embedding model that produced the
+-- vectors in kb_chunks.
+CREATE TABLE IF NOT EXISTS kb_settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+
 -- Vector Index
 -- kb_chunks_vector_idx: Knowledge Base Chunks Vector Index
 CREATE INDEX IF NOT EXISTS kb_chunks_vector_idx ON kb_chunks (libsql_vector_idx(embedding));
@@ -85,3 +169,5 @@ CREATE INDEX IF NOT EXISTS kb_g_index ON kb_statements (graph);
 CREATE INDEX IF NOT EXISTS kb_sp_index ON kb_statements (subject, predicate);
 -- kb_po_index: Knowledge Base Predicate-Object Index
 CREATE INDEX IF NOT EXISTS kb_po_index ON kb_statements (predicate, object);
+-- kb_changes_created_at_index: Knowledge Base Changes Creation Time Index
+CREATE INDEX IF NOT EXISTS kb_changes_created_at_index ON kb_changes (created_at);
@@ -8,6 +8,8 @@ export interface StatementRow {
   object: string;
   graph: string;
   term_type?: "NamedNode" | "BlankNode" | "Literal" | "DefaultGraph";
+  subject_term_type?: "NamedNode" | "BlankNode";
+  graph_term_type?: "NamedNode" | "BlankNode" | "DefaultGraph";
   object_language?: string;
   object_datatype?: string;
 }
@@ -22,6 +24,100 @@ export interface ChunkRow {
   embedding: number[];
 }
 
+/**
+ * SettingRow is a row in the settings table.
+ */
+export interface SettingRow {
+  key: string;
+  value: string;
+}
+
+/**
+ * ChangeRow is a row in the change log: a statement that was inserted or
+ * deleted.
+ */
+export interface ChangeRow extends Required<StatementRow> {
+  change_id: number;
+  change_type: "insert" | "delete";
+
+  /**
+   * operation_id groups the changes of one write, e.g. one request.
+   */
+  operation_id: string;
+
+  /**
+   * key_prefix is the prefix of the API key that made the change.
+   */
+  key_prefix: string;
+  created_at: number;
+}
+
+/**
+ * SnapshotRow is a row in the snapshots table: a named point in the change
+ * log.
+ */
+export interface SnapshotRow {
+  snapshot_id: string;
+  name: string;
+
+  /**
+   * change_id is the last change included in the snapshot, or 0 for the
+   * state before the first logged change.
+   */
+  change_id: number;
+  created_at: number;
+}
+
+/**
+ * ChangeFilter selects changes from the change log.
+ */
+export interface ChangeFilter {
+  /**
+   * since only selects changes after this change ID.
+   */
+  since?: number;
+
+  /**
+   * until only selects changes up to and including this change ID.
+   */
+  until?: number;
+
+  /**
+   * limit is the maximum number of changes to select.
+   */
+  limit?: number;
+}
+
+/**
+ * ForgetOptions are the options for forgetting a resource.
+ */
+export interface ForgetOptions {
+  /**
+   * dryRun reports what would be removed without removing it.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * ForgetResult reports what forgetting a resource removed.
+ */
+export interface ForgetResult {
+  /**
+   * statements is the number of statements removed.
+   */
+  statements: number;
+
+  /**
+   * chunks is the number of chunks removed with the statements.
+   */
+  chunks: number;
+
+  /**
+   * dryRun is true if nothing was actually removed.
+   */
+  dryRun: boolean;
+}
+
 /**
  * RankedResult is a result from a reciprocal rank fusion search.
  */
@@ -44,6 +140,28 @@ export interface RankedResult<T> {
   rank: Record<string, number>;
 }
 
+/**
+ * StatementRowPattern matches statement rows by column value. Unset columns
+ * match any value.
+ */
+export type StatementRowPattern = Partial<Omit<StatementRow, "statement_id">>;
+
+/**
+ * StatementRowPatch is a set of statement changes applied in one transaction.
+ * Deletions are applied before insertions.
+ */
+export interface StatementRowPatch {
+  /**
+   * deletions match the statements to remove.
+   */
+  deletions: StatementRowPattern[];
+
+  /**
+   * insertions are the statements to add.
+   */
+  insertions: StatementRow[];
+}
+
 export interface StatementsStore {
   // GRAPHS.
 
@@ -79,6 +197,23 @@ export interface StatementsStore {
    */
   removeStatement(statementId: number): Promise<void>;
 
+  /**
+   * matchStatements gets all statements matching a pattern.
+   */
+  matchStatements(pattern: StatementRowPattern): Promise<StatementRow[]>;
+
+  /**
+   * patchStatements deletes and inserts statements, with their chunks, in one
+   * transaction.
+   */
+  patchStatements(patch: StatementRowPatch): Promise<void>;
+
+  /**
+   * forgetResource removes all statements about a resource, including its
+   * blank node substructures, in one transaction.
+   */
+  forgetResource(iri: string, options?: ForgetOptions): Promise<ForgetResult>;
+
   /**
    * searchStatements searches for statements.
    */
@@ -87,6 +222,48 @@ export interface StatementsStore {
     k?: number,
   ): Promise<RankedResult<StatementRow>[]>;
 
+  // HISTORY.
+
+  /**
+   * getChanges gets changes from the change log in order. Changes since a
+   * change that was pruned cannot be read.
+   */
+  getChanges(filter?: ChangeFilter): Promise<ChangeRow[]>;
+
+  /**
+   * getChangeIdAt gets the ID of the last change made at or before a time,
+   * or 0 if there is none.
+   */
+  getChangeIdAt(timestamp: number): Promise<number>;
+
+  /**
+   * getStatementsAt gets all statements as they were after a change, which
+   * must not precede the pruned changes.
+   */
+  getStatementsAt(changeId: number): Promise<StatementRow[]>;
+
+  /**
+   * pruneChanges removes the changes made before a time from the change log,
+   * along with the snapshots that point into them, and returns the number of
+   * changes removed.
+   */
+  pruneChanges(before: number): Promise<number>;
+
+  /**
+   * insertSnapshot inserts a snapshot.
+   */
+  insertSnapshot(snapshot: SnapshotRow): Promise<void>;
+
+  /**
+   * getSnapshot gets a snapshot by snapshot ID.
+   */
+  getSnapshot(snapshotId: string): Promise<SnapshotRow | null>;
+
+  /**
+   * listSnapshots gets all snapshots, oldest first.
+   */
+  listSnapshots(): Promise<SnapshotRow[]>;
+
   // CHUNKS.
 
   /**
@@ -28,6 +28,17 @@ CREATE TABLE IF NOT EXISTS kb_api_keys (
 -- Index for fast lookup by account
 CREATE INDEX IF NOT EXISTS kb_ak_account_idx ON kb_api_keys (account_id);
 
+-- API Key Scopes
+-- kb_api_key_worlds: Knowledge Base API Key Worlds
+-- Restricts a key to some of its account's worlds. Keys without rows here may
+-- access every world of the account.
+CREATE TABLE IF NOT EXISTS kb_api_key_worlds (
+  key_hash TEXT NOT NULL,
+  world_id TEXT NOT NULL,
+  PRIMARY KEY (key_hash, world_id),
+  FOREIGN KEY(key_hash) REFERENCES kb_api_keys(key_hash) ON DELETE CASCADE
+);
+
 -- Worlds Metadata Table
 -- kb_worlds: Knowledge Base Worlds
 -- Maps World IDs to Accounts and stores high-level metadata.
@@ -46,17 +57,40 @@ CREATE TABLE IF NOT EXISTS kb_worlds (
 -- Index for lookup by account
 CREATE INDEX IF NOT EXISTS kb_w_account_idx ON kb_worlds (account_id);
 
+-- Account Access Control
+-- kb_account_worlds: Knowledge Base Account Worlds
+-- Maps to SDK 'WorldsAccount.accessControl.worlds'.
+CREATE TABLE IF NOT EXISTS kb_account_worlds (
+  account_id TEXT NOT NULL,
+  world_id TEXT NOT NULL,
+  PRIMARY KEY (account_id, world_id),
+  FOREIGN KEY(account_id) REFERENCES kb_accounts(account_id) ON DELETE CASCADE
+);
+
+-- Storage Tracking
+-- kb_world_storage: Knowledge Base World Storage
+-- The measured size of each world's database, summed per account to enforce
+-- 'kb_limits.quota_storage_bytes'.
+CREATE TABLE IF NOT EXISTS kb_world_storage (
+  world_id TEXT PRIMARY KEY,
+  account_id TEXT NOT NULL,
+  storage_bytes INTEGER NOT NULL DEFAULT 0,
+  measured_at INTEGER NOT NULL,
+  FOREIGN KEY(account_id) REFERENCES kb_accounts(account_id) ON DELETE CASCADE
+);
+
 -- Usage Monitoring
 -- kb_usage: Knowledge Base Usage Buckets
--- Aggregates usage metrics for billing.
+-- Aggregates usage metrics for billing into 1-minute buckets per API key.
 CREATE TABLE IF NOT EXISTS kb_usage (
   bucket_start_ts INTEGER NOT NULL,
   account_id TEXT NOT NULL,
-  endpoint TEXT NOT NULL,
+  key_prefix TEXT NOT NULL DEFAULT '', -- kb_api_keys.key_prefix
+  endpoint TEXT NOT NULL, -- e.g. "POST /worlds/:world/sparql"
   request_count INTEGER DEFAULT 0,
   token_in_count INTEGER DEFAULT 0,
   token_out_count INTEGER DEFAULT 0,
-  PRIMARY KEY (bucket_start_ts, account_id, endpoint),
+  PRIMARY KEY (bucket_start_ts, account_id, key_prefix, endpoint),
   FOREIGN KEY(account_id) REFERENCES kb_accounts(account_id) ON DELETE CASCADE
 );
 
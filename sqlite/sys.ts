@@ -21,18 +21,88 @@ export interface ApiKeyRow {
   expires_at: number | null;
 }
 
+/**
+ * ApiKeyWorldRow represents a row in the kb_api_key_worlds table.
+ */
+export interface ApiKeyWorldRow {
+  key_hash: string;
+  world_id: string;
+}
+
+/**
+ * WorldRow represents a row in the kb_worlds table.
+ */
+export interface WorldRow {
+  world_id: string;
+  account_id: string;
+  name: string;
+  description: string | null;
+  created_at: number;
+  updated_at: number;
+  deleted_at: number | null;
+  is_public: number; // 0 or 1
+}
+
+/**
+ * AccountWorldRow represents a row in the kb_account_worlds table.
+ */
+export interface AccountWorldRow {
+  account_id: string;
+  world_id: string;
+}
+
+/**
+ * WorldStorageRow represents a row in the kb_world_storage table.
+ */
+export interface WorldStorageRow {
+  world_id: string;
+  account_id: string;
+  storage_bytes: number;
+  measured_at: number;
+}
+
 /**
  * UsageBucketRow is a row in the kb_usage table.
  */
 export interface UsageBucketRow {
   bucket_start_ts: number;
   account_id: string;
+  key_prefix: string;
   endpoint: string;
   request_count: number;
   token_in_count: number;
   token_out_count: number;
 }
 
+/**
+ * UsageGranularity is the size of the buckets usage is rolled up into.
+ */
+export type UsageGranularity = "minute" | "hour" | "day" | "month";
+
+/**
+ * UsageFilter selects and rolls up usage buckets.
+ */
+export interface UsageFilter {
+  /**
+   * start is the inclusive lower bound of bucket_start_ts.
+   */
+  start?: number;
+
+  /**
+   * end is the exclusive upper bound of bucket_start_ts.
+   */
+  end?: number;
+
+  endpoint?: string;
+  keyPrefix?: string;
+
+  /**
+   * granularity rolls buckets up into UTC hours, days, or months. Defaults
+   * to "minute", the size of stored buckets.
+   */
+  granularity?: UsageGranularity;
+}
+
 /**
  * LimitRow is a row in the kb_limits table.
  */
@@ -42,3 +112,146 @@ export interface LimitRow {
   quota_storage_bytes: number;
   allow_reasoning: number; // 0 or 1
 }
+
+/**
+ * SysStore is the store of the system database: accounts, API keys, world
+ * metadata, usage, and plan limits.
+ */
+export interface SysStore {
+  // ACCOUNTS.
+
+  /**
+   * getAccount gets an account by account ID.
+   */
+  getAccount(accountId: string): Promise<AccountRow | null>;
+
+  /**
+   * listAccounts lists all accounts.
+   */
+  listAccounts(): Promise<AccountRow[]>;
+
+  /**
+   * insertAccount inserts an account.
+   */
+  insertAccount(account: AccountRow): Promise<void>;
+
+  /**
+   * updateAccount updates the description and plan of an account.
+   */
+  updateAccount(account: AccountRow): Promise<void>;
+
+  /**
+   * removeAccount removes an account with its API keys, worlds, and usage.
+   */
+  removeAccount(accountId: string): Promise<void>;
+
+  /**
+   * getAccountWorlds gets the IDs of the worlds an account may access.
+   */
+  getAccountWorlds(accountId: string): Promise<string[]>;
+
+  /**
+   * setAccountWorlds replaces the IDs of the worlds an account may access.
+   */
+  setAccountWorlds(accountId: string, worldIds: string[]): Promise<void>;
+
+  /**
+   * grantWorld adds a world to the worlds an account may access.
+   */
+  grantWorld(accountId: string, worldId: string): Promise<void>;
+
+  /**
+   * revokeWorld removes a world from the worlds of every account.
+   */
+  revokeWorld(worldId: string): Promise<void>;
+
+  // API KEYS.
+
+  /**
+   * getApiKey gets an API key by the hash of its secret.
+   */
+  getApiKey(keyHash: string): Promise<ApiKeyRow | null>;
+
+  /**
+   * listApiKeys lists the API keys of an account.
+   */
+  listApiKeys(accountId: string): Promise<ApiKeyRow[]>;
+
+  /**
+   * getApiKeyWorlds gets the IDs of the worlds an API key is scoped to. The
+   * list is empty if the key may access every world of its account.
+   */
+  getApiKeyWorlds(keyHash: string): Promise<string[]>;
+
+  /**
+   * insertApiKey inserts an API key, optionally scoped to some worlds.
+   */
+  insertApiKey(key: ApiKeyRow, worldIds?: string[]): Promise<void>;
+
+  /**
+   * removeApiKey removes an API key with its scope.
+   */
+  removeApiKey(keyHash: string): Promise<void>;
+
+  // WORLDS.
+
+  /**
+   * getWorld gets a world by world ID, including soft-deleted worlds.
+   */
+  getWorld(worldId: string): Promise<WorldRow | null>;
+
+  /**
+   * listWorlds lists the worlds that are not deleted, optionally only those
+   * of an account.
+   */
+  listWorlds(accountId?: string): Promise<WorldRow[]>;
+
+  /**
+   * setWorld inserts or replaces a world.
+   */
+  setWorld(world: WorldRow): Promise<void>;
+
+  // STORAGE.
+
+  /**
+   * getWorldStorage gets the measured storage of a world.
+   */
+  getWorldStorage(worldId: string): Promise<WorldStorageRow | null>;
+
+  /**
+   * setWorldStorage inserts or replaces the measured storage of a world.
+   */
+  setWorldStorage(storage: WorldStorageRow): Promise<void>;
+
+  /**
+   * getAccountStorage sums the measured storage of the worlds of an account
+   * that are not deleted.
+   */
+  getAccountStorage(accountId: string): Promise<number>;
+
+  // USAGE.
+
+  /**
+   * getUsage gets the usage buckets of an account, optionally filtered and
+   * rolled up.
+   */
+  getUsage(accountId: string, filter?: UsageFilter): Promise<UsageBucketRow[]>;
+
+  /**
+   * addUsage adds the counts of usage buckets to the stored buckets. Buckets
+   * of accounts that no longer exist are skipped.
+   */
+  addUsage(buckets: UsageBucketRow[]): Promise<void>;
+
+  // LIMITS.
+
+  /**
+   * getLimit gets the limits of a plan.
+   */
+  getLimit(plan: string): Promise<LimitRow | null>;
+
+  /**
+   * setLimit inserts or replaces the limits of a plan.
+   */
+  setLimit(limit: LimitRow): Promise<void>;
+}